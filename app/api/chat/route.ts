@@ -1,24 +1,74 @@
-import { streamText, tool } from 'ai';
+import { streamText, tool, createDataStreamResponse, convertToCoreMessages, formatDataStreamPart, type JSONValue, type Message, type FinishReason } from 'ai';
 import { type CoreMessage } from 'ai';
-import { anthropic } from '@ai-sdk/anthropic';
+import { getModel } from '@/app/utils/modelRegistry';
 // Import the tool definitions (now includes askPossibility, askAdditionalInfo, planning)
 import { chatTools } from '@/app/tools/definitions'; 
 // Import the classification tool separately (as it's not in definitions.ts)
-import { classificationTool } from '@/app/tools/classificationTool';
+import { classificationTool, executeClassification } from '@/app/tools/classificationTool';
+// Research and analyst definitions, overridden to apply the execution budget
+import { researchTool as researchToolDefinition, executeResearch } from '@/app/tools/researchTool';
+// Deep research, enabled per request with the depth and query budget the user selected
+import { deepResearchTool as deepResearchToolDefinition, executeDeepResearch } from '@/app/tools/deepResearchTool';
+import { isDeepResearchSettings, researchDepths, type DeepResearchSettings } from '@/app/data/research_depths';
+import { analystTool as analystToolDefinition, executeAnalyst } from '@/app/tools/analystTool';
 // Import the actual contextualizer tool implementation and definition for overriding
-import { contextualizerTool as contextualizerToolDefinition, executeContextualizer, type ExtractedFile } from '@/app/tools/contextualizerTool';
+import { contextualizerTool as contextualizerToolDefinition, executeContextualizer } from '@/app/tools/contextualizerTool';
+import { dataAnalysisTool as dataAnalysisToolDefinition, executeDataAnalysis } from '@/app/tools/dataAnalysisTool';
+// Import the planning tool definition and the executor that runs its plan server-side
+import { planningTool as planningToolDefinition } from '@/app/tools/planningTool';
+import { executePlan, createAgentRunners } from '@/app/utils/planExecutor';
+// Import the QA tool definition and execution logic for overriding
+import { qaTool as qaToolDefinition, executeQa } from '@/app/tools/qaTool';
+// Stored documents are read from the server-side document store, scoped to the user's namespace
+import { type DocumentSource } from '@/app/utils/documentStore';
+import { resolveNamespace, USER_ID_HEADER } from '@/app/utils/userNamespace';
+// Import the council tool definition and the revise-and-retry loop around it
+import { councilTool as councilToolDefinition } from '@/app/tools/councilTool';
+import { executeCouncilWithRemediation } from '@/app/utils/councilRemediation';
+// Phase state machine that gates the orchestrator's tools
+import {
+  resumePhaseState,
+  withPhaseGuards,
+  getActiveTools,
+  getToolChoice,
+  recordAnswer,
+  toPhaseAnnotation,
+} from '@/app/utils/phaseMachine';
+// Execution budget derived from the classified complexity
+import {
+  createBudgetState,
+  applyClassification,
+  checkPlanBudget,
+  consumePlanBudget,
+  reserveResearchQueries,
+  BUDGET_SKIPPED_ERROR,
+} from '@/app/utils/executionBudget';
+// Claim-level grounding check of the final answer
+import { collectEvidence, checkGrounding, type ToolResultLike } from '@/app/utils/grounding';
+// URL de-duplication across the research queries of a turn, and the team's source credibility policy
+import { createResearchRun } from '@/app/utils/researchCache';
+import { getCredibilityPolicy } from '@/app/utils/sourceCredibility';
 
 export const maxDuration = 600;
 
-
 export async function POST(req: Request) {
-  const { messages: originalMessages, localContext, overrideUserMessage }: { 
-    messages: CoreMessage[], 
-    localContext: Record<string, ExtractedFile>,
-    overrideUserMessage?: string 
+  const { messages: originalMessages, documentIds, overrideUserMessage, deepResearch }: { 
+    messages: Message[], 
+    documentIds?: string[], // Optional subset of stored documents; all of the user's documents if omitted
+    overrideUserMessage?: string,
+    deepResearch?: DeepResearchSettings // Set when the user enabled deep research in the chat
   } = await req.json();
 
-  const orchestratorLlm = anthropic('claude-3-7-sonnet-20250219');
+  const namespace = resolveNamespace(req);
+  if (!namespace) {
+    return Response.json({ error: `Missing or invalid ${USER_ID_HEADER} header` }, { status: 400 });
+  }
+  const documentSource: DocumentSource = { namespace, documentIds };
+  if (deepResearch !== undefined && !isDeepResearchSettings(deepResearch)) {
+    return Response.json({ error: 'Invalid deepResearch settings' }, { status: 400 });
+  }
+
+  const orchestratorLlm = getModel('orchestrator');
 
   // Create a deep copy of messages to work with
   const processedMessages = [...originalMessages];
@@ -44,29 +94,44 @@ export async function POST(req: Request) {
 
     **CORE PRINCIPLE: DEEP REASONING BEFORE ACTION.** Before selecting *any* tool or proceeding to the next step in the process, you MUST engage in deep reasoning. Analyze the current state, the user query, the conversation history, and the available tool outputs. Think step-by-step to ensure the next action is the most logical and appropriate one according to the defined process. Do not jump to conclusions or execute tools prematurely.
 
-    **DETAILED PROCESS STEPS (YOU MUST FOLLOW THIS EXACTLY OR YOUR FAMILY DIES):**
+    **DETAILED PROCESS STEPS:**
     *   **Phase 1: Assessment**
-        *   First, call 'classify'.
+        *   First, call 'classify'. It rates the complexity against the complexity guidelines and returns the \\\`budget\\\` of this turn: \\\`maxAgents\\\` per plan, \\\`maxResearcherQueries\\\` (research queries, researcher agents and deep research queries together), \\\`analystAttempts\\\`, \\\`maxSteps\\\` and the council's \\\`councilStrictness\\\`. The server enforces it.
         *   Then, call 'askPossibility'.
         *   If 'askPossibility' tool returns 'NO' (task not feasible), immediately proceed to **Phase 5: Final Synthesis** 
         *   If 'askPossibility tool returns 'YES' but indicates missing information, call 'askAdditionalInfo' tool. Await user response before proceeding.
         *   If 'askPossibility' returns 'YES' and sufficient information is available, proceed to **Phase 2: Planning**.
     *   **Phase 2: Planning**
-        *   Call 'planning' tool to generate the execution plan based on the task. Proceed to **Phase 3: Execution**.
+        *   'classify' also returns the task \\\`type\\\`, which selects the route of the task. The server only exposes the tools of that route:
+            *   DOCUMENT_QA: no plan. Call 'contextualizer' directly, then 'qa' on its snippets if needed. For figures from uploaded spreadsheets (or tables found in other uploads) call 'dataAnalysis', and pass its \\\`dataset\\\` to 'analyst' if a chart is requested.
+            *   DATA_VISUALIZATION: no plan. Call 'analyst' directly with the diagram request.
+            *   FACTUAL_LOOKUP with MINIMAL_COMPLEXITY or TRIVIAL complexity: no plan. Call 'research' directly with one or two queries.
+            *   ${deepResearch
+              ? `Deep research is ENABLED for this request (${researchDepths[deepResearch.depth].label}, up to ${deepResearch.maxQueries} search queries). RESEARCH, COMPARISON and other FACTUAL_LOOKUP tasks: no plan. Call 'deepResearch' once with the topic and at most ${researchDepths[deepResearch.depth].queriesPerRound} focused first-pass queries, most important first. Its queries also count against \\\`maxResearcherQueries\\\`. It runs the follow-up rounds itself and returns a \\\`report\\\` citing a numbered \\\`sources\\\` list. Only call 'research', 'contextualizer' or 'qa' afterwards for a specific gap the report lists.`
+              : `Deep research is disabled for this request; never call 'deepResearch'.`}
+            *   All other tasks: call 'planning' tool to generate the execution plan based on the task.
+        *   Proceed to **Phase 3: Execution**.
     *   **Phase 3: Execution**
-        *   Execute the tools specified in the plan ('research', 'analyst', 'contextualizer').
-        *   **IMPORTANT:** Collect ALL results from these executed tools. Proceed *only* when all planned tools in this phase are complete. Then, move to **Phase 4: Evaluation**.
+        *   On a route without a plan, call the route's tools until the results answer the query, then move to **Phase 4: Evaluation**.
+        *   The 'planning' tool executes the plan itself: agents run by order, in parallel where allowed, with upstream outputs passed to dependent agents.
+        *   Read the \\\`execution\\\` field of the 'planning' result. It holds the status and output of every planned agent.
+        *   Do NOT call 'research', 'analyst' or 'contextualizer' again for agents that already ran. Only call them for targeted follow-ups if an agent failed.
+        *   If \\\`execution.error\\\` reports an invalid plan, call 'planning' again with corrected dependencies. If it reports a plan over the execution budget, call 'planning' again with fewer agents. Then, move to **Phase 4: Evaluation**.
     *   **Phase 4: Evaluation (MANDATORY)**
         *   **CRITICAL STEP:** You MUST now execute the 'council' tool.
         *   **Prepare Inputs:** Gather outputs from ALL tools executed in Phase 3 into \\\`aggregatedToolResults\\\`. Get the \\\`userQuery\\\` and \\\`conversationHistory\\\`.
         *   **Execute 'council':** Call the 'council' tool with the prepared inputs.
-        *   Once the 'council' tool provides its judgement and explanation, proceed to **Phase 5: Final Synthesis**.
+        *   If the council rejects the results, follow-up research/contextualizer work is planned from its explanation and the council re-evaluates automatically (\\\`rounds\\\` lists every round, including the outputs of the follow-up agents). Do NOT call 'council' again yourself; use the follow-up outputs in the final answer.
+        *   The council is a panel of independent judges. Its result holds the overall judgement, a per-check breakdown (\\\`checks\\\`) and each judge's verdict (\\\`judges\\\`).
+        *   Once the 'council' tool provides its judgement and explanation, proceed to **Phase 5: Final Synthesis**. If \\\`disagreement\\\` is true, point out the contested checks as uncertain in the final answer.
     *   **Phase 5: Final Synthesis (TERMINAL STEP)**
         *   Synthesize ALL available information: classification, plan (if any), results from Phase 3 tools, AND the 'council' judgement/explanation from Phase 4.
+        *   After 'deepResearch', present its report (summary, sections, contradictions, open questions) and end with its numbered source list, keeping the source numbers of its citations.
         *   This is the **FINAL** step. Do not call any other tools after this.
 
     **PLANNING GUIDELINES (when using the 'planning' tool):**
         *   You are a task planner. You will be given the task, its complexity, user info, and history. Plan the AI Agents required.
+        *   Stay within the \\\`budget\\\` returned by 'classify'. Plans with more agents or more researchers than it allows are rejected.
         *   Balance Efficiency/Parallelization:
             *   Trivial tasks (basic math, yes/no): ONE agent.
             *   Parallelizable subtasks: MULTIPLE agents in parallel.
@@ -78,6 +143,7 @@ export async function POST(req: Request) {
             *   "qa": Answer questions based *only* on provided context (NO synthesis/summarization).
             *   "contextualizer": Search user files/docs
             *   "analyst": Analyze data, provide insights using mermaid.js diagrams 
+            *   "dataAnalyst": Compute figures (filters, totals, averages, counts, breakdowns per category) from the user's uploaded CSV/XLSX/ODS spreadsheets. Use it instead of 'contextualizer' for numbers from spreadsheets; an 'analyst' depending on it charts its result table directly.
         *   Parallelization Rules:
             *   Same 'order' number = parallel execution.
             *   Break down large research/analysis.
@@ -113,71 +179,215 @@ export async function POST(req: Request) {
             *   Bad Analysis: "Chart user growth, retention, engagement"
             *   Good Analyses: "mermaid.js line chart: monthly user growth 2023", "mermaid.js bar chart: retention by segment", "mermaid.js heatmap: engagement by time of day"
             *   MUST have "query" field explicitly including "mermaid.js", diagram type, single metric/relationship, data needs.
+            *   Charts of numbers MUST depend on the agents that gather the numbers. The data is extracted from their outputs as a dataset and xychart/pie/sankey/gantt charts are built from it directly.
             *   Dependencies Format:
             *   List of INTEGER order numbers (e.g., [1, 2], NOT ["1", "2"]).
             *   Empty list [] for no dependencies.
-            *   Agents processing data MUST list ALL order numbers they depend on.
+            *   Dependencies MUST be lower order numbers than the agent's own order.
+            *   Agents processing data MUST list ALL order numbers they depend on. Only outputs of listed orders are passed to the agent.
             *   Consider History:** Avoid redundant actions if info already available.
 
-    **RESEARCH GUIDELINES (when using the 'research' tool):**
-    *   Gather *all* queries specified for 'researcher' agents in the plan.
-    *   Pass these queries as a single array to the 'research' tool's 'queries' parameter.
-    *   The 'research' tool will execute these searches and return the results.
-
-    **ANALYSIS GUIDELINES (when using the 'analyst' tool):**
-    *   Identify all agents with type 'analyst' in the plan.
-    *   For each 'analyst' agent, take its specific 'query' value.
-    *   Call the 'analyst' tool with that single query.
-    *   Expect the tool to return Mermaid code or an error.
-
-    **CONTEXTUALIZER GUIDELINES (when using the 'contextualizer' tool):**
-    *   Identify all agents with type 'contextualizer' in the plan.
-    *   For each 'contextualizer' agent, take its specific 'query' value.
-    *   Call the 'contextualizer' tool with that single query. It will search the provided file context.
-    *   Expect the tool to return relevant snippets or an error.
+    **FOLLOW-UP TOOL GUIDELINES (only for agents that failed during plan execution):**
+    *   'research': pass the failed researcher queries as a single array to the 'queries' parameter.
+    *   'analyst': call once per failed analyst agent with its 'query' value. Expect Mermaid code or an error.
+        *   When the chart shows numbers from earlier tool outputs, pass them as 'dataset' (columns and rows copied exactly, with the source) and set 'chartType' for xychart, pie, sankey or gantt. These charts are then built from the data without an LLM. Never type numbers into the 'query' itself.
+    *   'contextualizer': call once per failed contextualizer agent with its 'query' value. Expect relevant snippets or an error.
+    *   'dataAnalysis': call with the file, the sheet and a declarative query (filters, groupBy, aggregations, sort, limit) over the listed columns. If it returns \\\`availableTables\\\`, retry with those names. Pass its \\\`dataset\\\` to 'analyst' for charts.
+    *   'qa': call once per failed qa agent with its 'query' as 'question' and the relevant earlier tool outputs as 'context'. Expect an answer with quotes, or a refusal.
 
 
     **REVISED SYNTHESIS GUIDELINES:**
     *   **Combine Tool Results:** Weave together the relevant findings from research, analysis (including mentioning generated diagrams), contextualizer, and QA tools into a coherent narrative.
     *   **Address the Query:** Ensure the final output directly answers the user's original question or fulfills their request.
-    *   **Formatting & Citations:** Use clear formatting (like Markdown). Cite sources from research if appropriate.
+    *   **Formatting & Citations:** Use clear formatting (like Markdown). Cite sources from research if appropriate; when quoting a web source, copy one of the verbatim \\\`quotes\\\` of its research result rather than paraphrasing the summary. Prefer sources with a high \\\`credibility\\\` and say so when a claim rests only on low-credibility sources. Cite the user's files with the page, slide or section given with each snippet (e.g. "report.pdf, page 12").
+    *   **Grounding:** After your final answer, every factual sentence is checked against the tool outputs of this turn and unsupported sentences are flagged to the user. Only state facts the tools returned, or say clearly when something is not verified.
 
     **FINAL INSTRUCTIONS:**
     **DO NOT SKIP PHASES. DO NOT CHANGE THE ORDER (1 -> 2 -> 3 -> 4 -> 5).**
     **Phase 4 (\`council\`) MUST run before Phase 5 (\`finding final answer\`).**
+    **The server enforces this order: each step only exposes the tools of the current phase, and out-of-order tool calls return an error instead of running.**
   `;
 
-  // Prepend the system prompt as a system message at the beginning
-  const messages: CoreMessage[] = [
-    { role: 'system', content: systemPrompt } as CoreMessage,
-    ...processedMessages
-  ];
+  // Tool results of the assistant message being continued (e.g. after a client-side tool result resubmit)
+  const lastMessage = originalMessages[originalMessages.length - 1];
+  const previousToolResults: ToolResultLike[] = lastMessage?.role === 'assistant'
+    ? (lastMessage.toolInvocations ?? []).flatMap(invocation => invocation.state === 'result' ? [{ toolName: invocation.toolName, result: invocation.result }] : [])
+    : [];
+
+  // Steps the turn already took: the client numbers the steps of the continued assistant message from 0
+  const previousSteps = lastMessage?.role === 'assistant' && lastMessage.toolInvocations?.length
+    ? Math.max(...lastMessage.toolInvocations.map(invocation => invocation.step ?? 0)) + 1
+    : 0;
+
+  // Budget of the turn: the most generous one until 'classify' sets it from the complexity
+  const budgetState = createBudgetState(previousToolResults, previousSteps);
+  // Pages found by the research of this turn, rated under the user's team policy; later queries and researcher agents
+  // only report new ones, and the council weighs claims by the credibility of these sources
+  const researchRun = createResearchRun(previousToolResults, getCredibilityPolicy(namespace));
+  const runnerOptions = () => ({ analystAttempts: budgetState.budget.analystAttempts, researchRun });
 
   // Prepare the tools
   const runtimeTools = {
-    // Tool for classification
-    classify: classificationTool,
+    // Tool for classification; its complexity selects the execution budget
+    classify: tool({
+      description: classificationTool.description,
+      parameters: classificationTool.parameters,
+      execute: async (args) => {
+        const result = await executeClassification(args);
+        if (!result.success) return result;
+        applyClassification(budgetState, result.classification.complexity);
+        return { ...result, budget: budgetState.budget };
+      },
+    }),
 
     // Include all tools from definitions.ts (research, analyst, planning, council, etc.)
     ...chatTools,
 
-    // Override contextualizer tool inline to inject localContext
+    // Override research tool inline to cap the number of queries at the budget
+    research: tool({
+      description: researchToolDefinition.description,
+      parameters: researchToolDefinition.parameters,
+      execute: async (args) => {
+        const { allowed, skipped } = reserveResearchQueries(budgetState, args.queries);
+        const results = allowed.length > 0 ? await executeResearch({ ...args, queries: allowed }, researchRun) : [];
+        return [
+          ...results,
+          ...skipped.map(query => ({ query, results: [], error: `${BUDGET_SKIPPED_ERROR} (${budgetState.budget.maxResearcherQueries}) is used up.` })),
+        ];
+      },
+    }),
+
+    // Override deep research tool inline to apply the user's depth and query budget and the execution budget
+    deepResearch: tool({
+      description: deepResearchToolDefinition.description,
+      parameters: deepResearchToolDefinition.parameters,
+      execute: async (args) => deepResearch
+        ? executeDeepResearch(args, deepResearch, researchRun, budgetState)
+        : { error: 'Deep research is not enabled for this request. Use the research tool or a plan instead.' },
+    }),
+
+    // Override analyst tool inline to limit its generate-evaluate attempts
+    analyst: tool({
+      description: analystToolDefinition.description,
+      parameters: analystToolDefinition.parameters,
+      execute: async (args) => executeAnalyst(args, budgetState.budget.analystAttempts),
+    }),
+
+    // Override contextualizer tool inline to inject the user's document source
     contextualizer: tool({
       description: contextualizerToolDefinition.description,
       parameters: contextualizerToolDefinition.parameters,
-      execute: async (args) => executeContextualizer(args, localContext || {}),
+      execute: async (args) => executeContextualizer(args, documentSource),
+    }),
+
+    // Override data analysis tool inline to inject the user's document source
+    dataAnalysis: tool({
+      description: dataAnalysisToolDefinition.description,
+      parameters: dataAnalysisToolDefinition.parameters,
+      execute: async (args) => executeDataAnalysis(args, documentSource),
+    }),
+
+    // Override QA tool inline to inject the user's document source
+    qa: tool({
+      description: qaToolDefinition.description,
+      parameters: qaToolDefinition.parameters,
+      execute: async (args) => executeQa(args, documentSource),
+    }),
+
+    // Override planning tool inline so the generated plan is executed server-side
+    planning: tool({
+      description: planningToolDefinition.description,
+      parameters: planningToolDefinition.parameters,
+      execute: async (plan) => {
+        // Plans over budget are rejected like invalid plans, so the model plans again
+        const budgetError = checkPlanBudget(budgetState, plan);
+        if (budgetError) {
+          return { ...plan, execution: { stages: [], agents: [], warnings: [], error: `Plan exceeds the execution budget: ${budgetError}` } };
+        }
+        const execution = await executePlan(plan, createAgentRunners(documentSource, runnerOptions()));
+        if (!execution.error) consumePlanBudget(budgetState, plan);
+        return { ...plan, execution };
+      },
+    }),
+
+    // Override council tool inline so rejections trigger follow-up work and a re-evaluation
+    council: tool({
+      description: councilToolDefinition.description,
+      parameters: councilToolDefinition.parameters,
+      execute: async (args) => executeCouncilWithRemediation(args, documentSource, budgetState, runnerOptions()),
     }),
 
   };
 
-  // Use the messages array with the prepended system prompt instead of separate system parameter
-  const result = streamText({
-    model: orchestratorLlm,
-    messages,
-    toolCallStreaming: true,
-    maxSteps: 20,
-    tools: runtimeTools,
-  });
+  // The phase of the turn is rebuilt from those results; the guards reject tool calls outside the current phase
+  const phaseState = resumePhaseState(previousToolResults, deepResearch !== undefined);
+  const guardedTools = withPhaseGuards(runtimeTools, phaseState);
+
+  // Prepend the system prompt as a system message at the beginning
+  const messages: CoreMessage[] = [
+    { role: 'system', content: systemPrompt },
+    ...convertToCoreMessages(processedMessages, { tools: guardedTools }),
+  ];
+
+  return createDataStreamResponse({
+    execute: async (dataStream) => {
+      // One streamText call per step, so the tools exposed to the model follow the phase state machine
+      const toolResults: ToolResultLike[] = [...previousToolResults];
+      let stepMessages = messages;
+      let finalText = '';
+      let finishReason: FinishReason = 'unknown';
+      const usage = { promptTokens: 0, completionTokens: 0 };
+
+      // The step limit is re-read every step because 'classify' replaces the budget. Steps of earlier requests
+      // of the turn count against it, since the client resubmits after every completed tool step.
+      for (let step = budgetState.stepsUsed; step < budgetState.budget.maxSteps; step++) {
+        budgetState.stepsUsed = step + 1;
+        phaseState.step = step;
+        const activeTools = getActiveTools(phaseState, budgetState.budget.maxSteps - step) as Array<keyof typeof guardedTools> | undefined;
+        const result = streamText({
+          model: orchestratorLlm,
+          messages: stepMessages,
+          toolCallStreaming: true,
+          tools: guardedTools,
+          experimental_activeTools: activeTools,
+          toolChoice: getToolChoice(phaseState),
+        });
+
+        // The finish event is sent once after the last step
+        result.mergeIntoDataStream(dataStream, { experimental_sendFinish: false });
+
+        const [response, stepToolCalls, stepToolResults, text, stepFinishReason, stepUsage] = await Promise.all([
+          result.response, result.toolCalls, result.toolResults, result.text, result.finishReason, result.usage,
+        ]);
+        stepMessages = [...stepMessages, ...response.messages];
+        toolResults.push(...stepToolResults.map(toolResult => ({ toolName: toolResult.toolName, result: toolResult.result })));
+        finishReason = stepFinishReason;
+        usage.promptTokens += stepUsage.promptTokens;
+        usage.completionTokens += stepUsage.completionTokens;
 
-  return result.toDataStreamResponse();
+        if (stepFinishReason !== 'tool-calls') {
+          finalText = text;
+          recordAnswer(phaseState);
+          break;
+        }
+        // A client-side tool (e.g. askAdditionalInfo) waits for the user; the turn resumes with its result
+        if (stepToolResults.length < stepToolCalls.length) break;
+      }
+
+      dataStream.writeMessageAnnotation(toPhaseAnnotation(phaseState) as unknown as JSONValue);
+      dataStream.write(formatDataStreamPart('finish_message', { finishReason, usage }));
+
+      // Verification pass after Phase 5: map the claims of the final answer to the evidence the tools returned.
+      // The result is attached to the assistant message as a message annotation.
+      if (finalText.trim() === '') return; // The response ended with a tool call (e.g. waiting for user input)
+
+      const evidence = await collectEvidence(namespace, toolResults);
+      const grounding = await checkGrounding(finalText, evidence);
+      dataStream.writeMessageAnnotation(grounding as unknown as JSONValue); // Plain JSON data, serialized as-is
+    },
+    onError: (error) => {
+      console.error('Error in chat stream:', error);
+      return error instanceof Error ? error.message : String(error);
+    },
+  });
 }
\ No newline at end of file
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getConversation,
+  saveConversationMessages,
+  renameConversation,
+  deleteConversation,
+  isValidConversationId,
+} from '@/app/utils/conversationStore';
+import { resolveNamespace, USER_ID_HEADER } from '@/app/utils/userNamespace';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const missingNamespaceResponse = () => NextResponse.json(
+  { error: `Missing or invalid ${USER_ID_HEADER} header` },
+  { status: 400 }
+);
+
+const notFoundResponse = () => NextResponse.json(
+  { error: 'Conversation not found' },
+  { status: 404 }
+);
+
+// Get a conversation including its messages
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const namespace = resolveNamespace(request);
+  if (!namespace) return missingNamespaceResponse();
+
+  try {
+    const { id } = await params;
+    const conversation = await getConversation(namespace, id);
+    if (!conversation) return notFoundResponse();
+    return NextResponse.json({ conversation });
+  } catch (error) {
+    console.error('Error reading conversation:', error);
+    return NextResponse.json(
+      { error: 'Failed to read conversation' },
+      { status: 500 }
+    );
+  }
+}
+
+// Create or replace the messages of a conversation
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const namespace = resolveNamespace(request);
+  if (!namespace) return missingNamespaceResponse();
+
+  try {
+    const { id } = await params;
+    const { messages } = await request.json();
+
+    if (!isValidConversationId(id)) {
+      return NextResponse.json(
+        { error: 'Invalid conversation id' },
+        { status: 400 }
+      );
+    }
+    if (!Array.isArray(messages)) {
+      return NextResponse.json(
+        { error: 'messages must be an array' },
+        { status: 400 }
+      );
+    }
+
+    const conversation = await saveConversationMessages(namespace, id, messages);
+    return NextResponse.json({ conversation });
+  } catch (error) {
+    console.error('Error saving conversation:', error);
+    return NextResponse.json(
+      { error: 'Failed to save conversation' },
+      { status: 500 }
+    );
+  }
+}
+
+// Rename a conversation
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const namespace = resolveNamespace(request);
+  if (!namespace) return missingNamespaceResponse();
+
+  try {
+    const { id } = await params;
+    const { title } = await request.json();
+
+    if (typeof title !== 'string' || title.trim() === '') {
+      return NextResponse.json(
+        { error: 'title must be a non-empty string' },
+        { status: 400 }
+      );
+    }
+
+    const conversation = await renameConversation(namespace, id, title.trim());
+    if (!conversation) return notFoundResponse();
+    return NextResponse.json({ conversation });
+  } catch (error) {
+    console.error('Error renaming conversation:', error);
+    return NextResponse.json(
+      { error: 'Failed to rename conversation' },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete a conversation
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const namespace = resolveNamespace(request);
+  if (!namespace) return missingNamespaceResponse();
+
+  try {
+    const { id } = await params;
+    const deleted = await deleteConversation(namespace, id);
+    if (!deleted) return notFoundResponse();
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting conversation:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete conversation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listConversations } from '@/app/utils/conversationStore';
+import { resolveNamespace, USER_ID_HEADER } from '@/app/utils/userNamespace';
+
+// List conversation metadata for the user
+export async function GET(request: NextRequest) {
+  const namespace = resolveNamespace(request);
+  if (!namespace) {
+    return NextResponse.json(
+      { error: `Missing or invalid ${USER_ID_HEADER} header` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const conversations = await listConversations(namespace);
+    return NextResponse.json({ conversations });
+  } catch (error) {
+    console.error('Error listing conversations:', error);
+    return NextResponse.json(
+      { error: 'Failed to list conversations' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDocument, updateDocument, deleteDocument } from '@/app/utils/documentStore';
+import { resolveNamespace, USER_ID_HEADER } from '@/app/utils/userNamespace';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const missingNamespaceResponse = () => NextResponse.json(
+  { error: `Missing or invalid ${USER_ID_HEADER} header` },
+  { status: 400 }
+);
+
+const notFoundResponse = () => NextResponse.json(
+  { error: 'Document not found' },
+  { status: 404 }
+);
+
+// Get a single document including its text
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const namespace = resolveNamespace(request);
+  if (!namespace) return missingNamespaceResponse();
+
+  try {
+    const { id } = await params;
+    const document = await getDocument(namespace, id);
+    if (!document) return notFoundResponse();
+    return NextResponse.json({ document });
+  } catch (error) {
+    console.error('Error reading document:', error);
+    return NextResponse.json(
+      { error: 'Failed to read document' },
+      { status: 500 }
+    );
+  }
+}
+
+// Rename a document (all of its versions) or store new text as its next version
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const namespace = resolveNamespace(request);
+  if (!namespace) return missingNamespaceResponse();
+
+  try {
+    const { id } = await params;
+    const { fileName, text } = await request.json();
+
+    if ((fileName !== undefined && (typeof fileName !== 'string' || fileName === '')) ||
+        (text !== undefined && typeof text !== 'string')) {
+      return NextResponse.json(
+        { error: 'fileName must be a non-empty string and text must be a string' },
+        { status: 400 }
+      );
+    }
+
+    const result = await updateDocument(namespace, id, { fileName, text });
+    if (!result) return notFoundResponse();
+    if ('error' in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error updating document:', error);
+    return NextResponse.json(
+      { error: 'Failed to update document' },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete a document version, or every version with ?versions=all
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const namespace = resolveNamespace(request);
+  if (!namespace) return missingNamespaceResponse();
+
+  try {
+    const { id } = await params;
+    const allVersions = request.nextUrl.searchParams.get('versions') === 'all';
+    const deleted = await deleteDocument(namespace, id, allVersions);
+    if (!deleted) return notFoundResponse();
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting document:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete document' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listDocumentVersions } from '@/app/utils/documentStore';
+import { resolveNamespace, USER_ID_HEADER } from '@/app/utils/userNamespace';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// List every version of the document a version belongs to, newest first
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const namespace = resolveNamespace(request);
+  if (!namespace) {
+    return NextResponse.json(
+      { error: `Missing or invalid ${USER_ID_HEADER} header` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const versions = await listDocumentVersions(namespace, id);
+    if (!versions) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ versions });
+  } catch (error) {
+    console.error('Error listing document versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to list document versions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listDocuments, createDocument, clearDocuments } from '@/app/utils/documentStore';
+import { resolveNamespace, USER_ID_HEADER } from '@/app/utils/userNamespace';
+import type { DocumentTable, TableColumn } from '@/app/utils/spreadsheet';
+import { isDocumentStructure } from '@/app/utils/documentStructure';
+import type { OcrPage } from '@/app/utils/ocr';
+
+// Shape check of the tables sent along with spreadsheet uploads (see app/utils/spreadsheet.ts)
+const isTableList = (value: unknown): value is DocumentTable[] =>
+  Array.isArray(value) && value.every(table =>
+    typeof table?.name === 'string' &&
+    Array.isArray(table.columns) &&
+    table.columns.every((column: unknown) => typeof (column as TableColumn)?.name === 'string' && typeof (column as TableColumn)?.type === 'string') &&
+    Array.isArray(table.rows) &&
+    table.rows.every((row: unknown) => Array.isArray(row)));
+
+const isOcrPageList = (value: unknown): value is OcrPage[] =>
+  Array.isArray(value) && value.every(page => Number.isInteger(page?.page) && typeof page.confidence === 'number');
+
+const missingNamespaceResponse = () => NextResponse.json(
+  { error: `Missing or invalid ${USER_ID_HEADER} header` },
+  { status: 400 }
+);
+
+// List document metadata for the user
+export async function GET(request: NextRequest) {
+  const namespace = resolveNamespace(request);
+  if (!namespace) return missingNamespaceResponse();
+
+  try {
+    const documents = await listDocuments(namespace);
+    return NextResponse.json({ documents });
+  } catch (error) {
+    console.error('Error listing documents:', error);
+    return NextResponse.json(
+      { error: 'Failed to list documents' },
+      { status: 500 }
+    );
+  }
+}
+
+// Store a newly extracted document; content that is already stored is answered with the existing document (200)
+export async function POST(request: NextRequest) {
+  const namespace = resolveNamespace(request);
+  if (!namespace) return missingNamespaceResponse();
+
+  try {
+    const { fileName, fileType, fileSize, text, tables, structure, ocrPages } = await request.json();
+
+    if (typeof fileName !== 'string' || fileName === '' || typeof text !== 'string') {
+      return NextResponse.json(
+        { error: 'fileName and text are required' },
+        { status: 400 }
+      );
+    }
+    if (tables !== undefined && !isTableList(tables)) {
+      return NextResponse.json(
+        { error: 'tables must be a list of { name, columns, rows }' },
+        { status: 400 }
+      );
+    }
+    if (structure !== undefined && !isDocumentStructure(structure, text.length)) {
+      return NextResponse.json(
+        { error: 'structure must be { format, sections } with sections inside the text' },
+        { status: 400 }
+      );
+    }
+    if (ocrPages !== undefined && !isOcrPageList(ocrPages)) {
+      return NextResponse.json(
+        { error: 'ocrPages must be a list of { page, confidence }' },
+        { status: 400 }
+      );
+    }
+
+    const { document, duplicate } = await createDocument(namespace, {
+      fileName,
+      fileType: typeof fileType === 'string' ? fileType : '',
+      fileSize: typeof fileSize === 'number' ? fileSize : text.length,
+      text,
+      tables,
+      structure,
+      ocrPages,
+    });
+    return NextResponse.json({ document, duplicate }, { status: duplicate ? 200 : 201 });
+  } catch (error) {
+    console.error('Error creating document:', error);
+    return NextResponse.json(
+      { error: 'Failed to store document' },
+      { status: 500 }
+    );
+  }
+}
+
+// Delete all of the user's documents
+export async function DELETE(request: NextRequest) {
+  const namespace = resolveNamespace(request);
+  if (!namespace) return missingNamespaceResponse();
+
+  try {
+    await clearDocuments(namespace);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error clearing documents:', error);
+    return NextResponse.json(
+      { error: 'Failed to clear documents' },
+      { status: 500 }
+    );
+  }
+}
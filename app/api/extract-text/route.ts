@@ -1,31 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server';
-import * as officeParser from 'officeparser';
+import { readUpload } from '@/app/utils/fileValidation';
+import { extractDocument } from '@/app/utils/extractors';
 
+// Extract an upload synchronously; the extraction jobs API (/api/extraction-jobs) does the same in the background
 export async function POST(request: NextRequest) {
   try {
-    const formData = await request.formData();
-    const file = formData.get('file') as File;
-    
-    if (!file) {
+    const upload = await readUpload(request);
+    if ('error' in upload) {
       return NextResponse.json(
-        { error: 'No file provided' },
-        { status: 400 }
+        { error: upload.error },
+        { status: upload.status }
       );
     }
+    const { file, buffer, detected } = upload;
 
-    // Get file buffer
-    const bytes = await file.arrayBuffer();
-    const buffer = Buffer.from(bytes);
-    
-    // Extract text using officeparser with the correct API
-    const text = await officeParser.parseOfficeAsync(buffer);
-    
-    return NextResponse.json({ 
-      success: true, 
+    // Plain text for retrieval, plus the pages/slides/chapters/headings it is made of, any tables,
+    // and the confidence of pages that were read by OCR (images, scanned PDF pages)
+    const { text, structure, tables, ocrPages } = await extractDocument(buffer, file.name, detected);
+
+    return NextResponse.json({
+      success: true,
       fileName: file.name,
       fileType: file.type,
       fileSize: file.size,
-      text 
+      text,
+      structure,
+      tables,
+      ocrPages,
     });
   } catch (error) {
     console.error('Error extracting text:', error);
@@ -34,4 +35,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getExtractionJob,
+  cancelExtractionJob,
+  subscribeToExtractionJob,
+  isFinished,
+  type ExtractionJob,
+} from '@/app/utils/extractionJobs';
+import { resolveNamespace, USER_ID_HEADER } from '@/app/utils/userNamespace';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const missingNamespaceResponse = () => NextResponse.json(
+  { error: `Missing or invalid ${USER_ID_HEADER} header` },
+  { status: 400 }
+);
+
+const notFoundResponse = () => NextResponse.json(
+  { error: 'Extraction job not found' },
+  { status: 404 }
+);
+
+// Send the job as a server-sent event on every change, and close the stream once it has finished
+const streamJob = (namespace: string, job: ExtractionJob, signal: AbortSignal): Response => {
+  const encoder = new TextEncoder();
+  let unsubscribe = () => {};
+  let close = () => {};
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      // Closes once, whether the job finished or the client went away first
+      close = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        controller.close();
+      };
+      const send = (current: ExtractionJob) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: job\ndata: ${JSON.stringify(current)}\n\n`));
+        if (isFinished(current)) close();
+      };
+      unsubscribe = subscribeToExtractionJob(namespace, job.id, send);
+      send(job);
+      // The client went away
+      signal.addEventListener('abort', close);
+    },
+    cancel() {
+      // Cancelled before the abort fired: closing the controller now would throw
+      closed = true;
+      signal.removeEventListener('abort', close);
+      unsubscribe();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+};
+
+// Get a job's status; with `Accept: text/event-stream` (or ?stream=1) its progress is streamed until it finishes
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const namespace = resolveNamespace(request);
+  if (!namespace) return missingNamespaceResponse();
+
+  const { id } = await params;
+  const job = getExtractionJob(namespace, id);
+  if (!job) return notFoundResponse();
+
+  const wantsStream = request.headers.get('accept')?.includes('text/event-stream') ||
+    request.nextUrl.searchParams.get('stream') === '1';
+  if (wantsStream) return streamJob(namespace, job, request.signal);
+  return NextResponse.json({ job });
+}
+
+// Cancel a queued or running job
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const namespace = resolveNamespace(request);
+  if (!namespace) return missingNamespaceResponse();
+
+  const { id } = await params;
+  const job = cancelExtractionJob(namespace, id);
+  if (!job) return notFoundResponse();
+  return NextResponse.json({ job });
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readUpload } from '@/app/utils/fileValidation';
+import { submitExtractionJob, listExtractionJobs } from '@/app/utils/extractionJobs';
+import { resolveNamespace, USER_ID_HEADER } from '@/app/utils/userNamespace';
+
+const missingNamespaceResponse = () => NextResponse.json(
+  { error: `Missing or invalid ${USER_ID_HEADER} header` },
+  { status: 400 }
+);
+
+// List the user's extraction jobs, newest first
+export async function GET(request: NextRequest) {
+  const namespace = resolveNamespace(request);
+  if (!namespace) return missingNamespaceResponse();
+
+  return NextResponse.json({ jobs: listExtractionJobs(namespace) });
+}
+
+// Upload a file and queue its extraction; poll or stream /api/extraction-jobs/{id} for progress
+export async function POST(request: NextRequest) {
+  const namespace = resolveNamespace(request);
+  if (!namespace) return missingNamespaceResponse();
+
+  try {
+    const upload = await readUpload(request);
+    if ('error' in upload) {
+      return NextResponse.json(
+        { error: upload.error },
+        { status: upload.status }
+      );
+    }
+    const { file, buffer, detected } = upload;
+
+    const job = submitExtractionJob(namespace, {
+      fileName: file.name,
+      fileType: file.type,
+      fileSize: file.size,
+      buffer,
+      detected,
+    });
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (error) {
+    console.error('Error submitting extraction job:', error);
+    return NextResponse.json(
+      { error: 'Failed to submit extraction job' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,67 +1,86 @@
 'use client';
 
-import React from 'react';
-import { useChat, Message } from '@ai-sdk/react';
-import MessageList from '@/app/components/MessageList';
-import ChatInput from '@/app/components/ChatInput';
-import { getExtractedTexts } from '../utils/fileStorage';
+import React, { useCallback, useEffect, useState } from 'react';
+import { Message } from '@ai-sdk/react';
+import ChatSession from '@/app/components/ChatSession';
+import ConversationSidebar from '@/app/components/ConversationSidebar';
+import { getUserId } from '../utils/userId';
+import {
+  getConversations,
+  getConversation,
+  renameConversation,
+  deleteConversation,
+  type ConversationSummary,
+} from '../utils/conversationStorage';
 
-export default function ChatPage() {
-  const { messages, input, handleInputChange, status, addToolResult, append, setInput } = useChat({
-    api: '/api/chat',
-    maxSteps: 20,
-    async onToolCall({ toolCall }) {
-      if (toolCall.toolName === 'getLocation') {
-        await new Promise(resolve => setTimeout(resolve, 500)); 
-        const cities = [
-          'New York',
-          'Los Angeles',
-          'Chicago',
-          'San Francisco',
-        ];
-        return cities[Math.floor(Math.random() * cities.length)];
-      }
-    },
-  });
+// The conversation shown in the chat area; new conversations are only persisted after their first response
+type ActiveConversation = {
+  id: string;
+  messages: Message[];
+};
+
+const newConversation = (): ActiveConversation => ({ id: crypto.randomUUID(), messages: [] });
 
-  const handleFormSubmit = (e: React.FormEvent<HTMLFormElement>) => {
-    e.preventDefault();
-    if (!input || status === 'submitted') return;
+export default function ChatPage() {
+  // The user id lives in localStorage, so it is only available after mount
+  const [userId, setUserId] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [activeConversation, setActiveConversation] = useState<ActiveConversation | null>(null);
 
-    const currentContext = typeof window !== 'undefined' ? getExtractedTexts() : {};
+  const refreshConversations = useCallback(async () => {
+    setConversations(await getConversations());
+  }, []);
 
-    // Add a reminder for deep reasoning as a hidden part of the message
-    const enhancedContent = `${input}\n\n[Remember to engage in deep reasoning and thinking, and follow the detailed execution process steps as outlined in your instructions.]`;
+  useEffect(() => {
+    setUserId(getUserId());
+    setActiveConversation(newConversation());
+    refreshConversations();
+  }, [refreshConversations]);
 
-    const messageToSend: Message = {
-      id: crypto.randomUUID(),
-      role: 'user', 
-      content: input, // Show original input to the user
-    };
+  const handleSelectConversation = async (id: string) => {
+    const conversation = await getConversation(id);
+    if (conversation) {
+      setActiveConversation({ id: conversation.id, messages: conversation.messages });
+    }
+  };
 
-    append(messageToSend, {
-      body: {
-        localContext: currentContext,
-        // Override the content only in the API call
-        overrideUserMessage: enhancedContent
-      }
-    });
+  const handleNewConversation = () => {
+    setActiveConversation(newConversation());
+  };
 
-    setInput(''); 
+  const handleRenameConversation = async (id: string, title: string) => {
+    await renameConversation(id, title);
+    await refreshConversations();
   };
 
-  // Calculate isLoading based on status
-  const isLoading = status === 'submitted' || status === 'streaming';
+  const handleDeleteConversation = async (id: string) => {
+    await deleteConversation(id);
+    if (activeConversation?.id === id) {
+      setActiveConversation(newConversation());
+    }
+    await refreshConversations();
+  };
 
   return (
-    <div className="flex flex-col h-screen bg-gray-100">
-      <MessageList messages={messages} addToolResult={addToolResult} isLoading={isLoading} />
-      <ChatInput 
-        input={input} 
-        handleInputChange={handleInputChange} 
-        handleSubmit={handleFormSubmit} 
-        isLoading={isLoading}
+    <div className="flex h-screen bg-gray-100">
+      <ConversationSidebar
+        conversations={conversations}
+        activeConversationId={activeConversation?.id ?? ''}
+        onSelect={handleSelectConversation}
+        onNew={handleNewConversation}
+        onRename={handleRenameConversation}
+        onDelete={handleDeleteConversation}
       />
+      {userId && activeConversation && (
+        // Keyed by conversation id so switching conversations resets the chat state
+        <ChatSession
+          key={activeConversation.id}
+          conversationId={activeConversation.id}
+          userId={userId}
+          initialMessages={activeConversation.messages}
+          onConversationSaved={refreshConversations}
+        />
+      )}
     </div>
   );
 }
@@ -1,40 +1,91 @@
 'use client';
 import React, { useState, ChangeEvent, useRef, useEffect } from 'react';
-import { getExtractedTexts, saveExtractedText, removeExtractedText } from '../utils/fileStorage';
+import {
+  getExtractedTexts,
+  getExtractedText,
+  removeExtractedText,
+  submitExtractionJob,
+  watchExtractionJob,
+  cancelExtractionJob,
+  type ExtractedFile,
+  type DocumentSummary,
+  type ExtractionJob,
+} from '../utils/fileStorage';
+import DocumentVersionView from './DocumentVersionView';
+import {
+  RESEARCH_DEPTHS,
+  queryBudgetsFor,
+  researchDepths,
+  type DeepResearchSettings,
+  type ResearchDepth,
+} from '../data/research_depths';
 // Import the modal component (we'll create this next)
 // import AddFilesModal from './AddFilesModal';
 
-interface ExtractedFile {
+// A file being uploaded and extracted; the job is set once the server has accepted the upload
+interface FileUpload {
+  key: string;
   fileName: string;
-  fileType: string;
-  fileSize: number;
-  text: string;
-  extractedAt: number;
+  job?: ExtractionJob;
+  error?: string; // Upload rejected (size, type) or the job could not be followed
 }
 
+const isUploadFinished = ({ job, error }: FileUpload): boolean =>
+  error !== undefined || job?.status === 'completed' || job?.status === 'failed' || job?.status === 'cancelled';
+
+const describeUpload = ({ job, error }: FileUpload): string => {
+  if (error) return error;
+  if (!job) return 'Uploading...';
+  switch (job.status) {
+    case 'queued': return 'Waiting...';
+    case 'completed': return job.duplicate ? 'Already uploaded' : 'Done';
+    case 'cancelled': return 'Cancelled';
+    case 'failed': return job.error ?? 'Failed';
+  }
+  switch (job.progress?.stage) {
+    case 'ocr': return `Running OCR (page ${Math.min(job.progress.completed + 1, job.progress.total)} of ${job.progress.total})...`;
+    case 'storing': return 'Indexing...';
+    default: return 'Extracting text...';
+  }
+};
+
 interface ChatInputProps {
   input: string;
   handleInputChange: (e: React.ChangeEvent<HTMLTextAreaElement>) => void;
   handleSubmit: (e: React.FormEvent<HTMLFormElement>) => void;
   isLoading?: boolean;
+  deepResearch?: DeepResearchSettings; // Undefined while deep research is off
+  onDeepResearchChange: (settings: DeepResearchSettings | undefined) => void;
 }
 
+// Budget preselected when deep research is switched on
+const DEFAULT_QUERY_BUDGET = 12;
+
+// The budget kept when the depth changes, lowered to the largest one the depth can spend
+const fitQueryBudget = (depth: ResearchDepth, budget: number): number => {
+  const budgets = queryBudgetsFor(depth);
+  return budgets.includes(budget) ? budget : budgets.filter(option => option <= budget).pop() ?? budgets[0];
+};
+
 const ChatInput: React.FC<ChatInputProps> = ({ 
   input, 
   handleInputChange, 
   handleSubmit,
-  isLoading = false
+  isLoading = false,
+  deepResearch,
+  onDeepResearchChange,
 }) => {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [extractedTexts, setExtractedTexts] = useState<Record<string, ExtractedFile>>({});
-  const [isFileLoading, setIsFileLoading] = useState(false);
+  // Document metadata keyed by document ID; text is fetched on demand for the viewer
+  const [extractedTexts, setExtractedTexts] = useState<Record<string, DocumentSummary>>({});
+  const [uploads, setUploads] = useState<FileUpload[]>([]);
   const [viewingFile, setViewingFile] = useState<string | null>(null);
+  const [viewingDocument, setViewingDocument] = useState<ExtractedFile | null>(null);
 
-  // Load files and texts from localStorage on mount
+  // Load stored documents from the server on mount
   useEffect(() => {
-    const savedTexts = getExtractedTexts();
-    setExtractedTexts(savedTexts);
+    getExtractedTexts().then(setExtractedTexts);
   }, []);
 
   useEffect(() => {
@@ -48,6 +99,7 @@ const ChatInput: React.FC<ChatInputProps> = ({
   const closeModal = () => {
     setIsModalOpen(false);
     setViewingFile(null); // Close text viewer when closing modal
+    setViewingDocument(null);
   };
 
   const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
@@ -58,51 +110,73 @@ const ChatInput: React.FC<ChatInputProps> = ({
     }
   };
 
-  const processFiles = async (files: File[]) => {
-    setIsFileLoading(true);
-    for (const file of files) {
-      try {
-        const formData = new FormData();
-        formData.append('file', file);
-        const response = await fetch('/api/extract-text', {
-          method: 'POST',
-          body: formData,
-        });
-        if (!response.ok) {
-          throw new Error(`Failed to extract text: ${response.statusText}`);
-        }
-        const result = await response.json();
-        saveExtractedText(
-          file.name,
-          file.type,
-          file.size,
-          result.text
-        );
-        setExtractedTexts(getExtractedTexts());
-      } catch (error) {
-        console.error(`Error processing file ${file.name}:`, error);
+  const updateUpload = (key: string, changes: Partial<FileUpload>) =>
+    setUploads(current => current.map(upload => upload.key === key ? { ...upload, ...changes } : upload));
+
+  // Upload and extract one file as a background job, following its progress until it finishes
+  const processFile = async (file: File, key: string) => {
+    try {
+      const job = await submitExtractionJob(file);
+      updateUpload(key, { job });
+      const finished = await watchExtractionJob(job.id, update => updateUpload(key, { job: update }));
+      if (finished.status === 'completed') {
+        setExtractedTexts(await getExtractedTexts());
       }
+    } catch (error) {
+      console.error(`Error processing file ${file.name}:`, error);
+      updateUpload(key, { error: error instanceof Error ? error.message : String(error) });
     }
-    setIsFileLoading(false);
   };
 
-  // Handler to set the file to view
-  const handleViewText = (fileName: string) => {
-    setViewingFile(fileName);
+  // All files are uploaded at once; the server extracts a few at a time
+  const processFiles = async (files: File[]) => {
+    const added = files.map(file => ({ key: `${Date.now()}-${Math.random().toString(36).slice(2)}`, fileName: file.name }));
+    setUploads(current => [...current, ...added]);
+    await Promise.all(files.map((file, i) => processFile(file, added[i].key)));
+  };
+
+  const handleCancelUpload = async ({ job }: FileUpload) => {
+    if (job) await cancelExtractionJob(job.id);
+  };
+
+  const clearFinishedUploads = () => setUploads(current => current.filter(upload => !isUploadFinished(upload)));
+
+  const handleDepthChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    const depth = event.target.value;
+    onDeepResearchChange(depth === 'off'
+      ? undefined
+      : { depth: depth as ResearchDepth, maxQueries: fitQueryBudget(depth as ResearchDepth, deepResearch?.maxQueries ?? DEFAULT_QUERY_BUDGET) });
+  };
+
+  const handleBudgetChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    if (deepResearch) onDeepResearchChange({ ...deepResearch, maxQueries: Number(event.target.value) });
+  };
+
+  // Handler to set the file to view and load its text
+  const handleViewText = async (id: string) => {
+    setViewingFile(id);
+    setViewingDocument(null);
+    setViewingDocument(await getExtractedText(id));
+  };
+
+  // Show another version of the viewed file; the viewer stays keyed by the listed (latest) version
+  const handleSelectVersion = async (id: string) => {
+    setViewingDocument(await getExtractedText(id));
   };
 
   // Handler to close the text viewer
   const closeTextViewer = () => {
     setViewingFile(null);
+    setViewingDocument(null);
   };
 
   // Handler to delete a file
-  const handleDeleteFile = (fileName: string) => {
-    removeExtractedText(fileName);
-    setExtractedTexts(getExtractedTexts()); // Update state
+  const handleDeleteFile = async (id: string) => {
+    await removeExtractedText(id, true);
+    setExtractedTexts(await getExtractedTexts()); // Update state
     // If the deleted file was being viewed, close the viewer
-    if (viewingFile === fileName) {
-      setViewingFile(null);
+    if (viewingFile === id) {
+      closeTextViewer();
     }
   };
 
@@ -118,27 +192,53 @@ const ChatInput: React.FC<ChatInputProps> = ({
             rows={3}
             className="box-border w-full p-3 pb-12 border-[1.1px] border-gray-300 rounded-3xl text-lg focus:border-[1.6px] focus:outline-none resize-none overflow-hidden transition-all duration-100 ease-in-out"
           />
-          <button
-            type="button"
-            onClick={openModal}
-            className="absolute bottom-4 left-3 px-3 py-1.5 bg-gray-200 rounded-2xl text-md text-gray-700 font-semibold hover:bg-gray-300 transition-colors duration-200 ease-in-out flex items-center space-x-1.5"
-          >
-            <svg
-              xmlns="http://www.w3.org/2000/svg"
-              fill="none"
-              viewBox="0 0 24 24"
-              strokeWidth={2.5}
-              stroke="currentColor"
-              className="w-4 h-4"
+          <div className="absolute bottom-4 left-3 flex items-center gap-2">
+            <button
+              type="button"
+              onClick={openModal}
+              className="px-3 py-1.5 bg-gray-200 rounded-2xl text-md text-gray-700 font-semibold hover:bg-gray-300 transition-colors duration-200 ease-in-out flex items-center space-x-1.5"
             >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                d="M12 4.5v15m7.5-7.5h-15"
-              />
-            </svg>
-            <span>add local files (for context)</span>
-          </button>
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                fill="none"
+                viewBox="0 0 24 24"
+                strokeWidth={2.5}
+                stroke="currentColor"
+                className="w-4 h-4"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  d="M12 4.5v15m7.5-7.5h-15"
+                />
+              </svg>
+              <span>add local files (for context)</span>
+            </button>
+            {/* Deep research: follow-up search rounds and a research report, at the selected depth and query budget */}
+            <select
+              value={deepResearch?.depth ?? 'off'}
+              onChange={handleDepthChange}
+              className="px-2 py-1.5 bg-gray-200 rounded-2xl text-md text-gray-700 font-semibold hover:bg-gray-300 focus:outline-none"
+              title="Deep research"
+            >
+              <option value="off">Deep research: off</option>
+              {RESEARCH_DEPTHS.map(depth => (
+                <option key={depth} value={depth}>Deep research: {researchDepths[depth].label}</option>
+              ))}
+            </select>
+            {deepResearch && (
+              <select
+                value={deepResearch.maxQueries}
+                onChange={handleBudgetChange}
+                className="px-2 py-1.5 bg-gray-200 rounded-2xl text-md text-gray-700 font-semibold hover:bg-gray-300 focus:outline-none"
+                title="Search queries the deep research may run"
+              >
+                {queryBudgetsFor(deepResearch.depth).map(budget => (
+                  <option key={budget} value={budget}>{budget} queries</option>
+                ))}
+              </select>
+            )}
+          </div>
           {/* Submit Button */}
           <button
             type="submit"
@@ -203,16 +303,46 @@ const ChatInput: React.FC<ChatInputProps> = ({
                 <input
                   type="file"
                   multiple
-                  accept=".pdf,.docx,.md,.txt"
+                  accept=".pdf,.png,.jpg,.jpeg,.webp,.bmp,.tif,.tiff,.docx,.pptx,.odt,.odp,.epub,.rtf,.html,.htm,.md,.txt,.json,.yaml,.yml,.csv,.tsv,.xlsx,.xls,.ods,.ts,.tsx,.js,.jsx,.py,.java,.go,.rs,.c,.cpp,.cs,.rb,.php,.sql,.sh"
                   onChange={handleFileChange}
                   className="hidden"
                 />
             </label>
 
-            {isFileLoading && (
-              <div className="flex items-center justify-center my-4">
-                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-gray-900"></div>
-                <span className="ml-2 text-gray-700">Extracting text...</span>
+            {uploads.length > 0 && (
+              <div className="my-4 p-3 border border-[#E5E7EB] rounded-lg bg-gray-50">
+                <div className="flex justify-between items-center mb-2">
+                  <h3 className="text-md font-medium text-gray-800">Uploads:</h3>
+                  {uploads.some(isUploadFinished) && (
+                    <button onClick={clearFinishedUploads} className="text-xs text-gray-500 hover:text-gray-700">
+                      Clear finished
+                    </button>
+                  )}
+                </div>
+                <ul className="space-y-2 max-h-48 overflow-y-auto pr-2">
+                  {uploads.map(upload => {
+                    const finished = isUploadFinished(upload);
+                    const failed = upload.error !== undefined || upload.job?.status === 'failed';
+                    return (
+                      <li key={upload.key} className="flex items-center text-sm text-gray-700 bg-white p-2 rounded-lg border border-[#E5E7EB]">
+                        {!finished && <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-900 mr-2 flex-shrink-0"></div>}
+                        <div className="flex-1 min-w-0 pr-2">
+                          <div className="overflow-hidden text-ellipsis whitespace-nowrap" title={upload.fileName}>{upload.fileName}</div>
+                          <div className={`text-xs ${failed ? 'text-red-600' : 'text-gray-500'}`}>{describeUpload(upload)}</div>
+                        </div>
+                        {!finished && upload.job && (
+                          <button
+                            onClick={() => handleCancelUpload(upload)}
+                            className="text-xs text-gray-500 hover:text-gray-700 flex-shrink-0"
+                            title="Cancel extraction"
+                          >
+                            Cancel
+                          </button>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
               </div>
             )}
 
@@ -220,17 +350,18 @@ const ChatInput: React.FC<ChatInputProps> = ({
               <div className="my-4 p-3 border border-[#E5E7EB] rounded-lg bg-gray-50">
                 <h3 className="text-md font-medium mb-2 text-gray-800">Saved files:</h3>
                 <ul className="space-y-2 max-h-60 overflow-y-auto pr-2">
-                  {Object.keys(extractedTexts).map((fileName) => (
-                    <li key={fileName} className="flex justify-between items-center text-sm text-gray-700 bg-white p-2 rounded-lg border border-[#E5E7EB]">
+                  {Object.values(extractedTexts).map(({ id, fileName, version, versionCount }) => (
+                    <li key={id} className="flex justify-between items-center text-sm text-gray-700 bg-white p-2 rounded-lg border border-[#E5E7EB]">
                       {/* Truncated filename */}
                       <span className="flex-1 overflow-hidden text-ellipsis whitespace-nowrap pr-2" title={fileName}>
                         {fileName}
+                        {(versionCount ?? 1) > 1 && <span className="ml-1 text-xs text-gray-500">v{version}</span>}
                       </span>
                       {/* Action Icons */}
                       <div className="flex items-center space-x-2 flex-shrink-0">
                         {/* Eye Icon */}
                         <button 
-                          onClick={() => handleViewText(fileName)} 
+                          onClick={() => handleViewText(id)} 
                           className="text-gray-500 transition-transform duration-150 ease-in-out hover:scale-110"
                           title="View Text"
                         >
@@ -241,9 +372,9 @@ const ChatInput: React.FC<ChatInputProps> = ({
                         </button>
                         {/* Garbage Icon */}
                         <button 
-                          onClick={() => handleDeleteFile(fileName)} 
+                          onClick={() => handleDeleteFile(id)} 
                           className="text-gray-500 transition-transform duration-150 ease-in-out hover:scale-110"
-                          title="Delete File"
+                          title="Delete File (all versions)"
                         >
                           <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
                              <path strokeLinecap="round" strokeLinejoin="round" d="m14.74 9-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 0 1-2.244 2.077H8.084a2.25 2.25 0 0 1-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 0 0-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 0 1 3.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 0 0-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 0 0-7.5 0" />
@@ -264,8 +395,8 @@ const ChatInput: React.FC<ChatInputProps> = ({
                onClick={(e) => e.stopPropagation()} // Prevent clicks inside viewer from closing it
              >
                <div className="flex justify-between items-center mb-4 pb-3 border-b border-gray-200 flex-shrink-0">
-                 <h3 className="font-medium text-lg text-gray-800 truncate pr-2" title={viewingFile}>
-                   {viewingFile}
+                 <h3 className="font-medium text-lg text-gray-800 truncate pr-2" title={extractedTexts[viewingFile].fileName}>
+                   {extractedTexts[viewingFile].fileName}
                  </h3>
                  <button onClick={closeTextViewer} className="text-gray-500 hover:text-gray-700">
                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-6 h-6">
@@ -274,9 +405,7 @@ const ChatInput: React.FC<ChatInputProps> = ({
                  </button>
                </div>
                <div className="flex-1 overflow-y-auto bg-gray-50 p-4 rounded-lg">
-                 <pre className="whitespace-pre-wrap font-mono text-sm text-gray-700">
-                   {extractedTexts[viewingFile]?.text || <i>No text available.</i>}
-                 </pre>
+                 {viewingDocument ? <DocumentVersionView document={viewingDocument} onSelectVersion={handleSelectVersion} /> : <i className="text-sm text-gray-700">Loading text...</i>}
                </div>
              </div>
           )}
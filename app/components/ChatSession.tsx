@@ -0,0 +1,98 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useChat, Message } from '@ai-sdk/react';
+import MessageList from './MessageList';
+import ChatInput from './ChatInput';
+import { saveConversation } from '../utils/conversationStorage';
+import { USER_ID_HEADER } from '../utils/userNamespace';
+import type { DeepResearchSettings } from '../data/research_depths';
+
+interface ChatSessionProps {
+  conversationId: string;
+  userId: string;
+  initialMessages: Message[];
+  onConversationSaved?: () => void; // Called after the conversation was persisted (e.g. to refresh the sidebar)
+}
+
+// One chat conversation. Remount it (via `key`) to switch conversations.
+const ChatSession: React.FC<ChatSessionProps> = ({ conversationId, userId, initialMessages, onConversationSaved }) => {
+  // Deep research depth and query budget selected in the input; undefined while deep research is off
+  const [deepResearch, setDeepResearch] = useState<DeepResearchSettings | undefined>(undefined);
+  const { messages, input, handleInputChange, status, addToolResult, append, setInput } = useChat({
+    id: conversationId,
+    initialMessages,
+    api: '/api/chat',
+    maxSteps: 20,
+    // Stored documents are looked up server-side by the user's id (also on tool-result resubmits)
+    headers: { [USER_ID_HEADER]: userId },
+    // Sent with every request of the turn, so a resumed turn keeps the deep research settings
+    body: { deepResearch },
+    async onToolCall({ toolCall }) {
+      if (toolCall.toolName === 'getLocation') {
+        await new Promise(resolve => setTimeout(resolve, 500));
+        const cities = [
+          'New York',
+          'Los Angeles',
+          'Chicago',
+          'San Francisco',
+        ];
+        return cities[Math.floor(Math.random() * cities.length)];
+      }
+    },
+  });
+
+  // Persist the conversation whenever a response finishes (or fails)
+  const previousStatus = useRef(status);
+  useEffect(() => {
+    const wasBusy = previousStatus.current === 'submitted' || previousStatus.current === 'streaming';
+    previousStatus.current = status;
+    if (wasBusy && (status === 'ready' || status === 'error') && messages.length > 0) {
+      saveConversation(conversationId, messages).then(saved => {
+        if (saved) onConversationSaved?.();
+      });
+    }
+  }, [status, messages, conversationId, onConversationSaved]);
+
+  const handleFormSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!input || status === 'submitted') return;
+
+    // Add a reminder for deep reasoning as a hidden part of the message
+    const enhancedContent = `${input}\n\n[Remember to engage in deep reasoning and thinking, and follow the detailed execution process steps as outlined in your instructions.]`;
+
+    const messageToSend: Message = {
+      id: crypto.randomUUID(),
+      role: 'user',
+      content: input, // Show original input to the user
+    };
+
+    append(messageToSend, {
+      body: {
+        // Override the content only in the API call
+        overrideUserMessage: enhancedContent
+      }
+    });
+
+    setInput('');
+  };
+
+  // Calculate isLoading based on status
+  const isLoading = status === 'submitted' || status === 'streaming';
+
+  return (
+    <div className="flex flex-col flex-1 h-screen min-w-0">
+      <MessageList messages={messages} addToolResult={addToolResult} isLoading={isLoading} />
+      <ChatInput
+        input={input}
+        handleInputChange={handleInputChange}
+        handleSubmit={handleFormSubmit}
+        isLoading={isLoading}
+        deepResearch={deepResearch}
+        onDeepResearchChange={setDeepResearch}
+      />
+    </div>
+  );
+};
+
+export default ChatSession;
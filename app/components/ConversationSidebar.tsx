@@ -0,0 +1,126 @@
+'use client';
+import React, { useState } from 'react';
+import type { ConversationSummary } from '../utils/conversationStorage';
+
+interface ConversationSidebarProps {
+  conversations: ConversationSummary[];
+  activeConversationId: string;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const ConversationSidebar: React.FC<ConversationSidebarProps> = ({
+  conversations,
+  activeConversationId,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+}) => {
+  // Conversation currently being renamed and the draft title
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startRename = (conversation: ConversationSummary) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const submitRename = () => {
+    if (editingId && draftTitle.trim() !== '') {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp).toLocaleDateString();
+  };
+
+  return (
+    <aside className="w-64 flex-shrink-0 h-screen flex flex-col bg-white border-r border-[#E5E7EB]">
+      <div className="p-4 border-b border-[#E5E7EB]">
+        <button
+          onClick={onNew}
+          className="w-full px-3 py-2 bg-[#3C3C3C] hover:bg-gray-800 rounded-2xl text-white text-sm font-semibold transition-colors duration-200 ease-in-out flex items-center justify-center space-x-1.5"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2.5} stroke="currentColor" className="w-4 h-4">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M12 4.5v15m7.5-7.5h-15" />
+          </svg>
+          <span>New conversation</span>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2">
+        {conversations.length === 0 ? (
+          <p className="p-3 text-sm text-gray-500 italic">No saved conversations yet</p>
+        ) : (
+          <ul className="space-y-1">
+            {conversations.map((conversation) => (
+              <li
+                key={conversation.id}
+                className={`group rounded-lg text-sm ${
+                  conversation.id === activeConversationId ? 'bg-gray-100' : 'hover:bg-gray-50'
+                }`}
+              >
+                {editingId === conversation.id ? (
+                  <input
+                    autoFocus
+                    value={draftTitle}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onBlur={submitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') submitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="w-full p-2 rounded-lg border border-gray-300 text-sm focus:outline-none focus:border-gray-500"
+                  />
+                ) : (
+                  <div className="flex items-center">
+                    <button
+                      onClick={() => onSelect(conversation.id)}
+                      className="flex-1 min-w-0 text-left p-2"
+                      title={conversation.title}
+                    >
+                      <span className="block overflow-hidden text-ellipsis whitespace-nowrap text-gray-800 font-medium">
+                        {conversation.title}
+                      </span>
+                      <span className="block text-xs text-gray-500">{formatDate(conversation.updatedAt)}</span>
+                    </button>
+                    {/* Action Icons */}
+                    <div className="hidden group-hover:flex items-center space-x-1 pr-2 flex-shrink-0">
+                      {/* Pencil Icon */}
+                      <button
+                        onClick={() => startRename(conversation)}
+                        className="text-gray-500 transition-transform duration-150 ease-in-out hover:scale-110"
+                        title="Rename"
+                      >
+                        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                          <path strokeLinecap="round" strokeLinejoin="round" d="m16.862 4.487 1.687-1.688a1.875 1.875 0 1 1 2.652 2.652L10.582 16.07a4.5 4.5 0 0 1-1.897 1.13L6 18l.8-2.685a4.5 4.5 0 0 1 1.13-1.897l8.932-8.931Zm0 0L19.5 7.125" />
+                        </svg>
+                      </button>
+                      {/* Garbage Icon */}
+                      <button
+                        onClick={() => onDelete(conversation.id)}
+                        className="text-gray-500 transition-transform duration-150 ease-in-out hover:scale-110"
+                        title="Delete"
+                      >
+                        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
+                          <path strokeLinecap="round" strokeLinejoin="round" d="m14.74 9-.346 9m-4.788 0L9.26 9m9.968-3.21c.342.052.682.107 1.022.166m-1.022-.165L18.16 19.673a2.25 2.25 0 0 1-2.244 2.077H8.084a2.25 2.25 0 0 1-2.244-2.077L4.772 5.79m14.456 0a48.108 48.108 0 0 0-3.478-.397m-12 .562c.34-.059.68-.114 1.022-.165m0 0a48.11 48.11 0 0 1 3.478-.397m7.5 0v-.916c0-1.18-.91-2.164-2.09-2.201a51.964 51.964 0 0 0-3.32 0c-1.18.037-2.09 1.022-2.09 2.201v.916m7.5 0a48.667 48.667 0 0 0-7.5 0" />
+                        </svg>
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default ConversationSidebar;
@@ -0,0 +1,46 @@
+'use client';
+import React, { useMemo } from 'react';
+import { diffLines } from '../utils/textDiff';
+import type { ExtractedFile } from '../utils/fileStorage';
+
+interface DocumentDiffViewProps {
+  previous: ExtractedFile;
+  current: ExtractedFile;
+}
+
+const LINE_STYLES = {
+  same: 'text-gray-700',
+  added: 'bg-green-100 text-green-900',
+  removed: 'bg-red-100 text-red-900 line-through decoration-red-300',
+};
+
+const LINE_MARKERS = { same: ' ', added: '+', removed: '-' };
+
+// Line diff between two versions of a stored document, with the counts of added and removed lines
+const DocumentDiffView: React.FC<DocumentDiffViewProps> = ({ previous, current }) => {
+  const lines = useMemo(() => diffLines(previous.text, current.text), [previous.text, current.text]);
+  const added = lines.filter(line => line.type === 'added').length;
+  const removed = lines.filter(line => line.type === 'removed').length;
+
+  return (
+    <div>
+      <div className="mb-3 pb-2 border-b border-gray-200 text-sm text-gray-600">
+        Changes from v{previous.version} to v{current.version}:{' '}
+        <span className="text-green-700">+{added}</span> <span className="text-red-600">-{removed}</span> lines
+      </div>
+      {added === 0 && removed === 0 ? (
+        <i className="text-sm text-gray-700">The versions have the same text</i>
+      ) : (
+        <pre className="font-mono text-sm">
+          {lines.map((line, i) => (
+            <div key={i} className={`whitespace-pre-wrap ${LINE_STYLES[line.type]}`}>
+              <span className="select-none text-gray-400 mr-2">{LINE_MARKERS[line.type]}</span>{line.text}
+            </div>
+          ))}
+        </pre>
+      )}
+    </div>
+  );
+};
+
+export default DocumentDiffView;
@@ -0,0 +1,83 @@
+'use client';
+import React, { useRef } from 'react';
+import { formatSection, type DocumentSection } from '../utils/documentStructure';
+import type { ExtractedFile } from '../utils/fileStorage';
+
+interface DocumentTextViewProps {
+  document: ExtractedFile;
+}
+
+const sectionLabel = (section: DocumentSection): string => {
+  const label = formatSection(section);
+  return section.kind === 'heading' ? section.title ?? label : label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+// OCR confidence below these (0-100) is shown as doubtful / poor
+const GOOD_OCR_CONFIDENCE = 80;
+const FAIR_OCR_CONFIDENCE = 60;
+
+const OcrBadge: React.FC<{ confidence: number }> = ({ confidence }) => (
+  <span
+    className={`ml-2 normal-case font-normal ${confidence >= GOOD_OCR_CONFIDENCE ? 'text-green-700' : confidence >= FAIR_OCR_CONFIDENCE ? 'text-yellow-700' : 'text-red-600'}`}
+    title="Text recognized by OCR; mean word confidence reported by Tesseract"
+  >
+    OCR {confidence}%
+  </span>
+);
+
+// Text of a stored document, split at its pages/slides/chapters/headings, with an outline to jump between them
+const DocumentTextView: React.FC<DocumentTextViewProps> = ({ document }) => {
+  const segmentRefs = useRef<Record<number, HTMLDivElement | null>>({});
+  const sections = document.structure?.sections ?? [];
+  const ocrConfidence = new Map(document.ocrPages?.map(({ page, confidence }) => [page, confidence]));
+
+  if (sections.length === 0) {
+    return (
+      <pre className="whitespace-pre-wrap font-mono text-sm text-gray-700">
+        {document.text || <i>No text could be extracted</i>}
+      </pre>
+    );
+  }
+
+  // Segments start at every section start; containers get a label above their text
+  const boundaries = [...new Set([0, ...sections.map(section => section.start), document.text.length])].sort((a, b) => a - b);
+  const segments = boundaries.slice(0, -1).map((start, i) => ({
+    start,
+    text: document.text.slice(start, boundaries[i + 1]).replace(/^\n+|\n+$/g, ''),
+    container: sections.find(section => section.kind !== 'heading' && section.start === start),
+  }));
+
+  const jumpTo = (start: number) => segmentRefs.current[start]?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+
+  return (
+    <div>
+      <nav className="mb-3 pb-2 border-b border-gray-200 max-h-40 overflow-y-auto">
+        <h4 className="font-medium text-gray-700 text-xs uppercase mb-1">Outline</h4>
+        <ul className="text-sm space-y-0.5">
+          {sections.map((section, i) => (
+            <li key={i} style={{ paddingLeft: section.kind === 'heading' ? `${(section.level ?? 1) * 0.75}rem` : 0 }}>
+              <button onClick={() => jumpTo(section.start)} className="text-left text-blue-600 hover:underline truncate max-w-full">
+                {sectionLabel(section)}
+              </button>
+            </li>
+          ))}
+        </ul>
+      </nav>
+      {segments.map(segment => (
+        <div key={segment.start} ref={element => { segmentRefs.current[segment.start] = element; }}>
+          {segment.container && (
+            <div className="mt-3 mb-1 text-xs font-semibold text-gray-500 uppercase">
+              {sectionLabel(segment.container)}
+              {segment.container.kind === 'page' && ocrConfidence.has(segment.container.number!) && (
+                <OcrBadge confidence={ocrConfidence.get(segment.container.number!)!} />
+              )}
+            </div>
+          )}
+          <pre className="whitespace-pre-wrap font-mono text-sm text-gray-700">{segment.text}</pre>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DocumentTextView;
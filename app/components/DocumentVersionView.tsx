@@ -0,0 +1,97 @@
+'use client';
+import React, { useState, useEffect } from 'react';
+import { getExtractedText, getDocumentVersions, type ExtractedFile, type DocumentSummary } from '../utils/fileStorage';
+import DocumentTextView from './DocumentTextView';
+import DocumentDiffView from './DocumentDiffView';
+
+interface DocumentVersionViewProps {
+  document: ExtractedFile;
+  onSelectVersion: (id: string) => void; // Another version was picked; the caller loads and passes it as `document`
+}
+
+// Text of a stored document with a picker for its versions and the changes against another version
+const DocumentVersionView: React.FC<DocumentVersionViewProps> = ({ document, onSelectVersion }) => {
+  // Versions of the document, newest first, and the version it is compared with
+  const [versions, setVersions] = useState<DocumentSummary[]>([]);
+  const [compareWith, setCompareWith] = useState<string | null>(null);
+  const [compareData, setCompareData] = useState<ExtractedFile | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setCompareWith(null);
+    getDocumentVersions(document.id).then(documentVersions => {
+      if (!cancelled) setVersions(documentVersions);
+    });
+    return () => { cancelled = true; };
+  }, [document.id]);
+
+  useEffect(() => {
+    // Fetch the version to compare with
+    if (!compareWith) {
+      setCompareData(null);
+      return;
+    }
+    let cancelled = false;
+    getExtractedText(compareWith).then(version => {
+      if (!cancelled) setCompareData(version);
+    });
+    return () => { cancelled = true; };
+  }, [compareWith]);
+
+  // Compare with the version before the shown one by default
+  const toggleCompare = () => {
+    if (compareWith) {
+      setCompareWith(null);
+      return;
+    }
+    const index = versions.findIndex(version => version.id === document.id);
+    setCompareWith(versions[index + 1]?.id ?? versions.find(version => version.id !== document.id)?.id ?? null);
+  };
+
+  return (
+    <div>
+      {versions.length > 1 && (
+        <div className="mb-3 pb-2 border-b border-gray-200 text-sm text-gray-600 flex flex-wrap items-center gap-2">
+          <label>
+            Version{' '}
+            <select
+              value={document.id}
+              onChange={event => onSelectVersion(event.target.value)}
+              className="border border-gray-300 rounded px-1 py-0.5"
+            >
+              {versions.map(version => (
+                <option key={version.id} value={version.id}>
+                  v{version.version} ({new Date(version.extractedAt).toLocaleString()})
+                </option>
+              ))}
+            </select>
+          </label>
+          <button type="button" onClick={toggleCompare} className="text-blue-600 hover:underline">
+            {compareWith ? 'Show text' : 'Show changes'}
+          </button>
+          {compareWith && (
+            <label>
+              against{' '}
+              <select
+                value={compareWith}
+                onChange={event => setCompareWith(event.target.value)}
+                className="border border-gray-300 rounded px-1 py-0.5"
+              >
+                {versions.filter(version => version.id !== document.id).map(version => (
+                  <option key={version.id} value={version.id}>v{version.version}</option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+      )}
+      {compareWith
+        ? compareData
+          ? <DocumentDiffView previous={compareData} current={document} />
+          : <i className="text-sm text-gray-700">Loading version...</i>
+        : <DocumentTextView document={document} />}
+    </div>
+  );
+};
+
+export default DocumentVersionView;
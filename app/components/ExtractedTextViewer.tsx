@@ -1,33 +1,35 @@
 'use client';
 import React, { useState, useEffect } from 'react';
-import { getExtractedTexts } from '../utils/fileStorage';
-
-interface ExtractedFile {
-  fileName: string;
-  fileType: string;
-  fileSize: number;
-  text: string;
-  extractedAt: number;
-}
+import { getExtractedTexts, getExtractedText, type ExtractedFile, type DocumentSummary } from '../utils/fileStorage';
+import DocumentVersionView from './DocumentVersionView';
 
 const ExtractedTextViewer = () => {
-  const [extractedTexts, setExtractedTexts] = useState<Record<string, ExtractedFile>>({});
+  // Document metadata keyed by document ID
+  const [extractedTexts, setExtractedTexts] = useState<Record<string, DocumentSummary>>({});
   const [selectedFile, setSelectedFile] = useState<string | null>(null);
+  const [selectedFileData, setSelectedFileData] = useState<ExtractedFile | null>(null);
 
   useEffect(() => {
     // Load files on component mount
-    loadExtractedTexts();
+    getExtractedTexts().then(texts => {
+      setExtractedTexts(texts);
+      // Auto-select first file if none selected
+      setSelectedFile(current => current ?? Object.keys(texts)[0] ?? null);
+    });
   }, []);
 
-  const loadExtractedTexts = () => {
-    const texts = getExtractedTexts();
-    setExtractedTexts(texts);
-    
-    // Auto-select first file if none selected
-    if (!selectedFile && Object.keys(texts).length > 0) {
-      setSelectedFile(Object.keys(texts)[0]);
+  useEffect(() => {
+    // Fetch the full text of the selected file
+    if (!selectedFile) {
+      setSelectedFileData(null);
+      return;
     }
-  };
+    let cancelled = false;
+    getExtractedText(selectedFile).then(document => {
+      if (!cancelled) setSelectedFileData(document);
+    });
+    return () => { cancelled = true; };
+  }, [selectedFile]);
 
   const formatFileSize = (bytes: number) => {
     if (bytes < 1024) return bytes + ' bytes';
@@ -39,13 +41,10 @@ const ExtractedTextViewer = () => {
     return new Date(timestamp).toLocaleString();
   };
 
-  const handleFileSelect = (fileName: string) => {
-    setSelectedFile(fileName);
+  const handleFileSelect = (id: string) => {
+    setSelectedFile(id);
   };
 
-  // Get the selected file data
-  const selectedFileData = selectedFile ? extractedTexts[selectedFile] : null;
-
   return (
     <div className="border border-gray-200 rounded-lg overflow-hidden">
       <div className="bg-gray-50 p-4 border-b border-gray-200">
@@ -63,17 +62,18 @@ const ExtractedTextViewer = () => {
             <div className="p-3">
               <h3 className="font-medium text-gray-700 text-sm mb-2">Files</h3>
               <ul className="space-y-1">
-                {Object.keys(extractedTexts).map(fileName => (
-                  <li key={fileName}>
+                {Object.values(extractedTexts).map(({ id, fileName, version, versionCount }) => (
+                  <li key={id}>
                     <button
-                      onClick={() => handleFileSelect(fileName)}
+                      onClick={() => handleFileSelect(id)}
                       className={`w-full text-left px-3 py-2 rounded text-sm ${
-                        selectedFile === fileName
+                        selectedFileData?.fileName === fileName
                           ? 'bg-blue-100 text-blue-700'
                           : 'hover:bg-gray-100 text-gray-700'
                       }`}
                     >
                       {fileName}
+                      {(versionCount ?? 1) > 1 && <span className="ml-1 text-xs text-gray-500">v{version}</span>}
                     </button>
                   </li>
                 ))}
@@ -90,14 +90,22 @@ const ExtractedTextViewer = () => {
                     {selectedFileData.fileName}
                   </h3>
                   <div className="text-sm text-gray-500 flex flex-wrap gap-x-4">
-                    <span>{selectedFileData.fileType}</span>
+                    <span>{selectedFileData.structure?.language ?? selectedFileData.fileType}</span>
                     <span>{formatFileSize(selectedFileData.fileSize)}</span>
                     <span>Extracted: {formatDate(selectedFileData.extractedAt)}</span>
+                    <span title="Content-based document ID">ID: {selectedFileData.id.slice(0, 12)}</span>
+                    {selectedFileData.ocrPages && selectedFileData.ocrPages.length > 0 && (
+                      <span title="Pages read by OCR, with the mean confidence over them">
+                        OCR: {selectedFileData.ocrPages.length} page{selectedFileData.ocrPages.length === 1 ? '' : 's'}, {
+                          Math.round(selectedFileData.ocrPages.reduce((sum, page) => sum + page.confidence, 0) / selectedFileData.ocrPages.length)
+                        }% confidence
+                      </span>
+                    )}
                   </div>
                 </div>
                 
-                <div className="bg-gray-50 p-4 rounded-lg whitespace-pre-wrap font-mono text-sm">
-                  {selectedFileData.text || <i>No text could be extracted</i>}
+                <div className="bg-gray-50 p-4 rounded-lg">
+                  <DocumentVersionView document={selectedFileData} onSelectVersion={setSelectedFile} />
                 </div>
               </div>
             ) : (
@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Message, ToolInvocation } from 'ai';
-import Markdown from 'react-markdown';
+import Markdown, { type Components } from 'react-markdown';
 import mermaid from 'mermaid';
 // Import the type from the research tool file
 import { ResearchToolResult } from '../tools/researchTool'; // Adjust path if necessary
@@ -8,8 +8,20 @@ import { ResearchToolResult } from '../tools/researchTool'; // Adjust path if ne
 import { AnalystToolResult } from '../tools/analystTool'; // Adjust path
 // Import the type from the contextualizer tool file
 import { ContextualizerResult } from '../tools/contextualizerTool'; // Adjust path
+// Import the type from the QA tool file
+import type { QaResult } from '../tools/qaTool';
+import type { DataAnalysisResult } from '../tools/dataAnalysisTool';
+import type { DeepResearchResult } from '../tools/deepResearchTool';
 // Import the type for the council tool result
-import { type CouncilResult } from '../tools/councilTool'; // Adjust path
+import type { CouncilResult, CouncilCheck } from '../tools/councilTool'; // Adjust path
+import type { RemediatedCouncilResult } from '../utils/councilRemediation';
+// Import the type for the server-side plan execution attached to planning results
+import type { PlanExecutionResult, AgentExecutionResult } from '../utils/planExecutor';
+// Import the type of the grounding annotation attached to final answers
+import type { GroundingAnnotation, GroundingEvidence } from '../utils/grounding';
+import type { SourceCredibility } from '../utils/sourceCredibility';
+import type { PhaseAnnotation } from '../utils/phaseMachine';
+import type { ExecutionBudget } from '../data/complexity_budgets';
 
 interface MessageListProps {
   messages: Message[];
@@ -24,7 +36,9 @@ type ClassificationResult = {
     type: string;
     complexity: string;
     reasoning: string;
+    matchedCriteria?: string[];
   };
+  budget?: ExecutionBudget; // Execution limits the server applies for this complexity
   error?: string;
 };
 
@@ -40,7 +54,7 @@ type PossibilityEvaluationResult = {
 
 // Define types for the planning tool result structure
 type AgentPlan = {
-  type: 'researcher' | 'qa' | 'contextualizer' | 'analyst';
+  type: 'researcher' | 'qa' | 'contextualizer' | 'analyst' | 'dataAnalyst';
   order: number;
   purpose: string;
   dependencies: number[];
@@ -50,6 +64,7 @@ type AgentPlan = {
 type PlanningResult = {
   task: string;
   agents: AgentPlan[];
+  execution?: PlanExecutionResult; // Present when the plan was executed server-side
 };
 
 // Define type for the final answer tool result
@@ -118,13 +133,514 @@ function invocationHasContextualizerResult(invocation: ToolInvocation): invocati
            typeof invocation.result?.foundContext === 'string';
 }
 
+// Specific type guard for Data Analysis Result
+function invocationHasDataAnalysisResult(invocation: ToolInvocation): invocation is ToolInvocation & { result: DataAnalysisResult } {
+    return invocationHasResultProperty<DataAnalysisResult>(invocation) &&
+           (Array.isArray(invocation.result?.rows) || typeof invocation.result?.error === 'string');
+}
+
+// Specific type guard for QA Result
+function invocationHasQaResult(invocation: ToolInvocation): invocation is ToolInvocation & { result: QaResult } {
+    return invocationHasResultProperty<QaResult>(invocation) &&
+           typeof invocation.result?.answer === 'string' &&
+           Array.isArray(invocation.result?.quotes);
+}
+
+// Specific type guard for Deep Research Result
+function invocationHasDeepResearchResult(invocation: ToolInvocation): invocation is ToolInvocation & { result: DeepResearchResult } {
+    return invocationHasResultProperty<DeepResearchResult>(invocation) &&
+           Array.isArray(invocation.result?.rounds) &&
+           Array.isArray(invocation.result?.sources);
+}
+
+// Council checks in display order (mirrors COUNCIL_CHECKS; the tool module is server-only)
+const COUNCIL_CHECKS: CouncilCheck[] = ['hallucination', 'verification', 'alignment'];
+
 // Specific type guard for Council Result
-function invocationHasCouncilResult(invocation: ToolInvocation): invocation is ToolInvocation & { result: CouncilResult } {
-    return invocationHasResultProperty<CouncilResult>(invocation) &&
+// Results of the remediation loop carry the evaluation rounds; older results only the final evaluation
+type CouncilCardResult = CouncilResult & Partial<Pick<RemediatedCouncilResult, 'rounds' | 'stopReason' | 'remediationError'>>;
+
+function invocationHasCouncilResult(invocation: ToolInvocation): invocation is ToolInvocation & { result: CouncilCardResult } {
+    return invocationHasResultProperty<CouncilCardResult>(invocation) &&
            typeof invocation.result?.judgement === 'string' &&
            typeof invocation.result?.explanation === 'string';
 }
 
+// Type guard for the grounding annotation of a message
+function isGroundingAnnotation(annotation: unknown): annotation is GroundingAnnotation {
+    return typeof annotation === 'object' && annotation !== null &&
+           (annotation as GroundingAnnotation).type === 'grounding' &&
+           Array.isArray((annotation as GroundingAnnotation).claims);
+}
+
+// Type guard for the phase annotation of a message
+function isPhaseAnnotation(annotation: unknown): annotation is PhaseAnnotation {
+    return typeof annotation === 'object' && annotation !== null &&
+           (annotation as PhaseAnnotation).type === 'phases' &&
+           Array.isArray((annotation as PhaseAnnotation).transitions);
+}
+
+// Latest annotation of a kind; resumed turns (e.g. after askAdditionalInfo) add one per request
+function findLastAnnotation<T>(message: Message, guard: (annotation: unknown) => annotation is T): T | undefined {
+    const annotations = message.annotations ?? [];
+    for (let i = annotations.length - 1; i >= 0; i--) {
+        if (guard(annotations[i])) return annotations[i] as T;
+    }
+    return undefined;
+}
+
+// --- Grounding (claim-level citations of the final answer) ---
+const UNSUPPORTED_HREF = '#grounding-unsupported';
+const EVIDENCE_HREF_PREFIX = '#grounding-';
+
+// Insert citation links after grounded sentences and wrap unsupported ones, so Markdown renders them inline
+function addGroundingMarkers(text: string, grounding: GroundingAnnotation): string {
+    // Claims of the same sentence share one set of markers
+    const sentences = new Map<number, { sentence: string; evidenceIds: Set<string>; unsupported: boolean }>();
+    for (const claim of grounding.claims) {
+        if (claim.start < 0) continue;
+        const entry = sentences.get(claim.start) ?? { sentence: claim.sentence, evidenceIds: new Set<string>(), unsupported: false };
+        claim.evidenceIds.forEach(id => entry.evidenceIds.add(id));
+        entry.unsupported = entry.unsupported || !claim.supported;
+        sentences.set(claim.start, entry);
+    }
+
+    // Apply from the end so earlier offsets stay valid; skip sentences overlapping an already marked one
+    let result = text;
+    let boundary = text.length;
+    for (const [start, entry] of Array.from(sentences.entries()).sort((a, b) => b[0] - a[0])) {
+        const end = start + entry.sentence.length;
+        if (end > boundary) continue;
+        boundary = start;
+        const citations = Array.from(entry.evidenceIds).map(id => ` [${id}](${EVIDENCE_HREF_PREFIX}${id})`).join('');
+        // Only wrap plain single-line sentences; wrapping links or block syntax would break the Markdown
+        const canHighlight = entry.unsupported && !/[[\]\n]/.test(entry.sentence) && !/^\s*([-*+>#]|\d+\.)\s/.test(entry.sentence);
+        const sentence = canHighlight ? `[${entry.sentence}](${UNSUPPORTED_HREF})` : entry.sentence;
+        result = result.slice(0, start) + sentence + citations + result.slice(end);
+    }
+    return result;
+}
+
+// Markdown link renderer for the grounding markers
+const groundedMarkdownComponents = (evidence: GroundingEvidence[]): Components => ({
+    a: ({ href, children }) => {
+        if (href === UNSUPPORTED_HREF) {
+            return <mark className="bg-red-900/60 text-red-100 rounded px-0.5" title="No supporting evidence found for this sentence">{children}</mark>;
+        }
+        const item = href?.startsWith(EVIDENCE_HREF_PREFIX) ? evidence.find(candidate => candidate.id === href.slice(EVIDENCE_HREF_PREFIX.length)) : undefined;
+        if (item) {
+            return (
+                <sup>
+                    <a href={item.url} target="_blank" rel="noopener noreferrer" title={`${item.title}\n\n${item.snippet}`} className="text-xs font-semibold">
+                        [{item.id}]
+                    </a>
+                </sup>
+            );
+        }
+        return <a href={href}>{children}</a>;
+    },
+});
+
+const GroundingView: React.FC<{ grounding: GroundingAnnotation }> = ({ grounding }) => {
+    const supportedCount = grounding.claims.filter(claim => claim.supported).length;
+    const unsupportedClaims = grounding.claims.filter(claim => !claim.supported);
+    return (
+        <div className="mt-3 pt-2 border-t border-gray-600 text-xs text-gray-300">
+            {grounding.error ? (
+                <p className="text-yellow-300">{grounding.error}</p>
+            ) : (
+                <p className="font-semibold mb-1">
+                    Grounding: <span className={unsupportedClaims.length === 0 ? 'text-green-300' : 'text-red-300'}>{supportedCount}/{grounding.claims.length} claims supported by evidence</span>
+                </p>
+            )}
+            {unsupportedClaims.length > 0 && (
+                <div className="mb-1">
+                    <p className="text-gray-400">Unsupported claims:</p>
+                    <ul className="list-disc pl-4">
+                        {unsupportedClaims.map((claim, claimIndex) => <li key={claimIndex} className="text-red-200">{claim.claim}</li>)}
+                    </ul>
+                </div>
+            )}
+            {grounding.evidence.length > 0 && (
+                <details>
+                    <summary className="cursor-pointer text-gray-400">Evidence ({grounding.evidence.length})</summary>
+                    <ul className="mt-1 space-y-1">
+                        {grounding.evidence.map(item => (
+                            <li key={item.id}>
+                                <span className="font-semibold">[{item.id}]</span>{' '}
+                                {item.url ? (
+                                    <a href={item.url} target="_blank" rel="noopener noreferrer" className="text-blue-400 hover:underline">{item.title}</a>
+                                ) : (
+                                    <span>{item.title}</span>
+                                )}
+                                <span className="text-gray-500"> ({item.kind})</span>
+                            </li>
+                        ))}
+                    </ul>
+                </details>
+            )}
+        </div>
+    );
+};
+
+// Phase trail of the orchestrator, as enforced by the server-side phase machine
+const PhaseTrailView: React.FC<{ phases: PhaseAnnotation }> = ({ phases }) => (
+    <div className="mt-2 text-xs text-gray-400">
+        <span className="font-semibold">Phases:</span>{' '}
+        {[phases.transitions[0]?.from ?? phases.phase, ...phases.transitions.map(transition => transition.to)].join(' → ')}
+        {phases.route && phases.route !== 'planned' && <span className="ml-2 text-gray-500">(route: {phases.route.replace('_', ' ')}, no plan)</span>}
+        {phases.rejected.length > 0 && (
+            <details className="mt-1">
+                <summary className="cursor-pointer text-yellow-300">{phases.rejected.length} out-of-order tool call(s) rejected</summary>
+                <ul className="list-disc pl-4">
+                    {phases.rejected.map((rejection, rejectionIndex) => <li key={rejectionIndex}>{rejection.error}</li>)}
+                </ul>
+            </details>
+        )}
+    </div>
+);
+
+// --- Shared Result Views (used by the tool cards and the plan execution card) ---
+const CREDIBILITY_COLORS: Record<SourceCredibility['level'], string> = {
+  high: 'bg-green-800 text-green-200',
+  medium: 'bg-yellow-800 text-yellow-200',
+  low: 'bg-red-800 text-red-200',
+};
+
+// Credibility score of a web source; the tooltip lists the signals it is made of
+const CredibilityBadge: React.FC<{ credibility: SourceCredibility }> = ({ credibility }) => (
+  <span
+    className={`ml-2 px-1.5 py-0.5 rounded ${CREDIBILITY_COLORS[credibility.level]}`}
+    title={[
+      `${credibility.domain} (${credibility.contentType}${credibility.listed ? `, ${credibility.listed}-listed` : ''})`,
+      ...Object.entries(credibility.signals).map(([signal, value]) => `${signal}: ${value.toFixed(2)}`),
+      `agrees with ${credibility.agreeingSources} other domain(s)`,
+    ].join('\n')}
+  >
+    {credibility.level} {credibility.score.toFixed(2)}
+  </span>
+);
+
+const ResearchResultsView: React.FC<{ results: ResearchToolResult }> = ({ results }) => (
+  results.length > 0 ? (
+    <ul className="list-none pl-0 space-y-3 text-xs">
+      {results.map((queryResult: ResearchToolResult[0], index: number) => (
+        <li key={index} className="border-b border-green-700/50 pb-2 last:border-b-0">
+          <p className="font-medium text-gray-300 mb-1">
+            Query: <code className="text-xs bg-gray-700 px-1 rounded">{queryResult.query}</code>
+            {queryResult.cached && <span className="ml-2 px-1.5 py-0.5 rounded bg-gray-700 text-gray-400 font-normal" title="Results from the research cache">cached</span>}
+          </p>
+          {queryResult.error ? (
+            <p className="text-red-400 italic">Error: {queryResult.error}</p>
+          ) : queryResult.results.length > 0 ? (
+            <ul className="list-disc pl-5 space-y-1 text-gray-400">
+              {queryResult.results.map((result: ResearchToolResult[0]['results'][0], rIndex: number) => (
+                <li key={rIndex}>
+                  {/^https?:/.test(result.url) ? (
+                    <a href={result.url} target="_blank" rel="noopener noreferrer" className="text-green-400 hover:text-green-300 hover:underline break-all">
+                      {result.title || result.url}
+                    </a>
+                  ) : (
+                    // Articles of the local search corpus have no web address
+                    <span className="text-green-400 break-all" title={result.url}>{result.title || result.url}</span>
+                  )}
+                  {result.publishedDate && <span className="text-gray-500"> ({result.publishedDate.slice(0, 10)})</span>}
+                  {result.credibility && <CredibilityBadge credibility={result.credibility} />}
+                  {result.quotes && result.quotes.length > 0 && (
+                    <ul className="mt-1 space-y-0.5 list-none pl-0">
+                      {result.quotes.map((quote, qIndex) => (
+                        <li key={qIndex} className="text-gray-400 italic" title={`chars ${quote.start}–${quote.end} of the page text`}>
+                          “{quote.text}”
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="italic text-gray-500">{queryResult.duplicateUrls ? 'No new results.' : 'No results found.'}</p>
+          )}
+          {queryResult.duplicateUrls && (
+            <p className="mt-1 text-gray-500" title={queryResult.duplicateUrls.join('\n')}>
+              {queryResult.duplicateUrls.length} result{queryResult.duplicateUrls.length === 1 ? '' : 's'} already found by earlier queries
+            </p>
+          )}
+          {queryResult.droppedUrls && (
+            <p className="mt-1 text-gray-500" title={queryResult.droppedUrls.join('\n')}>
+              {queryResult.droppedUrls.length} low-trust result{queryResult.droppedUrls.length === 1 ? '' : 's'} dropped by the research policy
+            </p>
+          )}
+        </li>
+      ))}
+    </ul>
+  ) : (
+    <p className="text-xs italic text-gray-500">No research queries were executed.</p>
+  )
+);
+
+// Data behind a data-driven diagram
+const DEEP_RESEARCH_STOP_REASONS: Record<DeepResearchResult['stopReason'], string> = {
+  coverage_reached: 'coverage target reached',
+  max_rounds: 'all rounds of the selected depth used',
+  budget_exhausted: 'query budget used up',
+  no_follow_up: 'no new follow-up queries',
+  review_failed: 'gap analysis failed',
+};
+
+// Report with its numbered sources, and the search rounds (queries, coverage, gaps) that led to it
+const DeepResearchView: React.FC<{ result: DeepResearchResult }> = ({ result }) => (
+  <div className="text-xs">
+    <p className="text-gray-400 mb-2">
+      {result.rounds.length} round{result.rounds.length === 1 ? '' : 's'}, {result.queriesUsed} of {result.settings.maxQueries} queries, {result.sources.length} sources ({DEEP_RESEARCH_STOP_REASONS[result.stopReason]})
+    </p>
+    {result.error && <p className="text-red-400 italic mb-2">Error: {result.error}</p>}
+    {result.report && (
+      <div className="mb-3 space-y-2 text-gray-300">
+        <p className="font-semibold text-sm text-emerald-200">{result.report.title}</p>
+        <Markdown>{result.report.summary}</Markdown>
+        {result.report.sections.map((section, index) => (
+          <div key={index}>
+            <p className="font-semibold text-emerald-300">{section.heading}</p>
+            <Markdown>{section.content}</Markdown>
+          </div>
+        ))}
+        {result.report.contradictions.length > 0 && (
+          <div>
+            <p className="font-semibold text-yellow-300">Contradictions</p>
+            <ul className="list-disc pl-5">{result.report.contradictions.map((item, index) => <li key={index}>{item}</li>)}</ul>
+          </div>
+        )}
+        {result.report.openQuestions.length > 0 && (
+          <div>
+            <p className="font-semibold text-gray-400">Open questions</p>
+            <ul className="list-disc pl-5">{result.report.openQuestions.map((item, index) => <li key={index}>{item}</li>)}</ul>
+          </div>
+        )}
+      </div>
+    )}
+    {result.sources.length > 0 && (
+      <div className="mb-2">
+        <p className="font-semibold text-emerald-300">Sources</p>
+        <ol className="list-none pl-0 space-y-0.5 text-gray-400">
+          {result.sources.map(source => (
+            <li key={source.id}>
+              [{source.id}]{' '}
+              {/^https?:/.test(source.url) ? (
+                <a href={source.url} target="_blank" rel="noopener noreferrer" className="text-green-400 hover:text-green-300 hover:underline break-all">{source.title}</a>
+              ) : (
+                <span className="text-green-400 break-all" title={source.url}>{source.title}</span>
+              )}
+              {source.publishedDate && <span className="text-gray-500"> ({source.publishedDate.slice(0, 10)})</span>}
+              {source.credibility && <CredibilityBadge credibility={source.credibility} />}
+            </li>
+          ))}
+        </ol>
+      </div>
+    )}
+    <details>
+      <summary className="cursor-pointer text-gray-400">Search rounds</summary>
+      {result.rounds.map(round => (
+        <div key={round.round} className="mt-2 pl-2 border-l-2 border-emerald-700">
+          <p className="font-medium text-gray-300">Round {round.round + 1}{round.review ? ` — coverage ${Math.round(round.review.coverage * 100)}%` : ''}</p>
+          <ResearchResultsView results={round.results} />
+          {round.review && round.review.gaps.length > 0 && (
+            <p className="mt-1 text-gray-500">Gaps: {round.review.gaps.join('; ')}</p>
+          )}
+        </div>
+      ))}
+    </details>
+  </div>
+);
+
+const DatasetView: React.FC<{ dataset: NonNullable<AnalystToolResult['dataset']> }> = ({ dataset }) => (
+  <details className="mt-1 text-xs text-gray-400">
+    <summary className="cursor-pointer">Data ({dataset.rows.length} rows{dataset.source ? `, from ${dataset.source}` : ''})</summary>
+    <table className="mt-1 border-collapse">
+      <thead>
+        <tr>{dataset.columns.map((column, i) => <th key={i} className="border border-gray-600 px-1 text-left">{column}</th>)}</tr>
+      </thead>
+      <tbody>
+        {dataset.rows.map((row, rowIndex) => (
+          <tr key={rowIndex}>{row.map((value, i) => <td key={i} className="border border-gray-700 px-1">{value}</td>)}</tr>
+        ))}
+      </tbody>
+    </table>
+  </details>
+);
+
+const AnalystResultView: React.FC<{ result: AnalystToolResult }> = ({ result }) => (
+  result.mermaidCode && result.parseValid !== false ? (
+    <div>
+      <p className="text-xs text-gray-400 mb-1">
+        Generated Mermaid Diagram:
+        {result.parseValid && <span className="ml-2 text-green-400">✓ syntax checked</span>}
+        {result.dataDriven && <span className="ml-2 text-blue-300">built from data</span>}
+      </p>
+      {/* IMPORTANT: Render Mermaid code in a pre/code block with class="mermaid" */}
+      <pre className="bg-white p-2 rounded overflow-x-auto text-black">
+        <code className="mermaid text-sm">
+          {result.mermaidCode}
+        </code>
+      </pre>
+      {result.dataset && <DatasetView dataset={result.dataset} />}
+    </div>
+  ) : result.error || result.parseError ? (
+    <div>
+      {result.error && <p className="text-red-400 italic">Error: {result.error}</p>}
+      {result.parseError && (
+        <details className="mt-1 text-xs text-red-300">
+          <summary className="cursor-pointer">Mermaid parse error of the last attempt</summary>
+          <pre className="whitespace-pre-wrap font-mono mt-1">{result.parseError}</pre>
+        </details>
+      )}
+      {/* Code that does not parse is shown as text, never handed to mermaid.run */}
+      {result.mermaidCode && <pre className="whitespace-pre-wrap font-mono text-xs text-gray-400 mt-1">{result.mermaidCode}</pre>}
+    </div>
+  ) : (
+    <p className="text-yellow-400 italic">No diagram generated and no error reported.</p>
+  )
+);
+
+const ContextualizerResultView: React.FC<{ result: ContextualizerResult }> = ({ result }) => (
+  result.error ? (
+    <p className="text-red-400 italic">Error: {result.error}</p>
+  ) : (
+    <div>
+      {/* Display the actual found context (snippets or message) */}
+      <pre className="whitespace-pre-wrap font-mono text-xs text-orange-300/90 bg-black/10 p-2 rounded mt-1">
+        {result.foundContext}
+      </pre>
+      {/* Retrieved passages the snippets cite as [S1], [S2], ... */}
+      {result.sources?.length > 0 && (
+        <ul className="list-none pl-0 mt-2 space-y-0.5 text-xs text-gray-400">
+          {result.sources.map((source, index) => (
+            <li key={index}>
+              <span className="font-semibold text-orange-400">[S{index + 1}]</span> {source.fileName}{source.version ? ` v${source.version}` : ''}{source.location && <span className="text-gray-300">, {source.location}</span>} <span className="text-gray-500">(chars {source.start}–{source.end})</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+);
+
+const QaResultView: React.FC<{ result: QaResult }> = ({ result }) => (
+  <div>
+    {result.error && <p className="text-red-400 italic">Error: {result.error}</p>}
+    <p className={result.refused ? 'text-yellow-400 italic' : 'text-gray-300'}>
+      {result.refused ? 'Refused: ' : ''}{result.answer}
+    </p>
+    {result.quotes.length > 0 && (
+      <ul className="list-none pl-0 mt-2 space-y-1 text-xs">
+        {result.quotes.map((quote, index) => (
+          <li key={index} className="pl-2 border-l-2 border-teal-500">
+            <span className="italic text-teal-200/90">&ldquo;{quote.quote}&rdquo;</span>
+            <span className="text-gray-500"> — {quote.source}</span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+const DataAnalysisResultView: React.FC<{ result: DataAnalysisResult }> = ({ result }) => (
+  result.error ? (
+    <div>
+      <p className="text-red-400 italic">Error: {result.error}</p>
+      {result.availableTables && <pre className="whitespace-pre-wrap font-mono text-xs text-gray-400 mt-1">{result.availableTables}</pre>}
+    </div>
+  ) : (
+    <div className="text-xs">
+      <p className="text-gray-400 mb-1">
+        {result.file} / {result.sheet}: {result.matchedRows} matching rows
+        {result.totalRows !== undefined && result.rows && result.totalRows > result.rows.length && `, first ${result.rows.length} of ${result.totalRows} results shown`}
+      </p>
+      <div className="overflow-x-auto">
+        <table className="border-collapse">
+          <thead>
+            <tr>{result.columns?.map((column, i) => <th key={i} className="border border-gray-600 px-1 text-left">{column.name}</th>)}</tr>
+          </thead>
+          <tbody>
+            {result.rows?.map((row, rowIndex) => (
+              <tr key={rowIndex}>{row.map((value, i) => <td key={i} className="border border-gray-700 px-1">{value === null ? '' : String(value)}</td>)}</tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+);
+
+// Renders the output of one executed plan agent with the view matching its type
+const AgentExecutionView: React.FC<{ result: AgentExecutionResult }> = ({ result }) => {
+  const statusColor = result.status === 'completed' ? 'text-green-400' : result.status === 'failed' ? 'text-red-400' : 'text-yellow-400';
+  let outputView: React.ReactNode = null;
+  if (result.output) {
+    switch (result.type) {
+      case 'researcher':
+        outputView = <ResearchResultsView results={result.output as ResearchToolResult} />;
+        break;
+      case 'analyst':
+        outputView = <AnalystResultView result={result.output as AnalystToolResult} />;
+        break;
+      case 'contextualizer':
+        outputView = <ContextualizerResultView result={result.output as ContextualizerResult} />;
+        break;
+      case 'qa':
+        outputView = <QaResultView result={result.output as QaResult} />;
+        break;
+      case 'dataAnalyst':
+        outputView = <DataAnalysisResultView result={result.output as DataAnalysisResult} />;
+        break;
+    }
+  }
+  return (
+    <div className="mt-2 pt-2 border-t border-gray-700">
+      <p><span className="font-semibold text-purple-400">Status:</span> <span className={`font-semibold ${statusColor}`}>{result.status}</span></p>
+      {result.error && <p className="text-red-400 italic">Error: {result.error}</p>}
+      {outputView && <div className="mt-1">{outputView}</div>}
+    </div>
+  );
+};
+
+const STOP_REASON_LABELS: Record<RemediatedCouncilResult['stopReason'], string> = {
+    passed: 'Passed after revision',
+    error: 'Stopped: council evaluation failed',
+    max_rounds: 'Stopped: maximum number of revision rounds reached',
+    budget_exhausted: 'Stopped: follow-up agent budget exhausted',
+    no_follow_up: 'Stopped: no follow-up work could be planned',
+};
+
+// Revise-and-retry rounds of the council: each rejection triggers follow-up agents and a new evaluation
+const CouncilRoundsView: React.FC<{ result: CouncilCardResult }> = ({ result }) => (
+    <div className="mb-2">
+        <p className="font-medium text-gray-400 mb-1">Revision rounds:</p>
+        <ol className="space-y-2 text-xs">
+            {result.rounds!.map((round: RemediatedCouncilResult['rounds'][number]) => (
+                <li key={round.round} className="pl-2 border-l-2 border-gray-600">
+                    {round.execution && (
+                        <div className="mb-1 space-y-1">
+                            <p className="text-gray-400">Follow-up agents:</p>
+                            {round.execution.agents.map((agent: AgentExecutionResult) => (
+                                <AgentExecutionView key={agent.index} result={agent} />
+                            ))}
+                        </div>
+                    )}
+                    <p>
+                        <span className="text-gray-400">{round.round === 0 ? 'Initial evaluation' : `Round ${round.round}`}:</span>{' '}
+                        <span className={`font-semibold ${round.judgement === 'passed' ? 'text-green-300' : round.judgement === 'error' ? 'text-yellow-300' : 'text-red-300'}`}>{round.judgement}</span>
+                        {round.disagreement && <span className="ml-1 text-orange-300">(judges disagree)</span>}
+                    </p>
+                </li>
+            ))}
+        </ol>
+        {result.stopReason && result.stopReason !== 'passed' && (
+            <p className="mt-1 text-xs text-yellow-300">{STOP_REASON_LABELS[result.stopReason]}{result.remediationError ? `: ${result.remediationError}` : ''}</p>
+        )}
+    </div>
+);
+
 // --- Component State for Input --- 
 // Store input values for askAdditionalInfo tool calls temporarily
 interface AdditionalInfoInputState {
@@ -195,7 +711,10 @@ const MessageList: React.FC<MessageListProps> = ({ messages, addToolResult, isLo
           >
             {message.parts?.map((part, index) => {
               switch (part.type) {
-                case 'text':
+                case 'text': {
+                  // The grounding check covers the final answer, i.e. the text part it was run on
+                  const grounding = findLastAnnotation(message, isGroundingAnnotation);
+                  const isGroundedText = grounding !== undefined && grounding.text === part.text;
                   return (
                     <div key={index} className="text-content">
                       <style jsx>{`
@@ -246,9 +765,17 @@ const MessageList: React.FC<MessageListProps> = ({ messages, addToolResult, isLo
                           @apply bg-gray-100 font-semibold;
                         }
                       `}</style>
-                      <Markdown>{part.text}</Markdown>
+                      {isGroundedText ? (
+                        <>
+                          <Markdown components={groundedMarkdownComponents(grounding.evidence)}>{addGroundingMarkers(part.text, grounding)}</Markdown>
+                          <GroundingView grounding={grounding} />
+                        </>
+                      ) : (
+                        <Markdown>{part.text}</Markdown>
+                      )}
                     </div>
                   );
+                }
 
                 case 'tool-invocation': {
                   // Destructure with specific type
@@ -355,7 +882,18 @@ const MessageList: React.FC<MessageListProps> = ({ messages, addToolResult, isLo
                               return (
                                 <div key={toolCallId} className="my-2 p-3 border border-[#3B3B3B] rounded-xl bg-[#202020] text-xs">
                                   <p className="font-semibold text-gray-300 mb-1">Query Classification:</p>
+                                  <p><span className="font-medium text-gray-400">Type:</span> {toolResult.classification.type}</p>
                                   <p><span className="font-medium text-gray-400">Complexity:</span> {toolResult.classification.complexity}</p>
+                                  {toolResult.classification.matchedCriteria && toolResult.classification.matchedCriteria.length > 0 && (
+                                    <ul className="mt-1 list-disc list-inside text-gray-400">
+                                      {toolResult.classification.matchedCriteria.map((criterion, i) => <li key={i}>{criterion}</li>)}
+                                    </ul>
+                                  )}
+                                  {toolResult.budget && (
+                                    <p className="mt-1 text-gray-400">
+                                      <span className="font-medium">Budget:</span> {toolResult.budget.maxAgents} agents, {toolResult.budget.maxResearcherQueries} researcher queries, {toolResult.budget.analystAttempts} analyst attempts, {toolResult.budget.maxSteps} steps, {toolResult.budget.councilStrictness} council
+                                    </p>
+                                  )}
                                   <p className="mt-1 italic text-gray-500">Reasoning: {toolResult.classification.reasoning}</p>
                                 </div>
                               );
@@ -475,12 +1013,21 @@ const MessageList: React.FC<MessageListProps> = ({ messages, addToolResult, isLo
                                         {agent.query && (
                                           <p><span className="font-semibold text-purple-400">Query:</span> <code className="text-xs bg-gray-700 px-1 rounded">{agent.query}</code></p>
                                         )}
+                                        {plan.execution?.agents[agentIndex] && (
+                                          <AgentExecutionView result={plan.execution.agents[agentIndex]} />
+                                        )}
                                       </li>
                                     ))}
                                   </ul>
                                 ) : (
                                   <p className="text-xs italic text-gray-500">No agents planned (likely a simple task handled directly).</p>
                                 )}
+                                {plan.execution?.error && (
+                                  <p className="mt-2 text-xs text-red-400 italic">Plan execution failed: {plan.execution.error}</p>
+                                )}
+                                {plan.execution?.warnings.map((warning: string, warningIndex: number) => (
+                                  <p key={warningIndex} className="mt-1 text-xs text-yellow-400 italic">Warning: {warning}</p>
+                                ))}
                               </div>
                             );
                           } 
@@ -505,32 +1052,7 @@ const MessageList: React.FC<MessageListProps> = ({ messages, addToolResult, isLo
                                     return (
                                       <div key={toolCallId} className="my-2 p-3 border border-green-500 rounded-xl bg-green-900/30 text-sm">
                                         <p className="font-semibold text-green-300 mb-2">Research Results:</p>
-                                        {researchResults.length > 0 ? (
-                                          <ul className="list-none pl-0 space-y-3 text-xs">
-                                            {researchResults.map((queryResult: ResearchToolResult[0], index: number) => (
-                                              <li key={index} className="border-b border-green-700/50 pb-2 last:border-b-0">
-                                                <p className="font-medium text-gray-300 mb-1">Query: <code className="text-xs bg-gray-700 px-1 rounded">{queryResult.query}</code></p>
-                                                {queryResult.error ? (
-                                                  <p className="text-red-400 italic">Error: {queryResult.error}</p>
-                                                ) : queryResult.results.length > 0 ? (
-                                                  <ul className="list-disc pl-5 space-y-1 text-gray-400">
-                                                    {queryResult.results.map((result: { title?: string | undefined; url: string }, rIndex: number) => (
-                                                      <li key={rIndex}>
-                                                        <a href={result.url} target="_blank" rel="noopener noreferrer" className="text-green-400 hover:text-green-300 hover:underline break-all">
-                                                          {result.title || result.url}
-                                                        </a>
-                                                      </li>
-                                                    ))}
-                                                  </ul>
-                                                ) : (
-                                                  <p className="italic text-gray-500">No results found.</p>
-                                                )}
-                                              </li>
-                                            ))}
-                                          </ul>
-                                        ) : (
-                                          <p className="text-xs italic text-gray-500">No research queries were executed.</p>
-                                        )}
+                                        <ResearchResultsView results={researchResults} />
                                       </div>
                                     );
                                 }
@@ -540,6 +1062,26 @@ const MessageList: React.FC<MessageListProps> = ({ messages, addToolResult, isLo
                         break;
                     }
 
+                    // Add case for the deep research tool
+                    case 'deepResearch': {
+                        switch (state) {
+                            case 'call':
+                                const deepResearchArgs = toolInvocation.args as { topic?: string } | undefined;
+                                return <div key={toolCallId} className="my-2 p-2 border-[#3B3B3B] rounded-xl bg-[#202020] text-xs italic">Researching in depth: {deepResearchArgs?.topic ?? 'topic...'}</div>;
+                            case 'result':
+                                if (invocationHasDeepResearchResult(toolInvocation)) {
+                                    return (
+                                      <div key={toolCallId} className="my-2 p-3 border border-emerald-500 rounded-xl bg-emerald-900/30 text-sm">
+                                        <p className="font-semibold text-emerald-300 mb-2">Deep Research Report:</p>
+                                        <DeepResearchView result={toolInvocation.result} />
+                                      </div>
+                                    );
+                                }
+                                return <div key={toolCallId} className="my-2 p-2 border border-yellow-500 rounded-xl bg-yellow-900 text-xs text-white">Deep research result pending or invalid...</div>;
+                        }
+                        break;
+                    }
+
                      // Add case for the analyst tool
                      case 'analyst': {
                         switch (state) {
@@ -557,21 +1099,7 @@ const MessageList: React.FC<MessageListProps> = ({ messages, addToolResult, isLo
                                             <p className="font-semibold text-cyan-300 mb-2">Analysis Result:</p>
                                             {analystQueryArgs?.query && <p className="text-xs italic text-gray-400 mb-2">Original Query: {analystQueryArgs.query}</p> }
 
-                                            {analystResult.mermaidCode ? (
-                                                <div>
-                                                    <p className="text-xs text-gray-400 mb-1">Generated Mermaid Diagram:</p>
-                                                    {/* IMPORTANT: Render Mermaid code in a pre/code block with class="mermaid" */}
-                                                    <pre className="bg-white p-2 rounded overflow-x-auto text-black">
-                                                        <code className="mermaid text-sm">
-                                                            {analystResult.mermaidCode}
-                                                        </code>
-                                                    </pre>
-                                                </div>
-                                            ) : analystResult.error ? (
-                                                <p className="text-red-400 italic">Error: {analystResult.error}</p>
-                                            ) : (
-                                                <p className="text-yellow-400 italic">No diagram generated and no error reported.</p>
-                                            )}
+                                            <AnalystResultView result={analystResult} />
                                         </div>
                                     );
                                 }
@@ -595,14 +1123,7 @@ const MessageList: React.FC<MessageListProps> = ({ messages, addToolResult, isLo
                                         <div key={toolCallId} className="my-2 p-3 border border-orange-500 rounded-xl bg-orange-900/30 text-sm">
                                             <p className="font-semibold text-orange-300 mb-2">Local Document Search Results:</p>
                                             <p className="text-xs italic text-gray-400 mb-1">Query: <code className="text-xs bg-gray-700 px-1 rounded">{contextResult.query}</code></p>
-                                            {contextResult.error ? (
-                                                <p className="text-red-400 italic">Error: {contextResult.error}</p>
-                                            ) : (
-                                                // Display the actual found context (snippets or message)
-                                                <pre className="whitespace-pre-wrap font-mono text-xs text-orange-300/90 bg-black/10 p-2 rounded mt-1">
-                                                    {contextResult.foundContext}
-                                                </pre>
-                                            )}
+                                            <ContextualizerResultView result={contextResult} />
                                         </div>
                                     );
                                 }
@@ -612,6 +1133,50 @@ const MessageList: React.FC<MessageListProps> = ({ messages, addToolResult, isLo
                         break;
                     }
 
+                    // Add case for the data analysis tool
+                    case 'dataAnalysis': {
+                        switch (state) {
+                            case 'call':
+                                const dataArgs = toolInvocation.args as { file?: string; sheet?: string } | undefined;
+                                return <div key={toolCallId} className="my-2 p-2 border-[#3B3B3B] rounded-xl bg-[#202020] text-xs italic">Querying spreadsheet {dataArgs?.file ?? ''} {dataArgs?.sheet ? `/ ${dataArgs.sheet}` : ''}...</div>;
+                            case 'result':
+                                if (invocationHasDataAnalysisResult(toolInvocation)) {
+                                    return (
+                                        <div key={toolCallId} className="my-2 p-3 border border-blue-500 rounded-xl bg-blue-900/30 text-sm">
+                                            <p className="font-semibold text-blue-300 mb-2">Data Analysis:</p>
+                                            <DataAnalysisResultView result={toolInvocation.result} />
+                                        </div>
+                                    );
+                                }
+                                return <div key={toolCallId} className="my-2 p-2 border border-yellow-500 rounded-xl bg-yellow-900 text-xs text-white">Data analysis result pending or invalid...</div>;
+                        }
+                        break;
+                    }
+
+                    // Add case for the qa tool
+                    case 'qa': {
+                        switch (state) {
+                            case 'call':
+                                const qaArgs = toolInvocation.args as { question: string } | undefined;
+                                const questionText = qaArgs?.question || 'question...';
+                                return <div key={toolCallId} className="my-2 p-2 border-[#3B3B3B] rounded-xl bg-[#202020] text-xs italic">Answering from context: {questionText}</div>;
+                            case 'result':
+                                if (invocationHasQaResult(toolInvocation)) {
+                                    const qaResult = toolInvocation.result;
+                                    return (
+                                        <div key={toolCallId} className="my-2 p-3 border border-teal-500 rounded-xl bg-teal-900/30 text-sm">
+                                            <p className="font-semibold text-teal-300 mb-2">QA Answer:</p>
+                                            <p className="text-xs italic text-gray-400 mb-1">Question: <code className="text-xs bg-gray-700 px-1 rounded">{qaResult.question}</code></p>
+                                            <QaResultView result={qaResult} />
+                                        </div>
+                                    );
+                                }
+                                // Handle invalid result
+                                return <div key={toolCallId} className="my-2 p-2 border border-yellow-500 rounded-xl bg-yellow-900 text-xs text-white">QA result pending or invalid...</div>;
+                        }
+                        break;
+                    }
+
                     // Add case for the finalAnswer tool
                     case 'finalAnswer': {
                         switch (state) {
@@ -678,7 +1243,67 @@ const MessageList: React.FC<MessageListProps> = ({ messages, addToolResult, isLo
                                     return (
                                         <div key={toolCallId} className={`my-2 p-3 border ${borderColor} rounded-xl ${bgColor} text-sm`}>
                                             <p className={`font-semibold ${titleColor} mb-1`}>Council Evaluation:</p>
-                                            <p className="mb-2"><span className="font-medium text-gray-400">Judgement:</span> <span className={`font-bold ${titleColor}`}>{councilResult.judgement}</span></p>
+                                            <p className="mb-2">
+                                                <span className="font-medium text-gray-400">Judgement:</span> <span className={`font-bold ${titleColor}`}>{councilResult.judgement}</span>
+                                                {councilResult.disagreement && (
+                                                    <span className="ml-2 px-1.5 py-0.5 rounded bg-orange-800 text-orange-200 text-xs font-medium">judges disagree</span>
+                                                )}
+                                            </p>
+                                            {/* Only show the rounds if the remediation loop ran or was cut short */}
+                                            {councilResult.rounds && (councilResult.rounds.length > 1 || (councilResult.stopReason !== 'passed' && councilResult.stopReason !== 'error')) && (
+                                                <CouncilRoundsView result={councilResult} />
+                                            )}
+                                            {councilResult.checks && (
+                                                <table className="w-full mb-2 text-xs text-gray-300">
+                                                    <thead>
+                                                        <tr className="text-left text-gray-400">
+                                                            <th className="font-medium pr-2">Check</th>
+                                                            <th className="font-medium pr-2">Verdict</th>
+                                                            <th className="font-medium pr-2">Score</th>
+                                                            <th className="font-medium pr-2">Votes (pass/fail)</th>
+                                                            <th className="font-medium">Agreement</th>
+                                                        </tr>
+                                                    </thead>
+                                                    <tbody>
+                                                        {COUNCIL_CHECKS.map((check: CouncilCheck) => {
+                                                            const aggregated = councilResult.checks![check];
+                                                            return (
+                                                                <tr key={check}>
+                                                                    <td className="pr-2 capitalize">{check}</td>
+                                                                    <td className={`pr-2 font-semibold ${aggregated.passed ? 'text-green-300' : 'text-red-300'}`}>{aggregated.passed ? 'passed' : 'failed'}</td>
+                                                                    <td className="pr-2">{aggregated.score.toFixed(2)}</td>
+                                                                    <td className="pr-2">{aggregated.passWeight} / {aggregated.failWeight}</td>
+                                                                    <td className={aggregated.disagreement ? 'text-orange-300' : ''}>{Math.round(aggregated.agreement * 100)}%</td>
+                                                                </tr>
+                                                            );
+                                                        })}
+                                                    </tbody>
+                                                </table>
+                                            )}
+                                            {councilResult.judges && councilResult.judges.length > 0 && (
+                                                <div className="mb-2">
+                                                    <p className="font-medium text-gray-400 mb-1">Judges:</p>
+                                                    <ul className="space-y-1 text-xs">
+                                                        {councilResult.judges.map((judge: NonNullable<CouncilResult['judges']>[number], judgeIndex: number) => (
+                                                            <li key={judgeIndex} className="flex flex-wrap items-center gap-1">
+                                                                <span className="font-mono text-gray-300">{judge.model}</span>
+                                                                {judge.weight !== 1 && <span className="text-gray-500">(weight {judge.weight})</span>}
+                                                                {judge.verdict ? COUNCIL_CHECKS.map((check: CouncilCheck) => (
+                                                                    <span
+                                                                        key={check}
+                                                                        title={judge.verdict![check].explanation}
+                                                                        className={`px-1.5 py-0.5 rounded ${judge.verdict![check].passed ? 'bg-green-800 text-green-200' : 'bg-red-800 text-red-200'}`}
+                                                                    >
+                                                                        {check}: {judge.verdict![check].score.toFixed(2)}
+                                                                    </span>
+                                                                )) : (
+                                                                    <span className="text-yellow-300">error: {judge.error}</span>
+                                                                )}
+                                                            </li>
+                                                        ))}
+                                                    </ul>
+                                                </div>
+                                            )}
                                             <p className="font-medium text-gray-400 mb-1">Explanation:</p>
                                             <p className="text-xs text-gray-300 whitespace-pre-wrap">{councilResult.explanation}</p>
                                         </div>
@@ -702,6 +1327,10 @@ const MessageList: React.FC<MessageListProps> = ({ messages, addToolResult, isLo
               }
               return null;
             })}
+            {(() => {
+              const phases = findLastAnnotation(message, isPhaseAnnotation);
+              return phases ? <PhaseTrailView phases={phases} /> : null;
+            })()}
           </div>
         </div>
       ))}
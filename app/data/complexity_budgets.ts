@@ -0,0 +1,20 @@
+import type { ComplexityLevel } from './complexity_guidelines';
+import type { CouncilStrictness } from '../tools/councilTool';
+
+// Execution limits the route enforces once the query has been classified
+export interface ExecutionBudget {
+  maxAgents: number; // Agents in a single plan
+  maxResearcherQueries: number; // Web search queries per turn (research tool calls and researcher agents together)
+  analystAttempts: number; // Generate-evaluate attempts per diagram
+  maxSteps: number; // Orchestrator steps per request, including the final answer
+  councilStrictness: CouncilStrictness;
+}
+
+export const complexityBudgets: Record<ComplexityLevel, ExecutionBudget> = {
+  CRITICAL_COMPLEXITY: { maxAgents: 10, maxResearcherQueries: 10, analystAttempts: 3, maxSteps: 20, councilStrictness: 'unanimous' },
+  HIGH_COMPLEXITY: { maxAgents: 8, maxResearcherQueries: 8, analystAttempts: 3, maxSteps: 18, councilStrictness: 'supermajority' },
+  MODERATE_COMPLEXITY: { maxAgents: 5, maxResearcherQueries: 5, analystAttempts: 3, maxSteps: 14, councilStrictness: 'majority' },
+  LOW_COMPLEXITY: { maxAgents: 3, maxResearcherQueries: 3, analystAttempts: 2, maxSteps: 10, councilStrictness: 'majority' },
+  MINIMAL_COMPLEXITY: { maxAgents: 2, maxResearcherQueries: 2, analystAttempts: 1, maxSteps: 8, councilStrictness: 'majority' },
+  TRIVIAL: { maxAgents: 1, maxResearcherQueries: 1, analystAttempts: 1, maxSteps: 6, councilStrictness: 'majority' },
+};
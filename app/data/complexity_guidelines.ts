@@ -38,4 +38,16 @@ TRIVIAL:
 - Can be done without thought
 - Instantaneous execution
         
-`
\ No newline at end of file
+`
+
+// Levels defined above, from most to least complex
+export const COMPLEXITY_LEVELS = [
+  'CRITICAL_COMPLEXITY',
+  'HIGH_COMPLEXITY',
+  'MODERATE_COMPLEXITY',
+  'LOW_COMPLEXITY',
+  'MINIMAL_COMPLEXITY',
+  'TRIVIAL',
+] as const;
+
+export type ComplexityLevel = typeof COMPLEXITY_LEVELS[number];
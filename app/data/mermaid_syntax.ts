@@ -0,0 +1,243 @@
+// Mermaid version the reference below was written and checked against. Update it together with the mermaid dependency.
+export const MERMAID_SYNTAX_VERSION = '11.6.0';
+
+export interface MermaidSyntaxEntry {
+  header: string; // First line of the diagram code
+  syntax: string;
+  example: string; // Parses with MERMAID_SYNTAX_VERSION
+}
+
+// One entry per diagram type the analyst detects in a query (see extractDiagramType in analystTool.ts)
+export const mermaidSyntaxReference: Record<string, MermaidSyntaxEntry> = {
+  flowchart: {
+    header: 'flowchart TD',
+    syntax: `
+- Direction after the keyword: TD/TB (top-down), BT, LR, RL
+- Node shapes: A[Rectangle], B(Rounded), C{Decision}, D((Circle)), E[(Database)], F[[Subroutine]], G{{Hexagon}}, H>Flag]
+- Links: A --> B (arrow), A --- B (line), A -.-> B (dotted), A ==> B (thick)
+- Link labels: A -->|label| B or A -- label --> B
+- Quote labels with special characters: A["Revenue (USD)"]
+- Groups: subgraph id [Title] ... end
+- Styling: classDef important fill:#f96 and class A important
+- Comments start with %%`,
+    example: `flowchart LR
+    A[Start] --> B{Approved?}
+    B -->|Yes| C[(Orders DB)]
+    B -->|No| D["Reject (notify user)"]
+    subgraph backend [Backend]
+        C --> E[[Invoice job]]
+    end`,
+  },
+  sequenceDiagram: {
+    header: 'sequenceDiagram',
+    syntax: `
+- Declare participants in display order: participant A as Alice, actor U as User
+- Messages: A->>B: text (solid arrow), A-->>B: text (dotted arrow), A-)B: text (async), A-xB: text (lost)
+- Activation: A->>+B: request and B-->>-A: response, or activate B / deactivate B
+- Notes: Note right of A: text, Note over A,B: text
+- Blocks, each closed with end: loop text, alt condition ... else other ... end, opt condition, par text ... and text ... end
+- autonumber numbers all messages`,
+    example: `sequenceDiagram
+    autonumber
+    actor U as User
+    participant W as WebApp
+    participant D as Database
+    U->>+W: Log in
+    W->>D: Look up user
+    alt user found
+        D-->>W: User record
+        W-->>U: Welcome page
+    else not found
+        W-->>-U: Error message
+    end
+    Note over W,D: Sessions expire after 30 minutes`,
+  },
+  gantt: {
+    header: 'gantt',
+    syntax: `
+- title Text, dateFormat YYYY-MM-DD (format of the dates in the tasks), axisFormat %b %d (axis labels)
+- section Name groups the tasks below it
+- Task: Name :id, 2024-01-01, 3d (start date and duration) or Name :id, 2024-01-01, 2024-01-05 (start and end)
+- Dependencies: Name :id2, after id, 5d
+- Tags before the id: done, active, crit, milestone, e.g. Launch :milestone, m1, 2024-02-01, 0d
+- Durations: d (days), w (weeks), h (hours)`,
+    example: `gantt
+    title Release plan
+    dateFormat YYYY-MM-DD
+    axisFormat %b %d
+    section Build
+    Design      :done, des, 2024-01-01, 7d
+    Development :active, dev, after des, 14d
+    section Ship
+    Testing     :crit, test, after dev, 5d
+    Launch      :milestone, launch, after test, 0d`,
+  },
+  classDiagram: {
+    header: 'classDiagram',
+    syntax: `
+- Class with members: class Animal { +String name +eat() void }, one member per line inside the braces
+- Visibility: + public, - private, # protected, ~ package
+- Relations: A <|-- B (inheritance), A *-- B (composition), A o-- B (aggregation), A --> B (association), A ..> B (dependency), A ..|> B (realization)
+- Cardinality and labels: Customer "1" --> "*" Order : places
+- Annotations: <<interface>> Shape`,
+    example: `classDiagram
+    class Shape {
+        <<interface>>
+        +area() double
+    }
+    class Circle {
+        -double radius
+        +area() double
+    }
+    Shape <|.. Circle
+    Customer "1" --> "*" Order : places`,
+  },
+  stateDiagram: {
+    header: 'stateDiagram-v2',
+    syntax: `
+- Start and end: [*] --> First, Last --> [*]
+- Transitions: A --> B : event
+- State descriptions: state "Waiting for payment" as Waiting
+- Composite states: state Active { ... } with their own [*] transitions inside
+- Pseudo states: state check <<choice>>, state split <<fork>>, state merge <<join>>
+- Notes: note right of A : text
+- Concurrent regions inside a composite state are separated by --`,
+    example: `stateDiagram-v2
+    state "Waiting for payment" as Waiting
+    [*] --> Waiting
+    Waiting --> Paid : payment received
+    state check <<choice>>
+    Paid --> check
+    check --> Shipped : in stock
+    check --> Backordered : out of stock
+    Shipped --> [*]
+    note right of Waiting : cancelled after 24h`,
+  },
+  pie: {
+    header: 'pie',
+    syntax: `
+- pie showData shows the values next to the legend
+- title Text on its own line
+- Slices: "Label" : value, with a positive number as value; percentages are computed from the values`,
+    example: `pie showData
+    title Browser share
+    "Chrome" : 64.7
+    "Safari" : 18.6
+    "Other" : 16.7`,
+  },
+  journey: {
+    header: 'journey',
+    syntax: `
+- title Text
+- section Name groups the steps below it
+- Step: Task name: score: Actor1, Actor2, with a score from 1 (bad) to 5 (good)`,
+    example: `journey
+    title Ordering online
+    section Browse
+      Search product: 4: Customer
+      Compare prices: 3: Customer
+    section Checkout
+      Pay: 2: Customer, Bank
+      Receive confirmation: 5: Customer`,
+  },
+  c4context: {
+    header: 'C4Context',
+    syntax: `
+- The header is case-sensitive: C4Context (also C4Container, C4Component, C4Dynamic, C4Deployment)
+- title Text
+- Elements: Person(alias, "Label", "Description"), Person_Ext(...), System(...), System_Ext(...), SystemDb(...)
+- Boundaries: Enterprise_Boundary(alias, "Label") { ... }, System_Boundary(alias, "Label") { ... }
+- Relations: Rel(from, to, "Label", "Technology"), BiRel(a, b, "Label")`,
+    example: `C4Context
+    title Online shop
+    Person(customer, "Customer", "Buys products")
+    Enterprise_Boundary(shop, "Shop") {
+        System(web, "Web shop", "Catalog and checkout")
+        SystemDb(db, "Order database", "Stores orders")
+    }
+    System_Ext(payment, "Payment provider", "Handles card payments")
+    Rel(customer, web, "Orders products", "HTTPS")
+    Rel(web, db, "Reads and writes")
+    Rel(web, payment, "Charges card", "REST")`,
+  },
+  gitGraph: {
+    header: 'gitGraph',
+    syntax: `
+- Starts on the main branch; commit adds a commit to the current branch
+- commit id: "text", commit tag: "v1.0", commit type: HIGHLIGHT (or NORMAL, REVERSE)
+- branch name creates and checks out a branch, checkout name switches to it
+- merge name merges it into the current branch; cherry-pick id: "text" copies a commit
+- A branch must exist before checkout or merge`,
+    example: `gitGraph
+    commit id: "init"
+    branch develop
+    checkout develop
+    commit id: "feature"
+    checkout main
+    merge develop tag: "v1.0"
+    commit type: HIGHLIGHT`,
+  },
+  xychart: {
+    header: 'xychart-beta',
+    syntax: `
+- The header must be xychart-beta; xychart-beta horizontal draws horizontal bars
+- title "Text" (quoted)
+- Category x-axis: x-axis [jan, feb, mar], quote categories with spaces: x-axis ["Q1 2024", "Q2 2024"]
+- Numeric axes: x-axis "Label" 0 --> 100, y-axis "Label" 0 --> 500
+- Series: bar [10, 20, 30] and line [15, 25, 35], one value per x-axis category
+- Several bar/line series may be combined in one chart`,
+    example: `xychart-beta
+    title "Monthly revenue"
+    x-axis [jan, feb, mar, apr]
+    y-axis "Revenue (USD)" 0 --> 5000
+    bar [2100, 2800, 3500, 4200]
+    line [2100, 2800, 3500, 4200]`,
+  },
+  block: {
+    header: 'block-beta',
+    syntax: `
+- The header must be block-beta
+- columns N sets the number of columns; blocks fill the rows left to right
+- Blocks: a, a["Label"], and the node shapes of flowcharts; a:2 spans two columns
+- space (or space:2) leaves empty cells
+- Nested blocks: block:group:2 ... end
+- Links: a --> b, a -- "label" --> b`,
+    example: `block-beta
+    columns 3
+    frontend["Frontend"] space backend["Backend"]
+    db[("Database")]:3
+    frontend --> backend
+    backend --> db`,
+  },
+  sankey: {
+    header: 'sankey-beta',
+    syntax: `
+- The header must be sankey-beta, followed by CSV rows: source,target,value
+- One flow per row, no arrows or brackets; values are positive numbers
+- Quote names that contain commas: "Oil, gas",Electricity,30
+- Empty lines are allowed between rows`,
+    example: `sankey-beta
+
+Energy,Electricity,80
+Energy,Heat loss,20
+Electricity,Homes,50
+Electricity,Industry,30`,
+  },
+  architecture: {
+    header: 'architecture-beta',
+    syntax: `
+- The header must be architecture-beta
+- Groups: group id(icon)[Label], nested with in: group id(icon)[Label] in parent
+- Services: service id(icon)[Label], placed in a group with in group_id
+- Built-in icons: cloud, database, disk, internet, server
+- Edges name the side of each end (T, B, L, R): a:R --> L:b (arrow), a:R -- L:b (line)
+- Junctions split edges: junction id`,
+    example: `architecture-beta
+    group api(cloud)[API]
+    service web(internet)[Web app] in api
+    service server(server)[Server] in api
+    service db(database)[Database] in api
+    web:R --> L:server
+    server:R -- L:db`,
+  },
+};
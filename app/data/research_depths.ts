@@ -0,0 +1,41 @@
+// Depths of the deep-research mode the user can select in the chat
+export const RESEARCH_DEPTHS = ['standard', 'deep', 'exhaustive'] as const;
+
+export type ResearchDepth = typeof RESEARCH_DEPTHS[number];
+
+export interface ResearchDepthSettings {
+  label: string;
+  maxRounds: number; // Search rounds including the first pass
+  queriesPerRound: number; // Queries run per round, the first pass included
+  targetCoverage: number; // Coverage (0-1, as rated after each round) at which the research stops early
+}
+
+export const researchDepths: Record<ResearchDepth, ResearchDepthSettings> = {
+  standard: { label: 'Standard (2 rounds)', maxRounds: 2, queriesPerRound: 3, targetCoverage: 0.7 },
+  deep: { label: 'Deep (3 rounds)', maxRounds: 3, queriesPerRound: 4, targetCoverage: 0.8 },
+  exhaustive: { label: 'Exhaustive (5 rounds)', maxRounds: 5, queriesPerRound: 8, targetCoverage: 0.9 },
+};
+
+// Search queries a deep research may run in total, as offered in the chat
+export const RESEARCH_QUERY_BUDGETS = [6, 12, 24, 40] as const;
+
+// Most queries a deep research of this depth can run: every round with all of its queries
+export const researchCapacity = (depth: ResearchDepth): number =>
+  researchDepths[depth].maxRounds * researchDepths[depth].queriesPerRound;
+
+// Budgets offered for a depth: those it can actually spend
+export const queryBudgetsFor = (depth: ResearchDepth): number[] =>
+  RESEARCH_QUERY_BUDGETS.filter(budget => budget <= researchCapacity(depth));
+
+// Deep-research settings sent with a chat request
+export interface DeepResearchSettings {
+  depth: ResearchDepth;
+  maxQueries: number;
+}
+
+export const isDeepResearchSettings = (value: unknown): value is DeepResearchSettings => {
+  const settings = value as Partial<DeepResearchSettings> | null | undefined;
+  return typeof settings?.depth === 'string' && (RESEARCH_DEPTHS as readonly string[]).includes(settings.depth)
+    && Number.isInteger(settings.maxQueries) && settings.maxQueries! > 0
+    && settings.maxQueries! <= researchCapacity(settings.depth as ResearchDepth);
+};
@@ -0,0 +1,40 @@
+export const taskTypeGuidelines = `
+FACTUAL_LOOKUP:
+- Asks for a single fact, definition, date, number or name
+- Answerable with one search or from common knowledge
+
+DOCUMENT_QA:
+- Asks about the content of the user's own documents or files
+- Refers to "my files", "the uploaded report", "that doc about X"
+- Asks for figures, totals or breakdowns from the user's uploaded spreadsheets
+
+DATA_VISUALIZATION:
+- Asks for a chart, diagram or flowchart only
+- The data or process to draw is given in the request or the conversation
+
+COMPARISON:
+- Weighs two or more options, products, places or approaches against each other
+
+RESEARCH:
+- Needs information gathered from several sources and combined
+- Reports, overviews, explanations of current events or multi-part questions
+
+CODING:
+- Asks to write, explain, review or debug code
+
+CREATIVE:
+- Asks for stories, poems, slogans, names or other original writing
+`
+
+// Task types defined above
+export const TASK_TYPES = [
+  'FACTUAL_LOOKUP',
+  'DOCUMENT_QA',
+  'DATA_VISUALIZATION',
+  'COMPARISON',
+  'RESEARCH',
+  'CODING',
+  'CREATIVE',
+] as const;
+
+export type TaskType = typeof TASK_TYPES[number];
@@ -1,7 +1,18 @@
 import { tool, generateText } from 'ai';
 import { z } from 'zod';
 import Exa from 'exa-js';
-import { google } from '@ai-sdk/google';
+import { getModel } from '@/app/utils/modelRegistry';
+import { parseMermaid } from '@/app/utils/mermaidValidation';
+import { mermaidSyntaxReference, MERMAID_SYNTAX_VERSION } from '@/app/data/mermaid_syntax';
+import {
+    datasetSchema,
+    datasetToMermaid,
+    formatDataset,
+    toDataChartType,
+    DATA_CHART_TYPES,
+    DATA_CHART_COLUMNS,
+    type Dataset,
+} from '@/app/utils/datasetCharts';
 
 // --- Remove Mermaid Initialization at module level ---
 // mermaid.initialize({ ... }); 
@@ -13,12 +24,17 @@ let exa: Exa | undefined;
 if (exaApiKey) {
     exa = new Exa(exaApiKey);
 } else {
-    console.warn("EXA_API_KEY environment variable is not set. Analyst tool documentation search will be skipped.");
+    console.warn("EXA_API_KEY environment variable is not set. Diagram types without a local syntax reference get no documentation.");
 }
 
 // Define the input schema for the analyst tool
 const analystToolInputSchema = z.object({
     query: z.string().describe('Detailed query specifying the mermaid.js diagram type, data, and relationships to visualize.'),
+    dataset: datasetSchema.optional()
+        .describe(`Structured data for the diagram, copied exactly from earlier tool outputs or an uploaded file. Column layouts: ${DATA_CHART_TYPES.map(type => `${type}: ${DATA_CHART_COLUMNS[type]}`).join('; ')}.`),
+    chartType: z.enum(DATA_CHART_TYPES).optional()
+        .describe('Chart to build from the dataset without an LLM. Defaults to the diagram type named in the query.'),
+    seriesKind: z.enum(['bar', 'line']).optional().describe('Series style of an xychart built from the dataset (default bar).'),
 });
 
 // Define the type for the output structure - add evaluation info
@@ -27,13 +43,18 @@ export type AnalystToolResult = z.infer<z.ZodObject<{
     error: z.ZodOptional<z.ZodString>;
     attempts: z.ZodOptional<z.ZodNumber>;
     docLookupError: z.ZodOptional<z.ZodString>;
+    docSource: z.ZodOptional<z.ZodEnum<['local', 'exa']>>; // Where the documentation context came from
     evaluationFeedback: z.ZodOptional<z.ZodString>; // Feedback from the evaluator LLM
+    parseValid: z.ZodOptional<z.ZodBoolean>; // Whether the last generated code passed Mermaid's parser
+    parseError: z.ZodOptional<z.ZodString>; // Parser error of the last generated code
+    dataDriven: z.ZodOptional<z.ZodBoolean>; // Code built from the dataset without an LLM
+    dataset: z.ZodOptional<typeof datasetSchema>; // The dataset the diagram was built from or checked against
 }>>;
 
 // Initialize a separate LLM instance for diagram generation
 // This could be the same model type or a different one optimized for code generation
-const diagramGeneratorLlm = google('gemini-2.5-pro-preview-03-25');
-const evaluatorLlm = google('gemini-2.5-pro-preview-03-25');
+const diagramGeneratorLlm = getModel('diagramGenerator');
+const evaluatorLlm = getModel('evaluator');
 
 // --- Helper to Extract Diagram Type (Restore) ---
 function extractDiagramType(query: string): string | null {
@@ -57,7 +78,15 @@ function extractDiagramType(query: string): string | null {
     return null;
 }
 
-// --- Helper to Search Docs (Restore) ---
+// --- Helper to Read the Bundled Syntax Reference ---
+function getLocalMermaidDocs(diagramType: string): string | undefined {
+    // Variants such as 'stateDiagram-v2' or 'xychart-beta' share the entry of their base type
+    const entry = mermaidSyntaxReference[diagramType.replace(/-(v2|beta)$/, '')];
+    if (!entry) { return undefined; }
+    return `Mermaid ${MERMAID_SYNTAX_VERSION} syntax reference (first line: ${entry.header}):${entry.syntax}\n\nExample:\n${entry.example}`;
+}
+
+// --- Helper to Search Docs (fallback for diagram types without a local reference) ---
 async function searchMermaidDocs(diagramType: string): Promise<{ content?: string; error?: string }> {
     if (!exa) { return { error: "Exa client not initialized (API key missing)." }; }
     const searchQuery = `Mermaid.js ${diagramType} syntax documentation examples`;
@@ -80,7 +109,8 @@ async function searchMermaidDocs(diagramType: string): Promise<{ content?: strin
 async function evaluateGeneratedCode(
     originalQuery: string,
     generatedCode: string,
-    docContext: string
+    docContext: string,
+    dataset?: Dataset
 ): Promise<{ isApproved: boolean; feedback: string }> {
     console.log("Evaluating generated code with LLM...");
     try {
@@ -91,6 +121,7 @@ Focus ONLY on these points:
 2.  Are ALL the elements (nodes, participants, tasks, data points, etc.) mentioned in the original query present in the code?
 3.  Does the code include ANY elements NOT mentioned in the original query (hallucinations)?
 4.  Are the relationships/links between elements correct as per the query?
+${dataset ? '5.  Does EVERY data point (label and value) in the code match the provided dataset exactly? Reject any value that is not in the dataset, differs from it, or is missing.' : ''}
 
 ${docContext ? 'Refer to the provided documentation context if helpful for syntax rules related to the query.' : ''}
 
@@ -102,6 +133,9 @@ Otherwise, respond with specific, actionable feedback explaining EXACTLY what is
         if (docContext) {
             prompt += 'Documentation Context:\n' + docContext + '\n------\n';
         }
+        if (dataset) {
+            prompt += 'Dataset (the only valid data points):\n' + formatDataset(dataset) + '\n------\n';
+        }
         prompt += 'Generated Mermaid Code to Evaluate:\n';
         prompt += '--- START CODE ---\n';
         prompt += generatedCode;
@@ -130,163 +164,219 @@ Otherwise, respond with specific, actionable feedback explaining EXACTLY what is
     }
 }
 
-export const analystTool = tool({
-    description: `Generates VALIDATED Mermaid.js diagram code based on a detailed query.
-                  Searches documentation, generates code, and uses an LLM evaluator to check for correctness and hallucinations.
-                  Uses an optimizer loop to attempt fixes based on evaluator feedback.
-                  Outputs the validated Mermaid code string or an error.`, // Updated description
-    parameters: analystToolInputSchema,
-    execute: async ({ query }) => {
-        console.log(`Analyst Tool executing for query: ${query}`);
-        let currentMermaidCode = '';
-        let lastFeedback = 'No feedback yet.'; // Use 'lastFeedback' instead of 'lastError' for clarity
-        let attempts = 0;
-        const MAX_ATTEMPTS = 3; // Restore max attempts
-        let docLookupError: string | undefined = undefined;
-        let documentationContext = '';
-
-        // --- Documentation Lookup Step (Restored) ---
-        const diagramType = extractDiagramType(query);
-        if (diagramType) {
-            const docResult = await searchMermaidDocs(diagramType);
-            if (docResult.content) {
-                documentationContext = `Relevant Mermaid.js ${diagramType} Documentation:\n${docResult.content}\n------\n`;
-            } else {
-                docLookupError = docResult.error;
-                console.warn(`Documentation lookup failed: ${docLookupError}`);
-            }
+// Default number of generate-evaluate attempts; the execution budget may lower it
+export const MAX_ANALYST_ATTEMPTS = 3;
+
+// --- Separate Exported Execution Logic (also used by the plan executor) ---
+export async function executeAnalyst(
+    { query, dataset, chartType, seriesKind }: z.infer<typeof analystToolInputSchema>,
+    maxAttempts: number = MAX_ANALYST_ATTEMPTS
+): Promise<AnalystToolResult> {
+    console.log(`Analyst Tool executing for query: ${query}`);
+
+    // --- Data-Driven Step: charts with a dataset are built from it directly, no numbers come from an LLM ---
+    const dataChartType = dataset ? chartType ?? toDataChartType(extractDiagramType(query)) : undefined;
+    if (dataset && dataChartType) {
+        const chart = datasetToMermaid(dataset, dataChartType, seriesKind);
+        if ('error' in chart) {
+            console.warn(`Dataset does not fit a ${dataChartType} chart: ${chart.error}`);
+            return { mermaidCode: undefined, error: `Dataset does not fit a ${dataChartType} chart: ${chart.error}`, attempts: 0, dataset, dataDriven: true };
+        }
+        const parseResult = await parseMermaid(chart.code);
+        return parseResult.valid
+            ? { mermaidCode: chart.code, attempts: 0, dataset, dataDriven: true, parseValid: true, evaluationFeedback: 'Built from the dataset without an LLM.' }
+            : { mermaidCode: undefined, error: 'The chart built from the dataset does not parse.', attempts: 0, dataset, dataDriven: true, parseValid: false, parseError: parseResult.error };
+    }
+
+    let currentMermaidCode = '';
+    let lastFeedback = 'No feedback yet.'; // Use 'lastFeedback' instead of 'lastError' for clarity
+    let attempts = 0;
+    let parseValid: boolean | undefined = undefined;
+    let parseError: string | undefined = undefined;
+    const MAX_ATTEMPTS = Math.max(1, maxAttempts);
+    let docLookupError: string | undefined = undefined;
+    let docSource: 'local' | 'exa' | undefined = undefined;
+    let documentationContext = '';
+
+    // --- Documentation Lookup Step (bundled reference first, Exa only for types it does not cover) ---
+    const diagramType = extractDiagramType(query);
+    const localDocs = diagramType ? getLocalMermaidDocs(diagramType) : undefined;
+    if (localDocs) {
+        documentationContext = `Relevant Mermaid.js ${diagramType} Documentation:\n${localDocs}\n------\n`;
+        docSource = 'local';
+    } else if (diagramType) {
+        const docResult = await searchMermaidDocs(diagramType);
+        if (docResult.content) {
+            documentationContext = `Relevant Mermaid.js ${diagramType} Documentation:\n${docResult.content}\n------\n`;
+            docSource = 'exa';
         } else {
-            console.warn("Could not identify diagram type from query to search docs.");
+            docLookupError = docResult.error;
+            console.warn(`Documentation lookup failed: ${docLookupError}`);
         }
-        // --- End Documentation Lookup ---
-
-        while (attempts < MAX_ATTEMPTS) {
-            attempts++;
-            console.log(`Analyst Tool: Attempt #${attempts}`);
-
-            try {
-                // --- Generation Step ---
-                 const generatorSystemPrompt = `You are an AI assistant specialized in generating Mermaid.js code.
-                         Given a query describing a diagram, generate ONLY the corresponding Mermaid code block.
-                         ${attempts === 1 && documentationContext ? 'Use the provided documentation context to ensure correct syntax.' : ''}
-                         Ensure the syntax is correct for the specified diagram type.
-                         Do not include any explanatory text, markdown formatting (like \`\`\`mermaid), or anything other than the raw Mermaid code itself.
-                         ${attempts > 1 ? 'The previous attempt was rejected by the evaluator. Please fix the code based on the feedback.' : ''}
-                         EXAMPLES:
-                         Input Query: mermaid.js flowchart showing A pointing to B, B pointing to C, and C pointing back to A.
-                         Output Code:
-                         flowchart TD
-                             A --> B
-                             B --> C
-                             C --> A
-
-                         Input Query: mermaid.js sequenceDiagram where Alice sends "Hello" to Bob, and Bob replies "Hi Alice" back to Alice.
-                         Output Code:
-                         sequenceDiagram
-                             participant Alice
-                             participant Bob
-                             Alice->>Bob: Hello Bob!
-                             Bob-->>Alice: Hi Alice!
-
-                         Input Query: mermaid.js pie chart showing "Apples": 45, "Bananas": 25, "Cherries": 30.
-                         Output Code:
-                         pie
-                             title Fruit Distribution
-                             "Apples" : 45
-                             "Bananas" : 25
-                             "Cherries" : 30
-
-                         Input Query: mermaid.js xychart-beta showing "Sales": [10, 40, 20, 30] as a line chart with title "Sales Over Time".
-                         Output Code:
-                         xychart-beta
-                             title "Sales Over Time"
-                             x-axis [1, 2, 3, 4]
-                             y-axis "Sales" 0 --> 50
-                             line "Sales" [10, 40, 20, 30]
-
-                         Input Query: mermaid.js block diagram with 3 columns: block A, block B | C, block D. Link A->B, B->C, C->D.
-                         Output Code:
-                         block-beta
-                           columns 3
-                           A B D
-                           C
-                           A --> B
-                           B --> C
-                           C --> D
-
-                         Input Query: mermaid.js sankey diagram showing Energy [100] Heat Loss, Energy [80] Electricity.
-                         Output Code:
-                         sankey
-                             Energy [100] Heat Loss
-                             Energy [80] Electricity
-
-                         Input Query: mermaid.js architecture diagram with actor User, system WebApp, database UserDB. Link User->WebApp, WebApp->UserDB.
-                         Output Code:
-                         architecture
-                             actor User
-                             system WebApp
-                             database UserDB
-                             User -> WebApp : Uses
-                             WebApp -> UserDB : Reads/Writes
-                         `;
-
-                 const generatorPrompt = attempts === 1
-                    ? `${documentationContext}Generate the Mermaid code for the following request: ${query}`
-                    : `Evaluation Feedback: "${lastFeedback}".
+    } else {
+        console.warn("Could not identify diagram type from query to search docs.");
+    }
+    // --- End Documentation Lookup ---
+
+    // Data for diagram types without a data-driven builder; the evaluator checks the code against it
+    const datasetContext = dataset
+        ? `Dataset (use exactly these labels and values, and no others):\n${formatDataset(dataset)}\n------\n`
+        : '';
+
+    while (attempts < MAX_ATTEMPTS) {
+        attempts++;
+        console.log(`Analyst Tool: Attempt #${attempts}`);
+
+        try {
+            // --- Generation Step ---
+             const generatorSystemPrompt = `You are an AI assistant specialized in generating Mermaid.js code.
+                     Given a query describing a diagram, generate ONLY the corresponding Mermaid code block.
+                     ${attempts === 1 && documentationContext ? 'Use the provided documentation context to ensure correct syntax.' : ''}
+                     Ensure the syntax is correct for the specified diagram type.
+                     Do not include any explanatory text, markdown formatting (like \`\`\`mermaid), or anything other than the raw Mermaid code itself.
+                     ${attempts > 1 ? 'The previous attempt was rejected by the Mermaid parser or the evaluator. Please fix the code based on the feedback.' : ''}
+                     EXAMPLES:
+                     Input Query: mermaid.js flowchart showing A pointing to B, B pointing to C, and C pointing back to A.
+                     Output Code:
+                     flowchart TD
+                         A --> B
+                         B --> C
+                         C --> A
+
+                     Input Query: mermaid.js sequenceDiagram where Alice sends "Hello" to Bob, and Bob replies "Hi Alice" back to Alice.
+                     Output Code:
+                     sequenceDiagram
+                         participant Alice
+                         participant Bob
+                         Alice->>Bob: Hello Bob!
+                         Bob-->>Alice: Hi Alice!
+
+                     Input Query: mermaid.js pie chart showing "Apples": 45, "Bananas": 25, "Cherries": 30.
+                     Output Code:
+                     pie
+                         title Fruit Distribution
+                         "Apples" : 45
+                         "Bananas" : 25
+                         "Cherries" : 30
+
+                     Input Query: mermaid.js xychart-beta showing "Sales": [10, 40, 20, 30] as a line chart with title "Sales Over Time".
+                     Output Code:
+                     xychart-beta
+                         title "Sales Over Time"
+                         x-axis [1, 2, 3, 4]
+                         y-axis "Sales" 0 --> 50
+                         line "Sales" [10, 40, 20, 30]
+
+                     Input Query: mermaid.js block diagram with 3 columns: block A, block B | C, block D. Link A->B, B->C, C->D.
+                     Output Code:
+                     block-beta
+                       columns 3
+                       A B D
+                       C
+                       A --> B
+                       B --> C
+                       C --> D
+
+                     Input Query: mermaid.js sankey diagram showing Energy 100 to Heat Loss, Energy 80 to Electricity.
+                     Output Code:
+                     sankey-beta
+                         Energy,Heat Loss,100
+                         Energy,Electricity,80
+
+                     Input Query: mermaid.js architecture diagram with internet service WebApp and database UserDB. Link WebApp->UserDB.
+                     Output Code:
+                     architecture-beta
+                         service webapp(internet)[WebApp]
+                         service userdb(database)[UserDB]
+                         webapp:R --> L:userdb
+                     `;
+
+             const generatorPrompt = attempts === 1
+                ? `${documentationContext}${datasetContext}Generate the Mermaid code for the following request: ${query}`
+                : parseValid === false
+                ? `The previous code does not parse. Mermaid parser error:
+${parseError}
+Please regenerate the Mermaid code with valid syntax, keeping the content of the original request.
+${datasetContext}Original Request: ${query}
+Previous Incorrect Code:
+${currentMermaidCode}`
+                : `Evaluation Feedback: "${lastFeedback}".
 Please regenerate the Mermaid code, fixing the issues mentioned in the feedback based on the original request.
-Original Request: ${query}
+${datasetContext}Original Request: ${query}
 Previous Incorrect Code:
 ${currentMermaidCode}`;
 
-                const { text: generatedText } = await generateText({
-                    model: diagramGeneratorLlm,
-                    system: generatorSystemPrompt,
-                    prompt: generatorPrompt,
-                    temperature: 0.1 + (attempts * 0.1),
-                    
-                });
-
-                // --- Code Cleaning Step ---
-                let cleanedCode = generatedText?.trim() || '';
-                 if (cleanedCode.startsWith('```mermaid')) { cleanedCode = cleanedCode.substring(10); }
-                 if (cleanedCode.endsWith('```')) { cleanedCode = cleanedCode.substring(0, cleanedCode.length - 3); }
-                 currentMermaidCode = cleanedCode.trim();
-
-                if (currentMermaidCode === '') {
-                    lastFeedback = "LLM returned empty content after cleaning.";
-                    console.warn("Mermaid code empty after cleaning fences.");
-                    continue; // Try again if attempts remain
-                }
-                console.log(`Attempt #${attempts} Generated Code:\n${currentMermaidCode}`);
-
-                // --- Evaluation Step ---
-                const evaluationResult = await evaluateGeneratedCode(query, currentMermaidCode, documentationContext);
-
-                if (evaluationResult.isApproved) {
-                    console.log(`Code approved by evaluator after ${attempts} attempts.`);
-                    return { mermaidCode: currentMermaidCode, error: undefined, attempts, docLookupError, evaluationFeedback: evaluationResult.feedback };
-                } else {
-                    lastFeedback = evaluationResult.feedback; // Store feedback for next attempt
-                    console.warn(`Attempt #${attempts} rejected by evaluator. Feedback: ${lastFeedback}`);
-                    // Loop will continue if attempts < MAX_ATTEMPTS
-                }
-
-            } catch (error: unknown) {
-                // Catch errors during the generateText call itself
-                let errorMessage = 'An unknown error occurred during LLM generation.';
-                if (error instanceof Error) { errorMessage = error.message; }
-                console.error("Error during generateText call:", error);
-                // Use specific feedback if generation itself failed
-                lastFeedback = `Generation Error: ${errorMessage}`;
-                // If generation fails catastrophically, maybe exit loop early? Or let it retry? For now, continue loop.
-                 if (attempts >= MAX_ATTEMPTS) {
-                    return { mermaidCode: undefined, error: `Generation failed on final attempt: ${errorMessage}`, attempts, docLookupError, evaluationFeedback: lastFeedback };
-                 }
+            const { text: generatedText } = await generateText({
+                model: diagramGeneratorLlm,
+                system: generatorSystemPrompt,
+                prompt: generatorPrompt,
+                temperature: 0.1 + (attempts * 0.1),
+                
+            });
+
+            // --- Code Cleaning Step ---
+            let cleanedCode = generatedText?.trim() || '';
+             if (cleanedCode.startsWith('```mermaid')) { cleanedCode = cleanedCode.substring(10); }
+             if (cleanedCode.endsWith('```')) { cleanedCode = cleanedCode.substring(0, cleanedCode.length - 3); }
+             currentMermaidCode = cleanedCode.trim();
+
+            if (currentMermaidCode === '') {
+                lastFeedback = "LLM returned empty content after cleaning.";
+                parseValid = undefined;
+                parseError = undefined;
+                console.warn("Mermaid code empty after cleaning fences.");
+                continue; // Try again if attempts remain
+            }
+            console.log(`Attempt #${attempts} Generated Code:\n${currentMermaidCode}`);
+
+            // --- Parse Step (deterministic; code that does not parse is not sent to the evaluator) ---
+            const parseResult = await parseMermaid(currentMermaidCode);
+            parseValid = parseResult.valid;
+            parseError = parseResult.valid ? undefined : parseResult.error;
+            if (!parseResult.valid) {
+                lastFeedback = `Mermaid parse error: ${parseResult.error}`;
+                console.warn(`Attempt #${attempts} failed to parse: ${parseResult.error}`);
+                continue; // Try again if attempts remain
             }
-        } // End while loop
 
-        // If loop finishes without approval
-        console.error(`Failed to generate approved Mermaid code after ${MAX_ATTEMPTS} attempts. Last Feedback: ${lastFeedback}`);
-        return { mermaidCode: undefined, error: `Failed to get approved code after ${MAX_ATTEMPTS} attempts.`, attempts, docLookupError, evaluationFeedback: lastFeedback };
-    }
+            // --- Evaluation Step ---
+            const evaluationResult = await evaluateGeneratedCode(query, currentMermaidCode, documentationContext, dataset);
+
+            if (evaluationResult.isApproved) {
+                console.log(`Code approved by evaluator after ${attempts} attempts.`);
+                return { mermaidCode: currentMermaidCode, error: undefined, attempts, docLookupError, docSource, dataset, evaluationFeedback: evaluationResult.feedback, parseValid, parseError };
+            } else {
+                lastFeedback = evaluationResult.feedback; // Store feedback for next attempt
+                console.warn(`Attempt #${attempts} rejected by evaluator. Feedback: ${lastFeedback}`);
+                // Loop will continue if attempts < MAX_ATTEMPTS
+            }
+
+        } catch (error: unknown) {
+            // Catch errors during the generateText call itself
+            let errorMessage = 'An unknown error occurred during LLM generation.';
+            if (error instanceof Error) { errorMessage = error.message; }
+            console.error("Error during generateText call:", error);
+            // Use specific feedback if generation itself failed
+            lastFeedback = `Generation Error: ${errorMessage}`;
+            // If generation fails catastrophically, maybe exit loop early? Or let it retry? For now, continue loop.
+             if (attempts >= MAX_ATTEMPTS) {
+                return { mermaidCode: undefined, error: `Generation failed on final attempt: ${errorMessage}`, attempts, docLookupError, docSource, dataset, evaluationFeedback: lastFeedback, parseValid, parseError };
+             }
+        }
+    } // End while loop
+
+    // If loop finishes without approval
+    console.error(`Failed to generate approved Mermaid code after ${MAX_ATTEMPTS} attempts. Last Feedback: ${lastFeedback}`);
+    const reason = parseValid === false ? 'valid Mermaid syntax' : 'approved code';
+    return { mermaidCode: undefined, error: `Failed to get ${reason} after ${MAX_ATTEMPTS} attempts.`, attempts, docLookupError, docSource, dataset, evaluationFeedback: lastFeedback, parseValid, parseError };
+}
+
+export const analystTool = tool({
+    description: `Generates VALIDATED Mermaid.js diagram code based on a detailed query.
+                  With a 'dataset', xychart, pie, sankey and gantt charts are built directly from the data; other diagrams are checked against it.
+                  Uses a bundled syntax reference (web documentation search as fallback), generates code, checks it with Mermaid's parser, and uses an LLM evaluator to check for correctness and hallucinations.
+                  Uses an optimizer loop to attempt fixes based on evaluator feedback.
+                  Outputs the validated Mermaid code string or an error.`, // Updated description
+    parameters: analystToolInputSchema,
+    execute: async (args) => executeAnalyst(args),
 }); 
\ No newline at end of file
@@ -1,7 +1,7 @@
 import { z } from 'zod';
 import { tool } from 'ai';
-import { openai } from '@ai-sdk/openai';
 import { generateObject } from 'ai';
+import { getModel } from '@/app/utils/modelRegistry';
 console.log('askPossibilityTool');
 // Define the schema for the expected response from the LLM
 const possibilitySchema = z.object({
@@ -101,7 +101,7 @@ export const askPossibilityTool = tool({
   }),
   
   execute: async ({ taskDescription, contextText }) => {
-    const gpt4o = openai('gpt-4o');
+    const possibilityLlm = getModel('possibility');
     
     // Create system capabilities description based on available tools
     const systemCapabilities = availableTools
@@ -140,7 +140,7 @@ export const askPossibilityTool = tool({
 
     try {
       const { object: possibilityResult } = await generateObject({
-        model: gpt4o,
+        model: possibilityLlm,
         schema: possibilitySchema,
         prompt: systemPrompt,
       });
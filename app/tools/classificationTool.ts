@@ -1,41 +1,59 @@
 import { z } from 'zod';
 import { tool } from 'ai';
-import { openai } from '@ai-sdk/openai';
 import { generateObject } from 'ai';
+import { getModel } from '@/app/utils/modelRegistry';
+import { complexityGuidelines, COMPLEXITY_LEVELS } from '@/app/data/complexity_guidelines';
+import { taskTypeGuidelines, TASK_TYPES } from '@/app/data/task_types';
 
-export const classificationTool = tool({
-  description: 'Classify the user query based on type and complexity.',
-  parameters: z.object({
-    userQuery: z.string().describe("The user's message content to classify."),
-  }),
-  execute: async ({ userQuery }) => {
-    const gpt4o = openai('gpt-4o'); // Or use a specific model for classification
-    try {
-      const { object: classification } = await generateObject({
-        model: gpt4o,
-        schema: z.object({
-          reasoning: z.string().describe('Brief reasoning for the classification.'),
-          complexity: z.enum([
-            'CRITICAL_COMPLEXITY',
-            'HIGH_COMPLEXITY',
-            'MODERATE_COMPLEXITY',
-            'LOW_COMPLEXITY',
-            'MINIMAL_COMPLEXITY',
-            'TRIVIAL'
-          ]).describe('The estimated complexity of the user query.'),
-        }),
-        prompt: `Classify the following user query: "${userQuery}"
+const classificationInputSchema = z.object({
+  userQuery: z.string().describe("The user's message content to classify."),
+});
+
+const classificationSchema = z.object({
+  type: z.enum(TASK_TYPES).describe('The task type whose description fits the query best.'),
+  matchedCriteria: z.array(z.string()).describe('Criteria from the complexity guidelines that apply to the query, copied as written.'),
+  reasoning: z.string().describe('Brief reasoning for the classification, referring to the matched criteria.'),
+  complexity: z.enum(COMPLEXITY_LEVELS).describe('The complexity level whose criteria fit the query best.'),
+});
+
+export type Classification = z.infer<typeof classificationSchema>;
+
+export type ClassificationToolResult =
+  | { success: true; classification: Classification }
+  | { success: false; error: string };
+
+// --- Separate Exported Execution Logic (route.ts applies the execution budget and the task route of the result) ---
+export async function executeClassification({ userQuery }: z.infer<typeof classificationInputSchema>): Promise<ClassificationToolResult> {
+  const classifierLlm = getModel('classifier');
+  try {
+    const { object: classification } = await generateObject({
+      model: classifierLlm,
+      schema: classificationSchema,
+      prompt: `Classify the following user query: "${userQuery}"
+
+        Task types:
+        ${taskTypeGuidelines}
+
+        Score the query against these complexity guidelines:
+        ${complexityGuidelines}
 
         Determine:
-        1. Complexity level (CRITICAL_COMPLEXITY, HIGH_COMPLEXITY, MODERATE_COMPLEXITY, LOW_COMPLEXITY, MINIMAL_COMPLEXITY, TRIVIAL)
-        2. Provide brief reasoning for your classification.`,
-      });
-      console.log('Classification result:', classification);
-      // Return the classification object
-      return { success: true, classification };
-    } catch (error) {
-      console.error('Error during classification:', error);
-      return { success: false, error: 'Failed to classify query.' };
-    }
-  },
-}); 
\ No newline at end of file
+        1. Task type (${TASK_TYPES.join(', ')}): the type whose description fits best. A chart that needs data from the web or from documents first is RESEARCH or DOCUMENT_QA, not DATA_VISUALIZATION.
+        2. Which criteria of the complexity guidelines apply to the query (copy them as written)
+        3. Complexity level (${COMPLEXITY_LEVELS.join(', ')}): the level whose criteria match best. When criteria of several levels apply, choose the highest of them.
+        4. Provide brief reasoning for your classification.`,
+    });
+    console.log('Classification result:', classification);
+    // Return the classification object
+    return { success: true, classification };
+  } catch (error) {
+    console.error('Error during classification:', error);
+    return { success: false, error: 'Failed to classify query.' };
+  }
+}
+
+export const classificationTool = tool({
+  description: 'Classify the user query based on type and complexity.',
+  parameters: classificationInputSchema,
+  execute: async (args) => executeClassification(args),
+});
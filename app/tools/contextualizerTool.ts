@@ -1,14 +1,10 @@
 import { tool, generateText } from 'ai';
 import { z } from 'zod';
-import { google } from '@ai-sdk/google';
-// Define the structure for the ExtractedFile expected from local storage
-export interface ExtractedFile {
-  fileName: string;
-  fileType: string;
-  fileSize: number;
-  text: string;
-  extractedAt: number;
-}
+import { getModel } from '@/app/utils/modelRegistry';
+import { loadDocuments, type DocumentSource } from '@/app/utils/documentStore';
+import { searchDocuments } from '@/app/utils/documentIndex';
+// The document shape is owned by the server-side document store
+export type { ExtractedFile } from '@/app/utils/documentStore';
 
 // Define the input schema
 const contextualizerInputSchema = z.object({
@@ -19,16 +15,30 @@ const contextualizerInputSchema = z.object({
 export type ContextualizerResult = z.infer<z.ZodObject<{
     query: z.ZodString;
     foundContext: z.ZodString; 
+    // Retrieved chunks the answer was drawn from, numbered [S1], [S2], ... in foundContext
+    sources: z.ZodArray<z.ZodObject<{
+        documentId: z.ZodString; // Content-based ID of the document version, stable across re-uploads
+        fileName: z.ZodString;
+        version: z.ZodNumber;
+        chunkIndex: z.ZodNumber;
+        start: z.ZodNumber; // Character offsets in the document text
+        end: z.ZodNumber;
+        location: z.ZodOptional<z.ZodString>; // Page, slide, chapter or section, when the file has structure
+        score: z.ZodNumber;
+    }>>;
     error: z.ZodOptional<z.ZodString>;
 }>>;
 
+// Number of retrieved chunks sent to the LLM per query
+const CONTEXT_TOP_K = 8;
+
 // --- LLM Instance for Context Search ---
-const contextSearchLlm = google('gemini-2.5-pro-preview-03-25');
+const contextSearchLlm = getModel('contextSearch');
 
 // --- Separate Exported Execution Logic --- 
 export async function executeContextualizer(
     args: z.infer<typeof contextualizerInputSchema>,
-    localContext: Record<string, ExtractedFile> // Receive the context map
+    source: DocumentSource // Which stored documents to search
 ): Promise<ContextualizerResult> {
     const { query } = args;
     console.log(`Contextualizer Tool executing LLM search in provided context for query: "${query}"`);
@@ -38,39 +48,65 @@ export async function executeContextualizer(
         return {
             query: query,
             foundContext: "Search not performed: Query was too short or vague.",
+            sources: [],
             error: "Query too vague for search."
         };
     }
 
-    const files = Object.values(localContext);
-    if (!files || files.length === 0) {
-        console.warn("Contextualizer search: No local context provided.");
-        return {
-            query: query,
-            foundContext: "Search not performed: No local file context was provided with the request.",
-            error: "No local context available."
-        };
-    }
-
     // --- LLM Search Logic --- 
     try {
-        // Concatenate file content with markers
-        const contextText = files.map(file => 
-            `--- START FILE: ${file.fileName} ---\n${file.text}
---- END FILE: ${file.fileName} ---`
+        const files = Object.values(await loadDocuments(source));
+        if (files.length === 0) {
+            console.warn("Contextualizer search: No stored documents available.");
+            return {
+                query: query,
+                foundContext: "Search not performed: The user has no stored documents.",
+                sources: [],
+                error: "No local context available."
+            };
+        }
+
+        // Retrieve only the most relevant chunks instead of sending every file
+        const chunks = await searchDocuments(source.namespace, files, query, CONTEXT_TOP_K);
+        if (chunks.length === 0) {
+            console.warn("Contextualizer search: No chunks matched the query.");
+            return {
+                query: query,
+                foundContext: "No passages in the stored documents matched the query.",
+                sources: [],
+                error: undefined,
+            };
+        }
+        const versions = new Map(files.map(file => [file.id, file.version]));
+        const sources = chunks.map(chunk => ({
+            documentId: chunk.documentId,
+            fileName: chunk.fileName,
+            version: versions.get(chunk.documentId) ?? 1,
+            chunkIndex: chunk.index,
+            start: chunk.start,
+            end: chunk.end,
+            location: chunk.location,
+            score: chunk.score,
+        }));
+
+        // Label each chunk so the LLM can cite it; the document ID pins the citation to this version of the file
+        const contextText = chunks.map((chunk, index) => 
+            `--- START [S${index + 1}] ${chunk.fileName} v${sources[index].version} (document ${chunk.documentId})${chunk.location ? `, ${chunk.location}` : ''} (chars ${chunk.start}-${chunk.end}) ---\n${chunk.text}
+--- END [S${index + 1}] ---`
         ).join('\n\n');
 
         // Prepare prompt for LLM
         const systemPrompt = `You are an AI assistant specialized in searching through provided text context based on a user query.
-Analyze the following text content, which consists of one or more files separated by markers.
+Analyze the following passages, retrieved from one or more files and labelled [S1], [S2], ...
 Find and extract the most relevant sentences or short paragraphs that directly answer or address the user's query.
-If multiple relevant snippets are found across different files, include them all, clearly indicating the source file for each.
+After each extracted snippet, cite its passage label, file name and version, plus the page, slide or section given in the passage header, e.g. "[S2] notes.pdf v2, page 12".
+Passages may come from different files with the same name; tell them apart by their document ID.
 If no relevant information is found, state that clearly.
 Do not summarize the entire content; only extract specific, relevant parts.`;
         
         const prompt = `User Query: "${query}"
 
-Provided File Context:
+Retrieved Passages:
 ${contextText}
 
 Relevant Snippets (or state if none found):
@@ -90,6 +126,7 @@ Relevant Snippets (or state if none found):
               return {
                 query: query,
                 foundContext: "The AI search assistant could not find relevant information for the query in the provided files.",
+                sources,
                 error: "LLM search returned empty."
              };
         }
@@ -99,6 +136,7 @@ Relevant Snippets (or state if none found):
         return {
             query: query,
             foundContext: foundContext.trim(),
+            sources,
             error: undefined,
         };
 
@@ -109,6 +147,7 @@ Relevant Snippets (or state if none found):
         return {
             query: query,
             foundContext: "An error occurred while searching the file context.",
+            sources: [],
             error: errorMessage
         };
     }
@@ -117,16 +156,19 @@ Relevant Snippets (or state if none found):
 
 // --- Tool Definition (uses the exported execute function indirectly via route.ts) --- 
 export const contextualizerTool = tool({
-    description: `Searches through locally stored user files (provided in the request context) for information based on a query.
-                  Returns relevant text snippets found.`, // Updated description
+    description: `Searches through the user's stored files (from the server-side document store) for information based on a query.
+                  Retrieves the most relevant chunks from an index and returns snippets with file names, pages/slides/sections and character offsets.`, // Updated description
     parameters: contextualizerInputSchema,
     // The actual execution is now handled by the inline definition in route.ts,
-    // which calls the exported executeContextualizer function.
-    // We can leave a dummy execute here or remove it if the inline definition is always used.
+    // which calls the exported executeContextualizer function with the user's namespace.
     execute: async (args) => {
         // This execute won't be called directly if overridden in route.ts
         console.warn("ContextualizerTool.execute called directly - should be called via route override with context.");
-        // Fallback simulation if called directly (shouldn't happen)
-        return executeContextualizer(args, {}); 
+        return {
+            query: args.query,
+            foundContext: "Search not performed: No document namespace was provided.",
+            sources: [],
+            error: "No local context available."
+        };
     }
 }); 
\ No newline at end of file
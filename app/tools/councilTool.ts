@@ -1,5 +1,7 @@
-import { openai } from '@ai-sdk/openai';
 import { generateObject, tool } from 'ai';
+import { getCouncilJudges } from '@/app/utils/modelRegistry';
+import { describeSourceCredibility } from '@/app/utils/sourceCredibility';
+import type { ResearchToolResult } from '@/app/tools/researchTool';
 import { z } from 'zod';
 
 // Define the schema for the council's evaluation INPUT
@@ -10,29 +12,125 @@ const councilInputSchema = z.object({
     conversationHistory: z.string().describe("A string representation of the complete conversation history leading up to the council evaluation."),
 });
 
+export type CouncilInput = z.infer<typeof councilInputSchema>;
+
+// Checks every judge performs, in the order used to pick the overall judgement
+export const COUNCIL_CHECKS = ['hallucination', 'verification', 'alignment'] as const;
+export type CouncilCheck = typeof COUNCIL_CHECKS[number];
+
+// How much of the voting weight must pass a check for the council to pass it
+export const COUNCIL_STRICTNESS = ['majority', 'supermajority', 'unanimous'] as const;
+export type CouncilStrictness = typeof COUNCIL_STRICTNESS[number];
+
+const STRICTNESS_RULES: Record<CouncilStrictness, (passShare: number) => boolean> = {
+    majority: passShare => passShare > 1 / 2, // Ties fail the check
+    supermajority: passShare => passShare >= 2 / 3,
+    unanimous: passShare => passShare === 1,
+};
+
+// Judgement reported when a check fails
+const CHECK_FAILURE_JUDGEMENT = {
+    hallucination: 'hallucination',
+    verification: 'not_verified',
+    alignment: 'not_aligned',
+} as const;
+
+// A single judge's verdict on one check
+const checkVerdictSchema = z.object({
+    passed: z.boolean().describe("Whether the response passes this check."),
+    score: z.number().describe("Confidence from 0 to 1 that the response passes this check (1 = certainly passes)."),
+    explanation: z.string().describe("Short reasoning for this check."),
+});
+
+// The structured response each judge model returns
+const judgeOutputSchema = z.object({
+    hallucination: checkVerdictSchema.describe("Does the response make up facts, cite non-existent sources, or misrepresent the context?"),
+    verification: checkVerdictSchema.describe("Are claims, code references, library usages, function calls, etc. accurate?"),
+    alignment: checkVerdictSchema.describe("Does the response directly address the user's query and intent?"),
+});
+
+// Aggregated result of one check over all judges (weighted vote)
+const aggregatedCheckSchema = z.object({
+    passed: z.boolean(),
+    score: z.number().describe("Weighted mean of the judges' scores."),
+    passWeight: z.number().describe("Total voting weight of judges that passed the check."),
+    failWeight: z.number().describe("Total voting weight of judges that failed the check."),
+    agreement: z.number().describe("Share of the voting weight on the winning side (1 = unanimous)."),
+    disagreement: z.boolean().describe("True if the judges did not vote unanimously."),
+});
+
 // Define the schema for the council's evaluation OUTPUT
-// This describes the structured response the council tool (and gpt-4o-mini) will return
+// This describes the structured response the council tool returns after aggregating the judges
 // Export this schema so MessageList can import it or its inferred type
 export const councilOutputSchema = z.object({
     judgement: z.enum(["passed", "hallucination", "not_verified", "not_aligned", "error"])
                  .describe("Overall judgement based on checks: 'passed' if all checks ok, otherwise the category of the first failure (hallucination, not_verified, not_aligned), or 'error' if evaluation failed."),
     explanation: z.string()
                    .describe("Detailed explanation combining insights from hallucination, verification, and alignment checks. Explain the reasoning for the judgement."),
+    disagreement: z.boolean().optional().describe("True if the judges disagreed on any check."),
+    strictness: z.enum(COUNCIL_STRICTNESS).optional().describe("Voting rule the checks were decided with."),
+    checks: z.object({
+        hallucination: aggregatedCheckSchema,
+        verification: aggregatedCheckSchema,
+        alignment: aggregatedCheckSchema,
+    }).optional(),
+    judges: z.array(z.object({
+        model: z.string(),
+        weight: z.number(),
+        status: z.enum(['ok', 'error']),
+        verdict: judgeOutputSchema.optional(),
+        error: z.string().optional(),
+    })).optional(),
 });
 
 // Define the type based on the schema for easier use elsewhere (like MessageList)
 export type CouncilResult = z.infer<typeof councilOutputSchema>;
+type JudgeResult = NonNullable<CouncilResult['judges']>[number];
+type AggregatedCheck = z.infer<typeof aggregatedCheckSchema>;
+
+// Weighted vote over the judges that returned a verdict, decided by the strictness rule
+function aggregateCheck(judges: JudgeResult[], check: CouncilCheck, strictness: CouncilStrictness): AggregatedCheck {
+    let passWeight = 0, failWeight = 0, scoreSum = 0;
+    for (const judge of judges) {
+        const verdict = judge.verdict![check];
+        if (verdict.passed) passWeight += judge.weight;
+        else failWeight += judge.weight;
+        scoreSum += Math.min(1, Math.max(0, verdict.score)) * judge.weight;
+    }
+    const totalWeight = passWeight + failWeight;
+    return {
+        passed: STRICTNESS_RULES[strictness](passWeight / totalWeight),
+        score: scoreSum / totalWeight,
+        passWeight,
+        failWeight,
+        agreement: Math.max(passWeight, failWeight) / totalWeight,
+        disagreement: passWeight > 0 && failWeight > 0,
+    };
+}
 
+// Credibility of the web sources behind the results, so 'not_verified' judgements rest on source quality
+function formatSourceCredibility(sources: ResearchToolResult[number]['results']): string {
+    const rated = sources.filter(source => source.credibility).sort((a, b) => b.credibility!.score - a.credibility!.score);
+    if (rated.length === 0) return '';
+    return `
+Web Source Credibility (score 0-1 from the domain policy, site type, recency and agreement between independent sources):
+${rated.map(source => `- ${describeSourceCredibility(source)}`).join('\n')}
+`;
+}
 
-// Define the actual execution logic for the council tool
-async function executeCouncil(args: z.infer<typeof councilInputSchema>): Promise<CouncilResult> {
+// Define the actual execution logic for the council tool (also used by the remediation loop)
+export async function executeCouncil(
+    args: CouncilInput,
+    strictness: CouncilStrictness = 'majority',
+    sources: ResearchToolResult[number]['results'] = [] // Web results of the turn with their credibility
+): Promise<CouncilResult> {
     console.log("Council Tool executing with args:", args);
-    const councilLlm = openai('gpt-4o-mini'); // Use the specified OpenAI model
+    const judgeModels = getCouncilJudges(); // Configured in the model registry
+    const sourceCredibility = formatSourceCredibility(sources);
 
-    try {
-        // Construct the prompt for the council LLM
-        const councilPrompt = `
-You are an evaluation council. Your task is to assess an AI response based on the provided context. Evaluate for hallucination, verification, and alignment. Provide a final judgement ('passed', 'hallucination', 'not_verified', 'not_aligned') and a combined explanation.
+    // Construct the prompt shared by all judges
+    const judgePrompt = `
+You are one judge of an evaluation council. Your task is to assess an AI response based on the provided context. Other judges evaluate the same response independently; do not hedge, give your own verdict.
 
 Conversation History:
 ${args.conversationHistory}
@@ -42,42 +140,75 @@ ${args.userQuery}
 
 Aggregated Tool Results / Proposed Response Content:
 ${args.aggregatedToolResults}
-
-Based on the above, perform the following checks:
+${sourceCredibility}
+Based on the above, perform the following checks separately:
 1.  **Hallucination Check:** Does the response make up facts, cite non-existent sources, or misrepresent the context?
-2.  **Verification Check:** Are claims, code references, library usages, function calls, etc., accurate based on the history and established facts?
+2.  **Verification Check:** Are claims, code references, library usages, function calls, etc., accurate based on the history and established facts?${sourceCredibility ? `
+    Weigh web claims by the credibility of their sources: a claim that rests only on low-credibility sources is not verified; claims backed by high-credibility sources, or by several independent sources that agree, are. Name the sources that decided this check in its explanation.` : ''}
 3.  **Alignment Check:** Does the response directly address the user's query and intent as expressed in the conversation history?
 
-Generate a JSON object matching the required schema with 'judgement' and 'explanation' fields.
+For each check, generate 'passed', a 'score' between 0 and 1, and a short 'explanation', as a JSON object matching the required schema.
 `;
 
-        // Use generateObject instead of generateText
-        const { object: evaluation } = await generateObject({
-            model: councilLlm,
-            prompt: councilPrompt,
-            schema: councilOutputSchema, // Pass the Zod schema directly
-        });
-
-        // Log the parsed object directly (no need for intermediate logging if generateObject succeeds)
-        console.log("Council Tool evaluation result (parsed object):", evaluation);
-
-        // generateObject throws if parsing fails, so if we reach here, evaluation is valid
-        return evaluation;
-
-    } catch (error) {
-         // Log the specific error caught
-         console.error("Error caught during council tool execution (generateObject):", error);
-         // Return an error object conforming to the output schema
-         return {
+    // Judges run independently and in parallel; a failing judge does not fail the council
+    const judges: JudgeResult[] = await Promise.all(judgeModels.map(async (judge): Promise<JudgeResult> => {
+        try {
+            const { object: verdict } = await generateObject({
+                model: judge.model,
+                prompt: judgePrompt,
+                schema: judgeOutputSchema,
+            });
+            console.log(`Council judge ${judge.id} verdict:`, verdict);
+            return { model: judge.id, weight: judge.weight, status: 'ok', verdict };
+        } catch (error) {
+            console.error(`Error caught during council judge ${judge.id} evaluation (generateObject):`, error);
+            return { model: judge.id, weight: judge.weight, status: 'error', error: error instanceof Error ? error.message : String(error) };
+        }
+    }));
+
+    const votingJudges = judges.filter(judge => judge.status === 'ok');
+    if (votingJudges.length === 0) {
+        // Return an error object conforming to the output schema
+        return {
             judgement: "error",
-            explanation: `Council evaluation failed with exception: ${error instanceof Error ? error.message : String(error)}`,
-         };
+            explanation: `Council evaluation failed: no judge returned a verdict. ${judges.map(judge => `${judge.model}: ${judge.error}`).join('; ')}`,
+            judges,
+        };
     }
+
+    const checks = {
+        hallucination: aggregateCheck(votingJudges, 'hallucination', strictness),
+        verification: aggregateCheck(votingJudges, 'verification', strictness),
+        alignment: aggregateCheck(votingJudges, 'alignment', strictness),
+    };
+    const failedCheck = COUNCIL_CHECKS.find(check => !checks[check].passed);
+    const disagreement = COUNCIL_CHECKS.some(check => checks[check].disagreement);
+
+    // Combine the judges' reasoning per check, marking each judge's vote
+    const explanation = [
+        `${votingJudges.length} of ${judges.length} judges voted (${strictness} rule)${disagreement ? ', judges disagreed' : ''}.`,
+        ...COUNCIL_CHECKS.map(check => [
+            `${check}: ${checks[check].passed ? 'passed' : 'failed'} (score ${checks[check].score.toFixed(2)}, agreement ${Math.round(checks[check].agreement * 100)}%)`,
+            ...votingJudges.map(judge => `  - ${judge.model} [${judge.verdict![check].passed ? 'pass' : 'fail'}]: ${judge.verdict![check].explanation}`),
+        ].join('\n')),
+    ].join('\n\n');
+
+    const result: CouncilResult = {
+        judgement: failedCheck ? CHECK_FAILURE_JUDGEMENT[failedCheck] : 'passed',
+        explanation,
+        disagreement,
+        strictness,
+        checks,
+        judges,
+    };
+    console.log("Council Tool evaluation result (aggregated):", { judgement: result.judgement, disagreement, checks });
+    return result;
 }
 
 // Define the council tool using the Vercel AI SDK
 export const councilTool = tool({
-    description: "Evaluates aggregated tool results against conversation history and user query for hallucination, verification, and alignment using a separate AI model ('gpt-4o-mini'). Requires aggregated results, user query, and history as input.",
+    description: "Evaluates aggregated tool results against conversation history and user query for hallucination, verification, and alignment using a council of independent AI judges (configured in the model registry) whose per-check votes are aggregated by weighted majority. Requires aggregated results, user query, and history as input.",
     parameters: councilInputSchema, // Input schema defined above
-    execute: executeCouncil,        // The execution function defined above
+    // route.ts overrides this inline to add the revise-and-retry loop (app/utils/councilRemediation.ts)
+    execute: async (args) => executeCouncil(args), // The execution function defined above
 }); 
\ No newline at end of file
@@ -0,0 +1,146 @@
+import { tool, generateObject } from 'ai';
+import { z } from 'zod';
+import { getModel } from '@/app/utils/modelRegistry';
+import { loadDocuments, type DocumentSource, type ExtractedFile } from '@/app/utils/documentStore';
+import { runTableQuery, tableQuerySchema } from '@/app/utils/tableQuery';
+import type { CellValue, DocumentTable, TableColumn } from '@/app/utils/spreadsheet';
+import type { Dataset } from '@/app/utils/datasetCharts';
+
+// Define the input schema
+const dataAnalysisInputSchema = z.object({
+    file: z.string().optional().describe('File name (or document ID) of the uploaded spreadsheet. May be omitted if only one is uploaded.'),
+    sheet: z.string().optional().describe('Sheet name. May be omitted if the file has only one sheet.'),
+    query: tableQuerySchema.describe('Filters, group-bys and aggregations to run over the sheet.'),
+});
+
+export type DataAnalysisInput = z.infer<typeof dataAnalysisInputSchema>;
+
+export interface DataAnalysisResult {
+    file?: string;
+    sheet?: string;
+    columns?: TableColumn[];
+    rows?: CellValue[][];
+    matchedRows?: number; // Rows of the sheet that passed the filters
+    totalRows?: number; // Result rows before the limit
+    dataset?: Dataset; // The result in the form the analyst builds charts from
+    availableTables?: string; // Schemas of the stored tables, listed when the requested one was not found
+    error?: string;
+}
+
+// Sample rows shown to the model that turns a plan agent's request into a query
+const SAMPLE_ROWS = 3;
+
+interface StoredTable {
+    document: ExtractedFile;
+    table: DocumentTable;
+}
+
+const storedTables = (files: ExtractedFile[]): StoredTable[] =>
+    files.flatMap(document => (document.tables ?? []).map(table => ({ document, table })));
+
+/**
+ * One line per stored table: file, sheet, typed columns and row count
+ */
+const describeTables = (tables: StoredTable[], withSamples = false): string =>
+    tables.map(({ document, table }) => {
+        const line = `${document.fileName} / sheet "${table.name}" (${table.rows.length} rows): ${table.columns.map(column => `${column.name} (${column.type})`).join(', ')}`;
+        if (!withSamples) return line;
+        const samples = table.rows.slice(0, SAMPLE_ROWS).map(row => `    ${row.map(value => value ?? '').join(' | ')}`);
+        return [line, ...samples].join('\n');
+    }).join('\n');
+
+/**
+ * Find the requested sheet; file and sheet may be left out when there is only one candidate
+ */
+const findTable = (tables: StoredTable[], file?: string, sheet?: string): StoredTable | { error: string } => {
+    const byFile = file
+        ? tables.filter(({ document }) => document.id === file || document.fileName.toLowerCase() === file.toLowerCase())
+        : tables;
+    if (byFile.length === 0) return { error: `No uploaded spreadsheet named '${file}'.` };
+    const bySheet = sheet ? byFile.filter(({ table }) => table.name.toLowerCase() === sheet.toLowerCase()) : byFile;
+    if (bySheet.length === 0) return { error: `The spreadsheet has no sheet named '${sheet}'.` };
+    if (bySheet.length > 1) return { error: 'Several sheets match. Name the file and the sheet.' };
+    return bySheet[0];
+};
+
+const toDataset = (file: string, sheet: string, columns: TableColumn[], rows: CellValue[][]): Dataset => ({
+    columns: columns.map(column => column.name),
+    rows: rows.map(row => row.map(value => typeof value === 'number' ? value : value === null ? '' : String(value))),
+    source: `${file} / ${sheet}`,
+});
+
+// --- Separate Exported Execution Logic (also used by the plan executor) ---
+export async function executeDataAnalysis(
+    { file, sheet, query }: DataAnalysisInput,
+    source: DocumentSource // Which stored documents may be queried
+): Promise<DataAnalysisResult> {
+    console.log(`Data Analysis Tool querying ${file ?? '(any file)'} / ${sheet ?? '(any sheet)'}:`, JSON.stringify(query));
+    try {
+        const tables = storedTables(Object.values(await loadDocuments(source)));
+        if (tables.length === 0) {
+            return { error: 'The user has no uploaded spreadsheets (CSV, XLSX or ODS).' };
+        }
+
+        const found = findTable(tables, file, sheet);
+        if ('error' in found) {
+            return { error: found.error, availableTables: describeTables(tables) };
+        }
+
+        const { document, table } = found;
+        const result = runTableQuery(table, query);
+        if ('error' in result) {
+            return { file: document.fileName, sheet: table.name, error: result.error, availableTables: describeTables([found]) };
+        }
+        return {
+            file: document.fileName,
+            sheet: table.name,
+            ...result,
+            dataset: toDataset(document.fileName, table.name, result.columns, result.rows),
+        };
+    } catch (error: unknown) {
+        console.error('Error during data analysis:', error);
+        return { error: `Data analysis failed: ${error instanceof Error ? error.message : String(error)}` };
+    }
+}
+
+/**
+ * Answer a data request written in plain language (a plan agent's query): the model only picks the sheet and
+ * writes the declarative query, the numbers are computed by executeDataAnalysis
+ */
+export async function executeDataAnalysisRequest(request: string, source: DocumentSource): Promise<DataAnalysisResult> {
+    try {
+        const tables = storedTables(Object.values(await loadDocuments(source)));
+        if (tables.length === 0) {
+            return { error: 'The user has no uploaded spreadsheets (CSV, XLSX or ODS).' };
+        }
+        const { object: input } = await generateObject({
+            model: getModel('dataExtractor'),
+            schema: dataAnalysisInputSchema,
+            prompt: `Write a query over the user's spreadsheets that answers the data request.
+
+Data Request:
+${request}
+
+Spreadsheets (file / sheet, columns with types, sample rows):
+${describeTables(tables, true)}
+
+Use only the listed column names. Use aggregations for totals, averages and counts, and groupBy for breakdowns per category.`,
+        });
+        return executeDataAnalysis(input, source);
+    } catch (error: unknown) {
+        console.error('Error while writing the data query:', error);
+        return { error: `Could not turn the request into a data query: ${error instanceof Error ? error.message : String(error)}` };
+    }
+}
+
+export const dataAnalysisTool = tool({
+    description: `Runs filters, group-bys and aggregations (count, sum, avg, min, max, count_distinct) over the sheets of the user's uploaded CSV/XLSX/ODS files and the tables found in their other uploads (HTML, Markdown, JSON, YAML, slides).
+                  Declarative only: no code is executed. Returns the result table and a 'dataset' that can be passed to the 'analyst' tool for charts.`,
+    parameters: dataAnalysisInputSchema,
+    // The actual execution is handled by the inline definition in route.ts,
+    // which calls executeDataAnalysis with the user's document source.
+    execute: async () => {
+        console.warn("DataAnalysisTool.execute called directly - should be called via route override with context.");
+        return { error: 'No uploaded spreadsheets available.' } as DataAnalysisResult;
+    },
+});
@@ -0,0 +1,235 @@
+import { tool, generateObject } from 'ai';
+import { z } from 'zod';
+import { getModel } from '@/app/utils/modelRegistry';
+import { normalizeQuery, normalizeUrl, createResearchRun, type ResearchRun } from '@/app/utils/researchCache';
+import { reserveResearchQueries, type BudgetState } from '@/app/utils/executionBudget';
+import { researchDepths, type DeepResearchSettings } from '@/app/data/research_depths';
+import { executeResearch, type ResearchToolResult } from './researchTool';
+
+// Define the input schema for the deep research tool
+const deepResearchInputSchema = z.object({
+    topic: z.string().describe('What to research, as the user asked for it.'),
+    queries: z.array(z.string()).describe('Search queries of the first pass, most important first: one focused query per aspect of the topic. Only as many as the depth runs per round are searched.'),
+});
+
+// Gap analysis after a round: what the sources so far cover, contradict and still lack
+const researchReviewSchema = z.object({
+    coverage: z.number().describe('How completely the sources so far answer the topic, from 0 (not at all) to 1 (fully).'),
+    gaps: z.array(z.string()).describe('Aspects of the topic the sources do not cover yet.'),
+    contradictions: z.array(z.object({
+        description: z.string().describe('What the sources disagree on.'),
+        sources: z.array(z.number()).describe('Numbers of the disagreeing sources.'),
+    })).describe('Claims on which sources contradict each other.'),
+    followUpQueries: z.array(z.string()).describe('New search queries that close the gaps or settle the contradictions, most important first.'),
+});
+
+// The report written from all sources; citations are source numbers in square brackets
+const researchReportSchema = z.object({
+    title: z.string(),
+    summary: z.string().describe('The answer to the topic in a few sentences, with citations like [1] or [2, 5].'),
+    sections: z.array(z.object({
+        heading: z.string(),
+        content: z.string().describe('Markdown text of the section. Every factual sentence cites its sources like [3].'),
+    })),
+    contradictions: z.array(z.string()).describe('Points the sources disagree on, with the citations of each side.'),
+    openQuestions: z.array(z.string()).describe('What the sources could not answer.'),
+});
+
+export type ResearchReview = z.infer<typeof researchReviewSchema>;
+export type ResearchReport = z.infer<typeof researchReportSchema>;
+
+export interface DeepResearchRound {
+    round: number; // 0 is the first pass
+    queries: string[];
+    results: ResearchToolResult;
+    review?: ResearchReview; // Gap analysis after this round; absent after the last round
+}
+
+// A source of the report, numbered in the order it was found (including pages other research of the turn found first)
+export interface ReportSource {
+    id: number;
+    title: string;
+    url: string;
+    publishedDate?: string;
+    credibility?: ResearchToolResult[number]['results'][number]['credibility'];
+}
+
+export interface DeepResearchResult {
+    topic: string;
+    settings: DeepResearchSettings;
+    queriesUsed: number;
+    rounds: DeepResearchRound[];
+    stopReason: 'coverage_reached' | 'max_rounds' | 'budget_exhausted' | 'no_follow_up' | 'review_failed';
+    report?: ResearchReport;
+    sources: ReportSource[];
+    error?: string; // Why no report could be written
+}
+
+export const DEFAULT_DEEP_RESEARCH_SETTINGS: DeepResearchSettings = { depth: 'standard', maxQueries: 6 };
+
+// Source text passed to the reviewer and the report writer per source
+const SOURCE_SUMMARY_LENGTH = 600;
+
+// Numbered source list with the evidence of each source, for the prompts
+function formatSources(sources: ReportSource[], results: ResearchToolResult[number]['results']): string {
+    return sources.map(source => {
+        const item = results.find(result => result.url === source.url)!;
+        const credibility = item.credibility ? ` [${item.credibility.level} credibility ${item.credibility.score.toFixed(2)}]` : '';
+        const evidence = item.quotes && item.quotes.length > 0
+            ? item.quotes.map(quote => `  "${quote.text}"`).join('\n')
+            : `  ${(item.summary ?? item.text ?? '').slice(0, SOURCE_SUMMARY_LENGTH)}`;
+        return `[${source.id}] ${source.title} (${source.url})${item.publishedDate ? `, published ${item.publishedDate.slice(0, 10)}` : ''}${credibility}\n${evidence}`;
+    }).join('\n\n');
+}
+
+async function reviewCoverage(topic: string, sourceList: string, askedQueries: string[], queriesPerRound: number): Promise<ResearchReview> {
+    const { object: review } = await generateObject({
+        model: getModel('researchPlanner'),
+        schema: researchReviewSchema,
+        prompt: `You are reviewing web research on a topic before the next search round.
+
+Topic:
+${topic}
+
+Queries searched so far:
+${askedQueries.map(query => `- ${query}`).join('\n')}
+
+Sources found so far:
+${sourceList || '(none)'}
+
+Rate how completely these sources answer the topic, list the gaps and the contradictions between sources, and propose at most ${queriesPerRound} follow-up search queries.
+- Each query covers ONE gap or contradiction and is answerable with a single web search.
+- Do not repeat or rephrase queries that were already searched.
+- Prefer queries that find primary or high-credibility sources for claims that so far rest on low-credibility ones.`,
+    });
+    return review;
+}
+
+async function writeReport(topic: string, sourceList: string, contradictions: string[]): Promise<ResearchReport> {
+    const { object: report } = await generateObject({
+        model: getModel('researchPlanner'),
+        schema: researchReportSchema,
+        prompt: `Write a structured research report on the topic below, using ONLY the numbered sources.
+
+Topic:
+${topic}
+
+Sources:
+${sourceList}
+${contradictions.length > 0 ? `\nContradictions noticed during the research:\n${contradictions.map(item => `- ${item}`).join('\n')}\n` : ''}
+Rules:
+- Cite sources by number in square brackets after each claim, e.g. [2] or [1, 4]. Never cite a number that is not in the list.
+- Quote the verbatim passages given with the sources where the exact wording matters.
+- Prefer high-credibility sources; say so when a claim rests only on low-credibility sources.
+- Report contradictions between sources instead of picking a side without evidence.
+- List what the sources do not answer as open questions.`,
+    });
+    return report;
+}
+
+// --- Separate Exported Execution Logic ---
+export async function executeDeepResearch(
+    { topic, queries }: z.infer<typeof deepResearchInputSchema>,
+    settings: DeepResearchSettings = DEFAULT_DEEP_RESEARCH_SETTINGS,
+    run: ResearchRun = createResearchRun(), // Shared with the other research of the turn: URLs found earlier are not reported again
+    budgetState?: BudgetState // Execution budget of the turn; the queries count against its researcher queries
+): Promise<DeepResearchResult> {
+    const { maxRounds, queriesPerRound, targetCoverage } = researchDepths[settings.depth];
+    console.log(`Deep Research Tool: "${topic}" (${settings.depth}, up to ${settings.maxQueries} queries)`);
+
+    const rounds: DeepResearchRound[] = [];
+    const sources: ReportSource[] = [];
+    const items: ResearchToolResult[number]['results'] = [];
+    const cited = new Set<string>(); // Normalized URLs of the sources
+    const asked = new Set<string>();
+    let queriesUsed = 0;
+
+    // Queries still allowed by the user's query budget and the execution budget of the turn
+    const queriesLeft = (): number => Math.min(
+        settings.maxQueries - queriesUsed,
+        budgetState ? budgetState.budget.maxResearcherQueries - budgetState.researcherQueriesUsed : Infinity
+    );
+    let stopReason: DeepResearchResult['stopReason'] = queriesLeft() > 0 ? 'no_follow_up' : 'budget_exhausted';
+
+    // Queries not searched before (near-identical ones count as searched), within the round and query budgets
+    const nextQueries = (candidates: string[]): string[] => {
+        const limit = Math.min(queriesPerRound, queriesLeft());
+        const selected: string[] = [];
+        for (const query of candidates) {
+            if (selected.length >= limit) break;
+            const key = normalizeQuery(query);
+            if (query.trim() === '' || asked.has(key)) continue;
+            asked.add(key);
+            selected.push(query);
+        }
+        if (budgetState) reserveResearchQueries(budgetState, selected);
+        return selected;
+    };
+
+    const addSource = (item: ResearchToolResult[number]['results'][number]) => {
+        const url = normalizeUrl(item.url);
+        if (cited.has(url)) return;
+        cited.add(url);
+        sources.push({ id: sources.length + 1, title: item.title || item.url, url: item.url, publishedDate: item.publishedDate, credibility: item.credibility });
+        items.push(item);
+    };
+
+    let roundQueries = nextQueries(queries);
+    for (let round = 0; roundQueries.length > 0; round++) {
+        const results = await executeResearch({ queries: roundQueries, users_message_prompt: topic }, run);
+        queriesUsed += roundQueries.length;
+        for (const queryResult of results) {
+            queryResult.results.forEach(addSource);
+            // Pages that other research of the turn reported first are left out of the results, but can still be cited
+            for (const url of queryResult.duplicateUrls ?? []) {
+                const item = run.sources.get(normalizeUrl(url));
+                if (item) addSource(item);
+            }
+        }
+        const current: DeepResearchRound = { round, queries: roundQueries, results };
+        rounds.push(current);
+
+        if (round + 1 >= maxRounds) {
+            stopReason = 'max_rounds';
+            break;
+        }
+        if (queriesLeft() <= 0) {
+            stopReason = 'budget_exhausted';
+            break;
+        }
+        try {
+            current.review = await reviewCoverage(topic, formatSources(sources, items), rounds.flatMap(r => r.queries), queriesPerRound);
+        } catch (error) {
+            console.error('Deep Research Tool: gap analysis failed:', error);
+            stopReason = 'review_failed';
+            break;
+        }
+        console.log(`Deep Research Tool: round ${round} coverage ${current.review.coverage}, ${current.review.gaps.length} gaps`);
+        if (current.review.coverage >= targetCoverage) {
+            stopReason = 'coverage_reached';
+            break;
+        }
+        roundQueries = nextQueries(current.review.followUpQueries);
+    }
+
+    const result: DeepResearchResult = { topic, settings, queriesUsed, rounds, stopReason, sources };
+    if (sources.length === 0) {
+        return { ...result, error: 'The research found no sources.' };
+    }
+    const contradictions = rounds.flatMap(r => r.review?.contradictions ?? [])
+        .map(contradiction => `${contradiction.description} [${contradiction.sources.join(', ')}]`);
+    try {
+        return { ...result, report: await writeReport(topic, formatSources(sources, items), contradictions) };
+    } catch (error) {
+        console.error('Deep Research Tool: report generation failed:', error);
+        return { ...result, error: `Report generation failed: ${error instanceof Error ? error.message : String(error)}` };
+    }
+}
+
+export const deepResearchTool = tool({
+    description: `Researches a topic in several rounds: searches the first-pass queries, identifies gaps and contradictions between the sources, searches follow-up queries until the coverage target or the query budget is reached, and writes a structured report citing a numbered source list.
+                  Use it for extensive research when the user enabled deep research. Depth and query budget are set by the user.`,
+    parameters: deepResearchInputSchema,
+    // route.ts overrides this inline to apply the user's depth and budget and share the turn's research run
+    execute: args => executeDeepResearch(args),
+});
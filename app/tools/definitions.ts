@@ -5,6 +5,9 @@ import { researchTool } from './researchTool';
 import { analystTool } from './analystTool';
 import { contextualizerTool } from './contextualizerTool';
 import { councilTool } from './councilTool';
+import { qaTool } from './qaTool';
+import { dataAnalysisTool } from './dataAnalysisTool';
+import { deepResearchTool } from './deepResearchTool';
 
 export const chatTools = {
 
@@ -16,10 +19,16 @@ export const chatTools = {
 
   research: researchTool,
 
+  deepResearch: deepResearchTool,
+
   analyst: analystTool,
 
   contextualizer: contextualizerTool,
 
+  qa: qaTool,
+
+  dataAnalysis: dataAnalysisTool,
+
   council: councilTool,
 };
 
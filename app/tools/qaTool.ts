@@ -0,0 +1,161 @@
+import { tool, generateObject } from 'ai';
+import { z } from 'zod';
+import { getModel } from '@/app/utils/modelRegistry';
+import { loadDocuments, type DocumentSource } from '@/app/utils/documentStore';
+import { searchDocuments } from '@/app/utils/documentIndex';
+
+// Label used for quotes taken from the `context` argument (outputs of earlier tools)
+export const QA_TOOL_CONTEXT_SOURCE = 'Prior tool outputs';
+
+// Number of retrieved document chunks to answer from
+const QA_TOP_K = 6;
+
+// Define the input schema
+const qaInputSchema = z.object({
+    question: z.string().describe('The specific, factual question to answer strictly from the supplied context.'),
+    context: z.string().describe('Outputs of earlier tools (research, contextualizer, analyst) to answer from. Use an empty string if there are none.'),
+});
+
+// Define the schema for the QA tool OUTPUT
+// Export this schema so MessageList can import its inferred type
+export const qaOutputSchema = z.object({
+    question: z.string(),
+    answer: z.string().describe('Direct answer to the question, or the refusal reason if the context lacks the answer.'),
+    quotes: z.array(z.object({
+        quote: z.string().describe('Verbatim excerpt from the context supporting the answer.'),
+        source: z.string().describe('Where the quote comes from: a file name with character range, or "Prior tool outputs".'),
+    })),
+    refused: z.boolean().describe('True when the context does not contain the answer.'),
+    error: z.string().optional(),
+});
+
+export type QaResult = z.infer<typeof qaOutputSchema>;
+
+// Schema the LLM fills in; quotes are checked against the context afterwards
+const qaGenerationSchema = z.object({
+    answerable: z.boolean().describe('Whether the context contains the answer.'),
+    answer: z.string().describe('The answer using ONLY facts from the context, or why it cannot be answered.'),
+    quotes: z.array(z.object({
+        quote: z.string().describe('An exact, verbatim excerpt copied from the context.'),
+        source: z.string().describe('The source label of the excerpt exactly as given in the context markers.'),
+    })),
+});
+
+// --- LLM Instance for QA ---
+const qaLlm = getModel('qa');
+
+// Collapse whitespace so quotes survive line wrapping differences
+function normalizeForMatch(text: string): string {
+    return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+// --- Separate Exported Execution Logic ---
+export async function executeQa(
+    args: z.infer<typeof qaInputSchema>,
+    source?: DocumentSource // Stored documents to answer from, in addition to `context`
+): Promise<QaResult> {
+    const { question, context } = args;
+    console.log(`QA Tool answering from supplied context: "${question}"`);
+
+    // Every source the answer may draw from, keyed by its label
+    const sources: Record<string, string> = {};
+    if (context && context.trim() !== '') {
+        sources[QA_TOOL_CONTEXT_SOURCE] = context;
+    }
+
+    try {
+        if (source) {
+            // Only the document chunks most relevant to the question are used
+            const files = Object.values(await loadDocuments(source));
+            const chunks = await searchDocuments(source.namespace, files, question, QA_TOP_K);
+            for (const chunk of chunks) {
+                sources[`${chunk.fileName} (chars ${chunk.start}-${chunk.end})`] = chunk.text;
+            }
+        }
+
+        if (Object.keys(sources).length === 0) {
+            console.warn("QA Tool: No context supplied.");
+            return {
+                question,
+                answer: "Cannot answer: no context (prior tool outputs or uploaded files) was supplied.",
+                quotes: [],
+                refused: true,
+                error: "No context available.",
+            };
+        }
+
+        const contextText = Object.entries(sources).map(([label, text]) =>
+            `--- START SOURCE: ${label} ---\n${text}
+--- END SOURCE: ${label} ---`
+        ).join('\n\n');
+
+        const systemPrompt = `You are a question answering assistant that answers ONLY from the provided context.
+Rules:
+- Use only facts stated in the context. Do not use outside knowledge.
+- Do not synthesize or summarize beyond what is needed to answer the question directly.
+- Support the answer with verbatim quotes copied exactly from the context, each labelled with its source.
+- If the context does not contain the answer, set answerable to false, explain what is missing, and return no quotes.`;
+
+        const prompt = `Question: "${question}"
+
+Context:
+${contextText}`;
+
+        const { object: generated } = await generateObject({
+            model: qaLlm,
+            system: systemPrompt,
+            prompt,
+            schema: qaGenerationSchema,
+            temperature: 0,
+        });
+
+        // Keep only quotes that actually appear in the source they are attributed to
+        const quotes = generated.quotes.filter(({ quote, source }) =>
+            sources[source] !== undefined && normalizeForMatch(sources[source]).includes(normalizeForMatch(quote))
+        );
+        const droppedQuotes = generated.quotes.length - quotes.length;
+        if (droppedQuotes > 0) {
+            console.warn(`QA Tool: dropped ${droppedQuotes} quote(s) not found verbatim in their source.`);
+        }
+
+        if (!generated.answerable) {
+            return { question, answer: generated.answer, quotes: [], refused: true };
+        }
+        if (quotes.length === 0) {
+            return {
+                question,
+                answer: "Cannot answer: no supporting quote for the answer was found in the supplied context.",
+                quotes: [],
+                refused: true,
+            };
+        }
+
+        console.log(`QA Tool answered with ${quotes.length} supporting quote(s).`);
+        return { question, answer: generated.answer, quotes, refused: false };
+
+    } catch (error: unknown) {
+        let errorMessage = 'An unknown error occurred while answering from context.';
+        if (error instanceof Error) { errorMessage = error.message; }
+        console.error("Error during QA tool execution:", error);
+        return {
+            question,
+            answer: "An error occurred while answering from the supplied context.",
+            quotes: [],
+            refused: true,
+            error: errorMessage,
+        };
+    }
+}
+
+// --- Tool Definition (execution with uploaded files is handled via route.ts) ---
+export const qaTool = tool({
+    description: `Answers a specific factual question strictly from supplied context: outputs of earlier tools plus the user's uploaded files.
+                  Returns the answer with verbatim quotes and their sources, and refuses when the context does not contain the answer.
+                  Does NOT synthesize or summarize.`,
+    parameters: qaInputSchema,
+    // The inline definition in route.ts adds the user's stored documents.
+    execute: async (args) => {
+        console.warn("qaTool.execute called directly - should be called via route override with context.");
+        return executeQa(args);
+    }
+});
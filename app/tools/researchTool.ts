@@ -1,7 +1,18 @@
 // judge-agent-frontend/app/tools/researchTool.ts
 import { tool } from 'ai';
 import { z } from 'zod';
-import Exa from 'exa-js';
+import { getSearchProvider, type SearchResult } from '@/app/utils/searchProviders';
+import { fetchPageText, extractQuotes } from '@/app/utils/pageText';
+import {
+    searchWithCache,
+    normalizeQuery,
+    createResearchRun,
+    claimNewResults,
+    reserveClaim,
+    type ResearchCacheKey,
+    type ResearchRun,
+} from '@/app/utils/researchCache';
+import { rateSources, applyCredibilityPolicy, type SourceCredibility } from '@/app/utils/sourceCredibility';
 
 // Define the type for the output structure
 // Use 'text' field directly and remove unnecessary 'id'
@@ -11,75 +22,134 @@ export type ResearchToolResult = z.infer<z.ZodArray<z.ZodObject<{
         title: z.ZodOptional<z.ZodString>;
         url: z.ZodString;
         // id: z.ZodString; // No longer needed for separate fetch
-        text: z.ZodOptional<z.ZodString>; // Expect text content directly
+        publishedDate: z.ZodOptional<z.ZodString>;
+        summary: z.ZodOptional<z.ZodString>; // Exa's query-focused summary, or the search backend's snippet
+        text: z.ZodOptional<z.ZodString>; // Source text of the page, cut after RESEARCH_TEXT_LENGTH characters
+        textLength: z.ZodOptional<z.ZodNumber>; // Length of the whole page text
+        // Verbatim sentences of the page most relevant to the query; offsets are in the whole page text
+        quotes: z.ZodOptional<z.ZodArray<z.ZodObject<{
+            text: z.ZodString;
+            start: z.ZodNumber;
+            end: z.ZodNumber;
+        }>>>;
+        credibility: z.ZodOptional<z.ZodType<SourceCredibility>>; // Source quality under the user's research policy
     }>>;
+    cached: z.ZodOptional<z.ZodBoolean>; // Results came from the research cache
+    duplicateUrls: z.ZodOptional<z.ZodArray<z.ZodString>>; // Results left out because an earlier query of the turn returned them
+    droppedUrls: z.ZodOptional<z.ZodArray<z.ZodString>>; // Low-trust results removed by the research policy
     error: z.ZodOptional<z.ZodString>;
 }>>>;
 
 // Define the input schema for the research tool
 const researchToolInputSchema = z.object({
-    queries: z.array(z.string()).describe('An array of search queries to execute using Exa.'),
+    queries: z.array(z.string()).describe('An array of search queries to execute with the configured search provider.'),
     users_message_prompt: z.string().describe('A prompt for the users message to be used in the summary.'),
 });
 
-// Environment variable check
-if (!process.env.EXA_API_KEY) {
-    console.warn("EXA_API_KEY environment variable is not set. Research tool will not function.");
-}
+// Results per query
+const RESULTS_PER_QUERY = 3;
+// Page text passed on per result; quotes are taken from the whole page
+const RESEARCH_TEXT_LENGTH = 4000;
+const QUOTES_PER_RESULT = 3;
 
-// Initialize Exa client
-const exa = new Exa(process.env.EXA_API_KEY);
+// Page text from the search backend, or downloaded when the backend only returned a snippet
+const loadPageText = async (result: SearchResult): Promise<string | undefined> => {
+    if (result.text) return result.text;
+    try {
+        return await fetchPageText(result.url);
+    } catch (error) {
+        console.warn(`Research Tool could not load ${result.url}:`, error);
+        return undefined;
+    }
+};
 
-export const researchTool = tool({
-    description: `Performs web research for queries using Exa. 
-                  Searches and retrieves text content in a single step.
-                  Returns title, URL, and text content for top results for each query.`, // Simplified description
-    parameters: researchToolInputSchema,
-    execute: async ({ queries, users_message_prompt }) => {
-        if (!process.env.EXA_API_KEY) {
-            return queries.map(query => ({
-                query: query,
-                results: [],
-                error: "EXA_API_KEY is not configured."
-            }));
-        }
+// --- Separate Exported Execution Logic (also used by the plan executor) ---
+export async function executeResearch(
+    { queries, users_message_prompt }: z.infer<typeof researchToolInputSchema>,
+    run: ResearchRun = createResearchRun() // URLs already returned in this turn (only new ones are kept) and the research policy
+): Promise<ResearchToolResult> {
+    const provider = getSearchProvider();
+    if ('error' in provider) {
+        return queries.map(query => ({
+            query: query,
+            results: [],
+            error: provider.error
+        }));
+    }
+    // Reserved before searching, so parallel research of the run claims URLs in the order it was started
+    const claim = reserveClaim(run);
 
-        console.log(`Research Tool executing searchAndContents for queries: ${queries.join(', ')}`);
+    console.log(`Research Tool searching with ${provider.name} for queries: ${queries.join(', ')}`);
 
-        // Execute searches in parallel using searchAndContents
-        const searchPromises = queries.map(async (query) => {
-            try {
-                // Use searchAndContents directly
-                const response = await exa.searchAndContents(query, {
-                    numResults: 3, 
-                    type: 'keyword', // Type might not be needed/supported for searchAndContents, check docs if needed
-                    text: true, // Request text content
-                    summary: {
-                        query: `Follow the query: "${query}" and the users message: "${users_message_prompt}" to provide a summary of the results.`,
-                    }
+    // Execute searches in parallel
+    const searchPromises = queries.map(async (query) => {
+        // Near-identical queries share a cache entry; Exa summaries also depend on the user's message
+        const cacheKey: ResearchCacheKey = {
+            provider: provider.name,
+            numResults: RESULTS_PER_QUERY,
+            query: normalizeQuery(query),
+            ...(provider.summarizes ? { summaryPrompt: users_message_prompt } : {}),
+        };
+        try {
+            const { results, cached } = await searchWithCache(cacheKey, async () => {
+                const response = await provider.search(query, {
+                    numResults: RESULTS_PER_QUERY,
+                    summaryQuery: `Follow the query: "${query}" and the users message: "${users_message_prompt}" to provide a summary of the results.`,
                 });
-
-                // Map results directly, assuming response.results has title, url, text
-                const results = response.results.map(res => ({
-                    title: res.title || 'No title available',
-                    url: res.url,
-                    text: res.summary || 'No text content retrieved.', // Use the text field
+                return Promise.all(response.map(async res => {
+                    const pageText = await loadPageText(res);
+                    return {
+                        title: res.title,
+                        url: res.url,
+                        publishedDate: res.publishedDate,
+                        summary: res.summary ?? res.snippet,
+                        text: pageText?.slice(0, RESEARCH_TEXT_LENGTH),
+                        textLength: pageText?.length,
+                        quotes: pageText ? extractQuotes(pageText, query, QUOTES_PER_RESULT) : [],
+                    };
                 }));
+            });
 
-                console.log(`Query "${query}" searchAndContents succeeded with ${results.length} results.`);
-                return { query, results, error: undefined };
+            console.log(`Query "${query}" ${cached ? 'answered from the research cache' : 'search succeeded'} with ${results.length} results.`);
+            return { query, results, cached, error: undefined };
 
-            } catch (error: unknown) {
-                let errorMessage = 'An unknown error occurred during searchAndContents.';
-                if (error instanceof Error) { errorMessage = error.message; }
-                console.error(`Error during searchAndContents for query "${query}":`, error);
-                return { query, results: [], error: errorMessage };
-            }
-        });
+        } catch (error: unknown) {
+            let errorMessage = `An unknown error occurred during the ${provider.name} search.`;
+            if (error instanceof Error) { errorMessage = error.message; }
+            console.error(`Error during ${provider.name} search for query "${query}":`, error);
+            return { query, results: [], error: errorMessage };
+        }
+    });
 
-        // Wait for all searches to complete
-        const finalResults = await Promise.all(searchPromises);
+    // Wait for all searches and for research started earlier in the run to claim its URLs, then rate the results
+    // against each other and the sources found earlier in the turn
+    const finalResults = await Promise.all(searchPromises);
+    await claim.ready;
+    try {
+        const rated = rateSources(finalResults.flatMap(queryResult => queryResult.results), [...run.sources.values()], run.policy, queries);
 
-        return finalResults;
+        // Apply the research policy and drop URLs an earlier query already returned (in query order)
+        let offset = 0;
+        return finalResults.map(queryResult => {
+            const { results, droppedUrls } = applyCredibilityPolicy(rated.slice(offset, offset += queryResult.results.length), run.policy);
+            const { fresh, duplicateUrls } = claimNewResults(run, results);
+            return {
+                ...queryResult,
+                results: fresh,
+                duplicateUrls: duplicateUrls.length > 0 ? duplicateUrls : undefined,
+                droppedUrls: droppedUrls.length > 0 ? droppedUrls : undefined,
+            };
+        });
+    } finally {
+        claim.release();
     }
+}
+
+export const researchTool = tool({
+    description: `Performs web research for queries using the configured search provider (Exa, SearXNG, Brave or a local offline corpus). 
+                  Searches and retrieves text content in a single step.
+                  Returns title, URL, published date, a summary, the page text (truncated), verbatim quotes relevant to the query (with character offsets in the page text) and a credibility score (domain lists, site type, recency, agreement with other sources) for top results for each query.
+                  Low-trust results are listed last or dropped, depending on the research policy.`,
+    parameters: researchToolInputSchema,
+    execute: args => executeResearch(args),
 }); 
\ No newline at end of file
@@ -0,0 +1,106 @@
+// conversationStorage.ts - Client helpers for the server-side conversation store (/api/conversations)
+import type { Message } from 'ai';
+import type { Conversation, ConversationSummary } from './conversationStore';
+import { getUserId } from './userId';
+import { USER_ID_HEADER } from './userNamespace';
+
+export type { Conversation, ConversationSummary };
+
+const API_BASE = '/api/conversations';
+
+const userHeaders = (): Record<string, string> => ({ [USER_ID_HEADER]: getUserId() });
+
+const conversationUrl = (id: string): string => `${API_BASE}/${encodeURIComponent(id)}`;
+
+/**
+ * Get metadata for all conversations, most recently updated first
+ */
+export const getConversations = async (): Promise<ConversationSummary[]> => {
+  try {
+    const response = await fetch(API_BASE, { headers: userHeaders() });
+    if (!response.ok) {
+      throw new Error(`Failed to list conversations: ${response.statusText}`);
+    }
+    const { conversations } = await response.json();
+    return conversations;
+  } catch (error) {
+    console.error('Error retrieving conversations:', error);
+    return [];
+  }
+};
+
+/**
+ * Get a conversation including its messages
+ */
+export const getConversation = async (id: string): Promise<Conversation | null> => {
+  try {
+    const response = await fetch(conversationUrl(id), { headers: userHeaders() });
+    if (!response.ok) {
+      throw new Error(`Failed to read conversation: ${response.statusText}`);
+    }
+    const { conversation } = await response.json();
+    return conversation;
+  } catch (error) {
+    console.error('Error retrieving conversation:', error);
+    return null;
+  }
+};
+
+/**
+ * Save the messages of a conversation, creating it if needed
+ */
+export const saveConversation = async (id: string, messages: Message[]): Promise<Conversation | null> => {
+  try {
+    const response = await fetch(conversationUrl(id), {
+      method: 'PUT',
+      headers: { ...userHeaders(), 'Content-Type': 'application/json' },
+      body: JSON.stringify({ messages }),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to save conversation: ${response.statusText}`);
+    }
+    const { conversation } = await response.json();
+    return conversation;
+  } catch (error) {
+    console.error('Error saving conversation:', error);
+    return null;
+  }
+};
+
+/**
+ * Rename a conversation
+ */
+export const renameConversation = async (id: string, title: string): Promise<Conversation | null> => {
+  try {
+    const response = await fetch(conversationUrl(id), {
+      method: 'PATCH',
+      headers: { ...userHeaders(), 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title }),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to rename conversation: ${response.statusText}`);
+    }
+    const { conversation } = await response.json();
+    return conversation;
+  } catch (error) {
+    console.error('Error renaming conversation:', error);
+    return null;
+  }
+};
+
+/**
+ * Delete a conversation
+ */
+export const deleteConversation = async (id: string): Promise<void> => {
+  try {
+    const response = await fetch(conversationUrl(id), {
+      method: 'DELETE',
+      headers: userHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to delete conversation: ${response.statusText}`);
+    }
+  } catch (error) {
+    console.error('Error deleting conversation:', error);
+  }
+};
@@ -0,0 +1,86 @@
+// conversationStore.ts - Server-side persistent store for chat conversations, one directory per user namespace
+import type { Message } from 'ai';
+import { dataPath, readJson, writeJson, removeFile, listJsonFiles } from './jsonFileStore';
+
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: number; // timestamp
+  updatedAt: number; // timestamp
+  messages: Message[]; // UI messages including their tool invocation parts
+}
+
+export type ConversationSummary = Omit<Conversation, 'messages'> & { messageCount: number };
+
+// IDs are generated by the client and become file names, so restrict their character set
+const CONVERSATION_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+export const isValidConversationId = (id: string): boolean => CONVERSATION_ID_PATTERN.test(id);
+
+const TITLE_MAX_LENGTH = 60;
+
+const conversationPath = (namespace: string, id: string): string => dataPath('conversations', namespace, `${id}.json`);
+
+const toSummary = ({ messages, ...rest }: Conversation): ConversationSummary => ({ ...rest, messageCount: messages.length });
+
+/**
+ * Derive a title from the first user message
+ */
+export const deriveTitle = (messages: Message[]): string => {
+  const firstUserMessage = messages.find(message => message.role === 'user');
+  const text = firstUserMessage?.content.replace(/\s+/g, ' ').trim();
+  if (!text) return 'New conversation';
+  return text.length > TITLE_MAX_LENGTH ? `${text.slice(0, TITLE_MAX_LENGTH - 1)}…` : text;
+};
+
+/**
+ * Get a single conversation, or null if it does not exist
+ */
+export const getConversation = async (namespace: string, id: string): Promise<Conversation | null> => {
+  if (!isValidConversationId(id)) return null;
+  return readJson<Conversation>(conversationPath(namespace, id));
+};
+
+/**
+ * List conversation metadata, most recently updated first
+ */
+export const listConversations = async (namespace: string): Promise<ConversationSummary[]> => {
+  const ids = await listJsonFiles(dataPath('conversations', namespace));
+  const conversations = await Promise.all(ids.map(id => getConversation(namespace, id)));
+  return conversations
+    .filter((conversation): conversation is Conversation => conversation !== null)
+    .map(toSummary)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Create or replace the messages of a conversation. New conversations get a title from their first user message.
+ */
+export const saveConversationMessages = async (namespace: string, id: string, messages: Message[]): Promise<Conversation> => {
+  const existing = await getConversation(namespace, id);
+  const now = Date.now();
+  const conversation: Conversation = existing
+    ? { ...existing, messages, updatedAt: now }
+    : { id, title: deriveTitle(messages), createdAt: now, updatedAt: now, messages };
+  await writeJson(conversationPath(namespace, id), conversation);
+  return conversation;
+};
+
+/**
+ * Rename a conversation
+ */
+export const renameConversation = async (namespace: string, id: string, title: string): Promise<Conversation | null> => {
+  const existing = await getConversation(namespace, id);
+  if (!existing) return null;
+  const conversation = { ...existing, title, updatedAt: Date.now() };
+  await writeJson(conversationPath(namespace, id), conversation);
+  return conversation;
+};
+
+/**
+ * Delete a conversation. Returns false if it did not exist.
+ */
+export const deleteConversation = async (namespace: string, id: string): Promise<boolean> => {
+  if (!isValidConversationId(id)) return false;
+  return removeFile(conversationPath(namespace, id));
+};
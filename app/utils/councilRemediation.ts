@@ -0,0 +1,151 @@
+// councilRemediation.ts - Revise-and-retry loop: follow-up work planned from council feedback, then re-evaluation
+import { generateObject } from 'ai';
+import { executeCouncil, type CouncilInput, type CouncilResult } from '@/app/tools/councilTool';
+import { planningSchema, type PlanningResult } from '@/app/tools/planningTool';
+import { executePlan, createAgentRunners, type AgentRunnerOptions, type PlanExecutionResult } from './planExecutor';
+import { getModel } from './modelRegistry';
+import { createBudgetState, consumePlanBudget, type BudgetState } from './executionBudget';
+import type { DocumentSource } from './documentStore';
+
+const readLimit = (value: string | undefined, fallback: number): number => {
+  const limit = Number(value);
+  return value !== undefined && Number.isInteger(limit) && limit >= 0 ? limit : fallback;
+};
+
+// Follow-up rounds after the first rejection (0 disables the loop)
+export const MAX_REMEDIATION_ROUNDS = readLimit(process.env.COUNCIL_MAX_REMEDIATION_ROUNDS, 2);
+// Total number of follow-up agents all rounds together may run
+export const REMEDIATION_AGENT_BUDGET = readLimit(process.env.COUNCIL_REMEDIATION_AGENT_BUDGET, 6);
+
+// Agent types that gather evidence; the analyst only draws diagrams, so it cannot fix a rejection
+const REMEDIATION_AGENT_TYPES = ['researcher', 'contextualizer', 'qa', 'dataAnalyst'];
+
+export interface CouncilRound {
+  round: number; // 0 is the initial evaluation
+  judgement: CouncilResult['judgement'];
+  explanation: string;
+  disagreement?: boolean;
+  plan?: PlanningResult; // Follow-up work run before this round's evaluation
+  execution?: PlanExecutionResult;
+}
+
+// The final council evaluation plus the history of all rounds
+export type RemediatedCouncilResult = CouncilResult & {
+  rounds: CouncilRound[];
+  stopReason: 'passed' | 'error' | 'max_rounds' | 'budget_exhausted' | 'no_follow_up';
+  remediationError?: string; // Why no follow-up work could be run
+};
+
+const isRejection = (judgement: CouncilResult['judgement']): boolean =>
+  judgement === 'hallucination' || judgement === 'not_verified' || judgement === 'not_aligned';
+
+const toRound = (round: number, council: CouncilResult): CouncilRound => ({
+  round,
+  judgement: council.judgement,
+  explanation: council.explanation,
+  disagreement: council.disagreement,
+});
+
+/**
+ * Ask the planner for targeted follow-up work that addresses the council's objections,
+ * with at most agentBudget agents of which at most researcherBudget are researchers
+ */
+async function planFollowUp(args: CouncilInput, council: CouncilResult, agentBudget: number, researcherBudget: number): Promise<PlanningResult> {
+  const { object: plan } = await generateObject({
+    model: getModel('remediationPlanner'),
+    schema: planningSchema,
+    prompt: `An evaluation council rejected the results gathered for a user's request. Plan targeted follow-up work that fixes ONLY the problems the council raised.
+
+User Query:
+${args.userQuery}
+
+Council Judgement: ${council.judgement}
+Council Explanation:
+${council.explanation}
+
+Results Gathered So Far:
+${args.aggregatedToolResults}
+
+Rules:
+- Use only 'researcher' (web search), 'contextualizer' (search the user's documents), 'dataAnalyst' (compute figures from the user's uploaded spreadsheets) and 'qa' (answer a question strictly from the results of its dependencies, with quotes) agents.
+- Plan at most ${agentBudget} agents. Every agent needs a specific query aimed at a claim the council could not verify.
+- ${researcherBudget > 0 ? `Plan at most ${researcherBudget} 'researcher' agents.` : `The web search budget is used up: do not plan 'researcher' agents.`}
+- Dependencies must reference lower order numbers; agents with the same order run in parallel.
+- Set 'task' to the user's query.`,
+  });
+
+  const agents = plan.agents.filter(agent => REMEDIATION_AGENT_TYPES.includes(agent.type));
+  // Researchers beyond the budget are dropped like the agents beyond agentBudget
+  const researchers = agents.filter(agent => agent.type === 'researcher').slice(0, researcherBudget);
+  return { ...plan, agents: agents.filter(agent => agent.type !== 'researcher' || researchers.includes(agent)).slice(0, agentBudget) };
+}
+
+// Text form of a follow-up round, appended to the council input of the next evaluation
+function formatFollowUp(round: number, execution: PlanExecutionResult): string {
+  const outputs = execution.agents
+    .filter(agent => agent.status === 'completed')
+    .map(agent => `--- ${agent.type}: ${agent.purpose} ---\n${agent.summary ?? ''}`)
+    .join('\n\n');
+  return `\n\nFOLLOW-UP ROUND ${round} (gathered to address the council's previous objections):\n${outputs || '(no follow-up agent completed)'}`;
+}
+
+/**
+ * Run the council and, while it rejects the results, plan and execute follow-up work and evaluate again.
+ * Capped by MAX_REMEDIATION_ROUNDS and REMEDIATION_AGENT_BUDGET, like the generator-evaluator loop of the analyst tool,
+ * and by the turn's execution budget: follow-up plans stay within maxAgents and their researchers use up researcher queries.
+ */
+export async function executeCouncilWithRemediation(
+  args: CouncilInput,
+  documentSource: DocumentSource,
+  budgetState: BudgetState = createBudgetState([]),
+  runnerOptions: AgentRunnerOptions = {}
+): Promise<RemediatedCouncilResult> {
+  const strictness = budgetState.budget.councilStrictness;
+  // Sources found by follow-up researchers join the run, so every evaluation sees all rated sources of the turn
+  const ratedSources = () => [...runnerOptions.researchRun?.sources.values() ?? []];
+  let council = await executeCouncil(args, strictness, ratedSources());
+  const rounds: CouncilRound[] = [toRound(0, council)];
+  let currentArgs = args;
+  let agentBudget = REMEDIATION_AGENT_BUDGET;
+
+  for (let round = 1; isRejection(council.judgement); round++) {
+    if (round > MAX_REMEDIATION_ROUNDS) {
+      return { ...council, rounds, stopReason: 'max_rounds' };
+    }
+    const agentLimit = Math.min(agentBudget, budgetState.budget.maxAgents);
+    if (agentLimit <= 0) {
+      return { ...council, rounds, stopReason: 'budget_exhausted' };
+    }
+    const researcherLimit = Math.max(0, budgetState.budget.maxResearcherQueries - budgetState.researcherQueriesUsed);
+
+    console.log(`Council remediation: round ${round}, judgement was '${council.judgement}', ${agentLimit} agents and ${researcherLimit} researchers left`);
+    let plan: PlanningResult;
+    try {
+      plan = await planFollowUp(currentArgs, council, agentLimit, researcherLimit);
+    } catch (error) {
+      console.error('Council remediation: follow-up planning failed:', error);
+      return {
+        ...council,
+        rounds,
+        stopReason: 'no_follow_up',
+        remediationError: `Follow-up planning failed: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+    if (plan.agents.length === 0) {
+      return { ...council, rounds, stopReason: 'no_follow_up' };
+    }
+
+    const execution = await executePlan(plan, createAgentRunners(documentSource, runnerOptions));
+    if (execution.error) {
+      return { ...council, rounds, stopReason: 'no_follow_up', remediationError: execution.error };
+    }
+    agentBudget -= plan.agents.length;
+    consumePlanBudget(budgetState, plan);
+
+    currentArgs = { ...currentArgs, aggregatedToolResults: currentArgs.aggregatedToolResults + formatFollowUp(round, execution) };
+    council = await executeCouncil(currentArgs, strictness, ratedSources());
+    rounds.push({ ...toRound(round, council), plan, execution });
+  }
+
+  return { ...council, rounds, stopReason: council.judgement === 'passed' ? 'passed' : 'error' };
+}
@@ -0,0 +1,233 @@
+// datasetCharts.ts - Structured datasets for the analyst: deterministic Mermaid charts and extraction from agent outputs
+import { generateObject } from 'ai';
+import { z } from 'zod';
+import { getModel } from './modelRegistry';
+
+export const datasetSchema = z.object({
+  title: z.string().optional().describe('Title of the chart.'),
+  columns: z.array(z.string()).min(1).describe('Column names, in the layout the chart type expects.'),
+  rows: z.array(z.array(z.union([z.string(), z.number()])))
+    .describe('Data rows with one value per column, copied exactly from the source. Numbers as numbers.'),
+  source: z.string().optional().describe('Where the data comes from (agent, URL, document or uploaded file).'),
+});
+
+export type Dataset = z.infer<typeof datasetSchema>;
+
+// Chart types generated from a dataset without an LLM
+export const DATA_CHART_TYPES = ['xychart', 'pie', 'sankey', 'gantt'] as const;
+
+export type DataChartType = typeof DATA_CHART_TYPES[number];
+
+// Column layout each chart type reads from the dataset
+export const DATA_CHART_COLUMNS: Record<DataChartType, string> = {
+  xychart: 'category, then one numeric column per series',
+  pie: 'label, numeric value',
+  sankey: 'source, target, numeric value',
+  gantt: 'task, start date (YYYY-MM-DD), end date (YYYY-MM-DD) or duration (e.g. 5d), optional section',
+};
+
+export type DatasetChartResult = { code: string } | { error: string };
+
+const isDataChartType = (value: string): value is DataChartType => (DATA_CHART_TYPES as readonly string[]).includes(value);
+
+/**
+ * Chart type of a diagram type from the analyst query (e.g. 'xychart-beta'), if it can be generated from a dataset
+ */
+export const toDataChartType = (diagramType: string | null | undefined): DataChartType | undefined => {
+  const baseType = diagramType?.replace(/-(v2|beta)$/, '');
+  return baseType && isDataChartType(baseType) ? baseType : undefined;
+};
+
+// Numbers as they are written in sources: thousands separators, currency signs and trailing units are ignored
+const toNumber = (value: string | number): number | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  const cleaned = value.trim().replace(/^[$€£¥]/, '').replace(/,(?=\d{3}\b)/g, '').replace(/\s*%$/, '');
+  const parsed = Number(cleaned);
+  return cleaned !== '' && Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const quoted = (value: string | number): string => `"${String(value).replace(/"/g, "'")}"`;
+
+// Sankey rows are CSV: quote fields with commas or quotes, doubling the quotes
+const csvField = (value: string | number): string => {
+  const text = String(value);
+  return /[",]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// ':' and '#' end a gantt task name
+const ganttText = (value: string | number): string => String(value).replace(/[:#;]/g, ' ').trim();
+
+/**
+ * Read the numeric column `column` of every row; returns an error naming the first bad cell
+ */
+const numericColumn = (dataset: Dataset, column: number): number[] | { error: string } => {
+  const values: number[] = [];
+  for (const [rowIndex, row] of dataset.rows.entries()) {
+    const value = toNumber(row[column]);
+    if (value === undefined) {
+      return { error: `Row ${rowIndex + 1}, column '${dataset.columns[column]}': '${row[column]}' is not a number.` };
+    }
+    values.push(value);
+  }
+  return values;
+};
+
+const checkShape = (dataset: Dataset, chartType: DataChartType, minColumns: number): string | undefined => {
+  if (dataset.columns.length < minColumns) {
+    return `A ${chartType} needs the columns: ${DATA_CHART_COLUMNS[chartType]}. Got: ${dataset.columns.join(', ')}.`;
+  }
+  if (dataset.rows.length === 0) return 'The dataset has no rows.';
+  const badRow = dataset.rows.findIndex(row => row.length !== dataset.columns.length);
+  return badRow >= 0 ? `Row ${badRow + 1} has ${dataset.rows[badRow].length} values, expected ${dataset.columns.length}.` : undefined;
+};
+
+const titleLine = (dataset: Dataset): string[] => dataset.title ? [`    title ${quoted(dataset.title)}`] : [];
+
+function xyChart(dataset: Dataset, seriesKind: 'bar' | 'line'): DatasetChartResult {
+  const series: string[] = [];
+  for (let column = 1; column < dataset.columns.length; column++) {
+    const values = numericColumn(dataset, column);
+    if (!Array.isArray(values)) return values;
+    series.push(`    ${seriesKind} [${values.join(', ')}]`);
+  }
+  // Without a legend the axis names the series when there is only one
+  const yAxis = dataset.columns.length === 2 ? [`    y-axis ${quoted(dataset.columns[1])}`] : [];
+  return {
+    code: [
+      'xychart-beta',
+      ...titleLine(dataset),
+      `    x-axis [${dataset.rows.map(row => quoted(row[0])).join(', ')}]`,
+      ...yAxis,
+      ...series,
+    ].join('\n'),
+  };
+}
+
+function pieChart(dataset: Dataset): DatasetChartResult {
+  const values = numericColumn(dataset, 1);
+  if (!Array.isArray(values)) return values;
+  const negative = values.findIndex(value => value < 0);
+  if (negative >= 0) return { error: `Row ${negative + 1}: pie slices cannot be negative (${values[negative]}).` };
+  return {
+    code: ['pie showData', ...titleLine(dataset), ...dataset.rows.map((row, i) => `    ${quoted(row[0])} : ${values[i]}`)].join('\n'),
+  };
+}
+
+function sankeyChart(dataset: Dataset): DatasetChartResult {
+  const values = numericColumn(dataset, 2);
+  if (!Array.isArray(values)) return values;
+  const negative = values.findIndex(value => value < 0);
+  if (negative >= 0) return { error: `Row ${negative + 1}: flows cannot be negative (${values[negative]}).` };
+  return {
+    code: ['sankey-beta', '', ...dataset.rows.map((row, i) => `${csvField(row[0])},${csvField(row[1])},${values[i]}`)].join('\n'),
+  };
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DURATION_PATTERN = /^\d+(\.\d+)?[dwh]$/;
+
+function ganttChart(dataset: Dataset): DatasetChartResult {
+  const lines = ['gantt', ...titleLine(dataset), '    dateFormat YYYY-MM-DD'];
+  let section: string | undefined;
+  for (const [rowIndex, row] of dataset.rows.entries()) {
+    const [task, start, end, rowSection] = row.map(value => String(value).trim());
+    if (!DATE_PATTERN.test(start)) return { error: `Row ${rowIndex + 1}: start '${start}' is not a YYYY-MM-DD date.` };
+    if (!DATE_PATTERN.test(end) && !DURATION_PATTERN.test(end)) {
+      return { error: `Row ${rowIndex + 1}: '${end}' is neither a YYYY-MM-DD end date nor a duration such as 5d.` };
+    }
+    const nextSection = rowSection ? ganttText(rowSection) : 'Tasks';
+    if (nextSection !== section) {
+      section = nextSection;
+      lines.push(`    section ${section}`);
+    }
+    lines.push(`    ${ganttText(task)} :t${rowIndex + 1}, ${start}, ${end}`);
+  }
+  return { code: lines.join('\n') };
+}
+
+/**
+ * Build the Mermaid code of a chart from a dataset. Every value in the code is copied from the dataset,
+ * so the numbers cannot drift the way LLM-written diagrams can.
+ */
+export function datasetToMermaid(dataset: Dataset, chartType: DataChartType, seriesKind: 'bar' | 'line' = 'bar'): DatasetChartResult {
+  const shapeError = checkShape(dataset, chartType, chartType === 'gantt' || chartType === 'sankey' ? 3 : 2);
+  if (shapeError) return { error: shapeError };
+  switch (chartType) {
+    case 'xychart':
+      return xyChart(dataset, seriesKind);
+    case 'pie':
+      return pieChart(dataset);
+    case 'sankey':
+      return sankeyChart(dataset);
+    case 'gantt':
+      return ganttChart(dataset);
+  }
+}
+
+/**
+ * Text form of a dataset for prompts
+ */
+export const formatDataset = (dataset: Dataset): string =>
+  [dataset.columns.join(' | '), ...dataset.rows.map(row => row.join(' | '))].join('\n');
+
+// Written forms of a number that count as "appearing" in the source text (1234.5, 1,234.5)
+const numberForms = (value: string | number): string[] => {
+  const parsed = toNumber(value);
+  if (parsed === undefined) return [String(value)];
+  return [String(value).trim(), String(parsed), parsed.toLocaleString('en-US', { maximumFractionDigits: 20 })];
+};
+
+/**
+ * Rows whose numbers do not appear in the source text; the extraction model may have made them up
+ */
+export const findUnsupportedRows = (dataset: Dataset, sourceText: string): number[] =>
+  dataset.rows.flatMap((row, rowIndex) => {
+    const unsupported = row.some(value => toNumber(value) !== undefined && !numberForms(value).some(form => sourceText.includes(form)));
+    return unsupported ? [rowIndex] : [];
+  });
+
+const extractionSchema = z.object({
+  dataset: datasetSchema.describe('The data to chart. Empty rows if the text contains no suitable data.'),
+  chartType: z.enum(DATA_CHART_TYPES).optional().describe('Chart type, if the request asks for one of these.'),
+});
+
+export interface DatasetExtraction {
+  dataset?: Dataset;
+  chartType?: DataChartType;
+  droppedRows: number; // Rows removed because their numbers are not in the source text
+}
+
+/**
+ * Pull the data a chart request needs out of earlier agent outputs. Rows with numbers that do not occur in the
+ * text are dropped, so the chart only shows values the sources contain.
+ */
+export async function extractDataset(request: string, sourceText: string): Promise<DatasetExtraction> {
+  const { object } = await generateObject({
+    model: getModel('dataExtractor'),
+    schema: extractionSchema,
+    prompt: `Extract the data needed for this chart request from the text below.
+
+Chart Request:
+${request}
+
+Rules:
+- Copy every label and number exactly as it appears in the text. Never estimate, round, convert or invent values.
+- Use the column layout of the chart type: ${DATA_CHART_TYPES.map(type => `${type}: ${DATA_CHART_COLUMNS[type]}`).join('; ')}.
+- Name the source of the data (agent, URL or document) in 'source'.
+- If the text does not contain the data, return an empty 'rows' array.
+
+Text:
+${sourceText}`,
+  });
+
+  const unsupported = new Set(findUnsupportedRows(object.dataset, sourceText));
+  if (unsupported.size > 0) {
+    console.warn(`Dataset extraction: dropped ${unsupported.size} rows with numbers not found in the source text`);
+  }
+  const dataset = { ...object.dataset, rows: object.dataset.rows.filter((_, rowIndex) => !unsupported.has(rowIndex)) };
+  return {
+    dataset: dataset.rows.length > 0 ? dataset : undefined,
+    chartType: object.chartType,
+    droppedRows: unsupported.size,
+  };
+}
@@ -0,0 +1,232 @@
+// documentIndex.ts - Chunking and retrieval index (BM25 + optional embeddings) over stored documents
+import { embed, embedMany } from 'ai';
+import { getEmbeddingModel } from './modelRegistry';
+import { dataPath, readJson, writeJson, removeFile, removeDir } from './jsonFileStore';
+import type { ExtractedFile } from './documentStore';
+import { describeLocation } from './documentStructure';
+
+export interface DocumentChunk {
+  index: number;
+  start: number; // Character offset of the chunk in the document text (inclusive)
+  end: number; // Character offset of the chunk end (exclusive)
+  text: string;
+  location?: string; // Page, slide, chapter or section the chunk is in, e.g. `page 12, section "Results"`
+}
+
+interface IndexedChunk extends DocumentChunk {
+  termFrequencies: Record<string, number>;
+  length: number; // Number of terms
+}
+
+interface DocumentIndex {
+  documentId: string;
+  fileName: string;
+  indexedAt: number;
+  chunks: IndexedChunk[];
+  embeddingModel?: string;
+  embeddings?: number[][]; // One vector per chunk, same order as `chunks`
+}
+
+export interface RetrievedChunk extends DocumentChunk {
+  documentId: string;
+  fileName: string;
+  score: number;
+}
+
+// Chunk sizes are in characters; the overlap keeps sentences on chunk borders retrievable
+const CHUNK_SIZE = 1200;
+const CHUNK_OVERLAP = 200;
+
+// BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it', 'its',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'will', 'with', 'about', 'find', 'search',
+  'documents', 'document', 'docs', 'files', 'file', 'mentioning',
+]);
+
+const indexPath = (namespace: string, documentId: string): string => dataPath('indexes', namespace, `${documentId}.json`);
+
+/**
+ * Split text into lowercase terms, dropping stopwords and single characters
+ */
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(term => term.length > 1 && !STOPWORDS.has(term));
+
+/**
+ * Split a document into overlapping chunks, preferring paragraph and sentence boundaries
+ */
+export const chunkText = (text: string, chunkSize = CHUNK_SIZE, overlap = CHUNK_OVERLAP): DocumentChunk[] => {
+  const chunks: DocumentChunk[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    let end = Math.min(start + chunkSize, text.length);
+    if (end < text.length) {
+      // Look back from the hard limit for a natural break in the second half of the chunk
+      const window = text.slice(start + Math.floor(chunkSize / 2), end);
+      const breakAt = Math.max(window.lastIndexOf('\n\n'), window.lastIndexOf('. '), window.lastIndexOf('\n'));
+      if (breakAt !== -1) {
+        end = start + Math.floor(chunkSize / 2) + breakAt + 1;
+      }
+    }
+
+    const chunk = text.slice(start, end);
+    if (chunk.trim() !== '') {
+      chunks.push({ index: chunks.length, start, end, text: chunk });
+    }
+    if (end >= text.length) break;
+    start = Math.max(end - overlap, start + 1);
+  }
+
+  return chunks;
+};
+
+const countTerms = (terms: string[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  for (const term of terms) {
+    counts[term] = (counts[term] ?? 0) + 1;
+  }
+  return counts;
+};
+
+/**
+ * Chunk a document and persist its index. Called whenever a document is created or its text changes.
+ */
+export const indexDocument = async (namespace: string, document: ExtractedFile): Promise<void> => {
+  const chunks: IndexedChunk[] = chunkText(document.text).map(chunk => {
+    const terms = tokenize(chunk.text);
+    const location = describeLocation(document.structure, chunk.start, chunk.end);
+    return { ...chunk, location, termFrequencies: countTerms(terms), length: terms.length };
+  });
+
+  const index: DocumentIndex = {
+    documentId: document.id,
+    fileName: document.fileName,
+    indexedAt: Date.now(),
+    chunks,
+  };
+
+  // Optional embedding index, enabled by configuring an embedding model in the model registry
+  const embeddingModel = getEmbeddingModel();
+  if (embeddingModel && chunks.length > 0) {
+    try {
+      const { embeddings } = await embedMany({
+        model: embeddingModel.model,
+        values: chunks.map(chunk => chunk.text),
+      });
+      index.embeddingModel = embeddingModel.id;
+      index.embeddings = embeddings;
+    } catch (error) {
+      // The lexical index still works without embeddings
+      console.error(`Error embedding chunks of ${document.fileName}:`, error);
+    }
+  }
+
+  await writeJson(indexPath(namespace, document.id), index);
+  console.log(`Indexed ${document.fileName} into ${chunks.length} chunks.`);
+};
+
+/**
+ * Remove the index of a deleted document
+ */
+export const removeDocumentIndex = async (namespace: string, documentId: string): Promise<void> => {
+  await removeFile(indexPath(namespace, documentId));
+};
+
+/**
+ * Remove all indexes of a namespace
+ */
+export const clearDocumentIndexes = async (namespace: string): Promise<void> => {
+  await removeDir(dataPath('indexes', namespace));
+};
+
+// Load the index of a document, (re)building it if it is missing or out of date
+const loadIndex = async (namespace: string, document: ExtractedFile): Promise<DocumentIndex> => {
+  const existing = await readJson<DocumentIndex>(indexPath(namespace, document.id));
+  if (existing && existing.indexedAt >= document.extractedAt && existing.fileName === document.fileName) {
+    return existing;
+  }
+  await indexDocument(namespace, document);
+  return (await readJson<DocumentIndex>(indexPath(namespace, document.id)))!;
+};
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0, normA = 0, normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB));
+};
+
+/**
+ * Retrieve the top-k chunks for a query across the given documents.
+ * Uses BM25, fused with embedding similarity (reciprocal rank fusion) when every index has embeddings.
+ */
+export const searchDocuments = async (
+  namespace: string,
+  documents: ExtractedFile[],
+  query: string,
+  topK = 8
+): Promise<RetrievedChunk[]> => {
+  const indexes = await Promise.all(documents.map(document => loadIndex(namespace, document)));
+  const candidates = indexes.flatMap(index => index.chunks.map((chunk, position) => ({ index, chunk, position })));
+  if (candidates.length === 0) return [];
+
+  // --- BM25 ---
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const averageLength = candidates.reduce((sum, { chunk }) => sum + chunk.length, 0) / candidates.length || 1;
+  const documentFrequency: Record<string, number> = {};
+  for (const term of queryTerms) {
+    documentFrequency[term] = candidates.filter(({ chunk }) => chunk.termFrequencies[term]).length;
+  }
+  const bm25Scores = candidates.map(({ chunk }) => queryTerms.reduce((score, term) => {
+    const frequency = chunk.termFrequencies[term] ?? 0;
+    if (frequency === 0) return score;
+    const idf = Math.log(1 + (candidates.length - documentFrequency[term] + 0.5) / (documentFrequency[term] + 0.5));
+    return score + idf * (frequency * (BM25_K1 + 1)) /
+      (frequency + BM25_K1 * (1 - BM25_B + BM25_B * chunk.length / averageLength));
+  }, 0));
+
+  let scores = bm25Scores;
+
+  // --- Optional embedding similarity ---
+  const embeddingModel = getEmbeddingModel();
+  if (embeddingModel && indexes.every(index => index.embeddingModel === embeddingModel.id && index.embeddings)) {
+    try {
+      const { embedding: queryEmbedding } = await embed({ model: embeddingModel.model, value: query });
+      const vectorScores = candidates.map(({ index, position }) => cosineSimilarity(queryEmbedding, index.embeddings![position]));
+      const rank = (values: number[]) => {
+        const order = values.map((value, i) => ({ value, i })).sort((a, b) => b.value - a.value);
+        const ranks: number[] = new Array(values.length);
+        order.forEach(({ i }, position) => { ranks[i] = position + 1; });
+        return ranks;
+      };
+      const bm25Ranks = rank(bm25Scores);
+      const vectorRanks = rank(vectorScores);
+      // Reciprocal rank fusion with the usual k = 60
+      scores = candidates.map((_, i) => 1 / (60 + bm25Ranks[i]) + 1 / (60 + vectorRanks[i]));
+    } catch (error) {
+      console.error('Error embedding query, falling back to BM25 only:', error);
+    }
+  }
+
+  return candidates
+    .map(({ index, chunk }, i) => ({
+      documentId: index.documentId,
+      fileName: index.fileName,
+      index: chunk.index,
+      start: chunk.start,
+      end: chunk.end,
+      text: chunk.text,
+      location: chunk.location,
+      score: scores[i],
+    }))
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+};
@@ -0,0 +1,211 @@
+// documentStore.ts - Server-side persistent store for extracted documents, one directory per user namespace
+import { createHash } from 'crypto';
+import { dataPath, readJson, writeJson, removeFile, listJsonFiles, removeDir } from './jsonFileStore';
+import { indexDocument, removeDocumentIndex, clearDocumentIndexes } from './documentIndex';
+import type { DocumentTable } from './spreadsheet';
+import type { DocumentFormat, DocumentStructure } from './documentStructure';
+import type { OcrPage } from './ocr';
+
+export interface ExtractedFile {
+  id: string; // Hash of the file name, version and text
+  fileName: string; // Uploads with the same name are versions of one document
+  version: number; // 1 for the first upload of a name, counting up with each re-upload
+  previousVersionId?: string;
+  fileType: string;
+  fileSize: number;
+  text: string;
+  tables?: DocumentTable[]; // Sheets of spreadsheet uploads (and tables found in other files), with typed columns; `text` holds their text form
+  structure?: DocumentStructure; // Pages, slides, chapters and headings as ranges of `text`
+  ocrPages?: OcrPage[]; // Pages (of scans and images) whose text comes from OCR, with its confidence
+  extractedAt: number; // timestamp
+}
+
+// Listing entries leave out the (potentially large) text, tables and structure
+export type DocumentSummary = Omit<ExtractedFile, 'text' | 'tables' | 'structure'> & {
+  textLength: number;
+  sheets?: string[];
+  format?: DocumentFormat;
+  versionCount?: number; // Versions stored under the name, in listings of the latest versions
+};
+
+export type NewDocument = Pick<ExtractedFile, 'fileName' | 'fileType' | 'fileSize' | 'text' | 'tables' | 'structure' | 'ocrPages'>;
+
+export type DocumentUpdate = Partial<Pick<ExtractedFile, 'fileName' | 'text'>>;
+
+export interface StoredDocument {
+  document: ExtractedFile;
+  duplicate: boolean; // The content equals the latest version of the file; `document` is that version
+}
+
+// Which documents a tool may read: a namespace and optionally a subset of its document IDs (any version);
+// without IDs, the latest version of every document
+export interface DocumentSource {
+  namespace: string;
+  documentIds?: string[];
+}
+
+// IDs become file names, so reject anything that could escape the namespace directory
+const DOCUMENT_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+export const isValidDocumentId = (id: string): boolean => DOCUMENT_ID_PATTERN.test(id);
+
+const namespaceDir = (namespace: string): string => dataPath('documents', namespace);
+const documentPath = (namespace: string, id: string): string => dataPath('documents', namespace, `${id}.json`);
+
+/**
+ * Content-based document ID: the first 128 bits of the SHA-256 of the file name, version and text, hex-encoded.
+ * The name and version keep the IDs of empty files and of versions that restore earlier text apart.
+ */
+export const contentId = (fileName: string, version: number, text: string): string =>
+  createHash('sha256').update(`${fileName}\0${version}\0${text}`).digest('hex').slice(0, 32);
+
+const toSummary = ({ text, tables, structure, ...rest }: ExtractedFile): DocumentSummary => ({
+  ...rest,
+  textLength: text.length,
+  sheets: tables?.map(table => table.name),
+  format: structure?.format,
+});
+
+const newestFirst = (a: ExtractedFile, b: ExtractedFile): number => b.version - a.version || b.extractedAt - a.extractedAt;
+
+/**
+ * Get a single document, or null if it does not exist
+ */
+export const getDocument = async (namespace: string, id: string): Promise<ExtractedFile | null> => {
+  if (!isValidDocumentId(id)) return null;
+  const document = await readJson<ExtractedFile>(documentPath(namespace, id));
+  // Documents stored before versioning count as the first version
+  return document && { ...document, version: document.version ?? 1 };
+};
+
+/**
+ * Get all documents of a namespace (or the requested subset), keyed by ID
+ */
+export const getDocuments = async (namespace: string, ids?: string[]): Promise<Record<string, ExtractedFile>> => {
+  const documentIds = ids ?? await listJsonFiles(namespaceDir(namespace));
+  const documents = await Promise.all(documentIds.map(id => getDocument(namespace, id)));
+  const result: Record<string, ExtractedFile> = {};
+  for (const document of documents) {
+    if (document) result[document.id] = document;
+  }
+  return result;
+};
+
+// Group documents by file name, each group newest version first
+const groupVersions = (documents: ExtractedFile[]): ExtractedFile[][] => {
+  const groups = new Map<string, ExtractedFile[]>();
+  for (const document of documents) {
+    groups.set(document.fileName, [...groups.get(document.fileName) ?? [], document]);
+  }
+  return [...groups.values()].map(versions => versions.sort(newestFirst));
+};
+
+const getVersions = async (namespace: string, fileName: string): Promise<ExtractedFile[]> =>
+  Object.values(await getDocuments(namespace)).filter(document => document.fileName === fileName).sort(newestFirst);
+
+/**
+ * Load the documents a tool is allowed to read
+ */
+export const loadDocuments = async (source: DocumentSource): Promise<Record<string, ExtractedFile>> => {
+  if (source.documentIds) return getDocuments(source.namespace, source.documentIds);
+  const latest = groupVersions(Object.values(await getDocuments(source.namespace))).map(versions => versions[0]);
+  return Object.fromEntries(latest.map(document => [document.id, document]));
+};
+
+/**
+ * List the latest version of each document, newest first
+ */
+export const listDocuments = async (namespace: string): Promise<DocumentSummary[]> => {
+  const groups = groupVersions(Object.values(await getDocuments(namespace)));
+  return groups
+    .map(versions => ({ ...toSummary(versions[0]), versionCount: versions.length }))
+    .sort((a, b) => b.extractedAt - a.extractedAt);
+};
+
+/**
+ * List every version of the document a version belongs to, newest first; null if the document does not exist
+ */
+export const listDocumentVersions = async (namespace: string, id: string): Promise<DocumentSummary[] | null> => {
+  const document = await getDocument(namespace, id);
+  if (!document) return null;
+  return (await getVersions(namespace, document.fileName)).map(toSummary);
+};
+
+/**
+ * Store a newly extracted document and chunk it into the retrieval index. An upload with the name of a stored
+ * document becomes its next version, unless its text equals the latest version, which is then returned instead.
+ */
+export const createDocument = async (namespace: string, input: NewDocument): Promise<StoredDocument> => {
+  const [latest] = await getVersions(namespace, input.fileName);
+  if (latest && latest.text === input.text) return { document: latest, duplicate: true };
+
+  const version = latest ? latest.version + 1 : 1;
+  const extractedAt = Date.now();
+  let id = contentId(input.fileName, version, input.text);
+  // Renamed documents keep the IDs they got under their old name, so the ID may be taken
+  if (await getDocument(namespace, id)) id = contentId(input.fileName, version, `${extractedAt}\0${input.text}`);
+  const document: ExtractedFile = {
+    id,
+    ...input,
+    version,
+    previousVersionId: latest?.id,
+    extractedAt,
+  };
+  await writeJson(documentPath(namespace, document.id), document);
+  await indexDocument(namespace, document);
+  return { document, duplicate: false };
+};
+
+/**
+ * Rename a document (all of its versions) or replace its text. New text is stored as the next version, without
+ * structure since its ranges no longer fit. Returns null if the document does not exist.
+ */
+export const updateDocument = async (
+  namespace: string,
+  id: string,
+  update: DocumentUpdate
+): Promise<StoredDocument | { error: string } | null> => {
+  const existing = await getDocument(namespace, id);
+  if (!existing) return null;
+
+  let document = existing;
+  if (update.fileName !== undefined && update.fileName !== existing.fileName) {
+    if ((await getVersions(namespace, update.fileName)).length > 0) {
+      return { error: `A document named ${update.fileName} already exists` };
+    }
+    for (const version of await getVersions(namespace, existing.fileName)) {
+      const renamed = { ...version, fileName: update.fileName };
+      await writeJson(documentPath(namespace, version.id), renamed);
+      await indexDocument(namespace, renamed);
+      if (version.id === id) document = renamed;
+    }
+  }
+  if (update.text === undefined || update.text === document.text) return { document, duplicate: false };
+
+  const { fileType, fileSize, fileName } = document;
+  return createDocument(namespace, { fileName, fileType, fileSize, text: update.text });
+};
+
+/**
+ * Delete a document version and its index, or with `allVersions` every version of the document.
+ * Returns false if it did not exist.
+ */
+export const deleteDocument = async (namespace: string, id: string, allVersions = false): Promise<boolean> => {
+  if (!isValidDocumentId(id)) return false;
+  const document = allVersions ? await getDocument(namespace, id) : null;
+  const ids = document ? (await getVersions(namespace, document.fileName)).map(version => version.id) : [id];
+  let deleted = false;
+  for (const versionId of ids) {
+    await removeDocumentIndex(namespace, versionId);
+    deleted = await removeFile(documentPath(namespace, versionId)) || deleted;
+  }
+  return deleted;
+};
+
+/**
+ * Delete every document in a namespace
+ */
+export const clearDocuments = async (namespace: string): Promise<void> => {
+  await clearDocumentIndexes(namespace);
+  await removeDir(namespaceDir(namespace));
+};
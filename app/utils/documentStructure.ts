@@ -0,0 +1,76 @@
+// documentStructure.ts - Structure of extracted documents (pages, slides, chapters, sheets, headings) as ranges of their text
+export type DocumentFormat =
+  | 'pdf' | 'image' | 'docx' | 'pptx' | 'odt' | 'odp' | 'epub' | 'rtf' | 'html' | 'markdown' | 'text'
+  | 'json' | 'yaml' | 'code' | 'csv' | 'tsv' | 'xlsx' | 'xls' | 'ods';
+
+// Containers split the text into consecutive parts; headings are nested in them
+export const CONTAINER_KINDS = ['page', 'slide', 'chapter', 'sheet'] as const;
+export const SECTION_KINDS = [...CONTAINER_KINDS, 'heading'] as const;
+
+export type ContainerKind = typeof CONTAINER_KINDS[number];
+export type SectionKind = typeof SECTION_KINDS[number];
+
+export interface DocumentSection {
+  kind: SectionKind;
+  number?: number; // Page, slide or chapter number as shown to the user (1-based)
+  title?: string; // Slide or chapter title, sheet name or heading text
+  level?: number; // Heading level, 1 = top
+  start: number; // Character offset in the document text (inclusive)
+  end: number; // Character offset (exclusive)
+}
+
+export interface DocumentStructure {
+  format: DocumentFormat;
+  language?: string; // Programming language of source code files
+  sections: DocumentSection[]; // Ordered by start offset, containers before the headings they contain
+}
+
+/**
+ * How a section is cited, e.g. `page 12`, `slide 4 ("Roadmap")` or `section "Pricing"`
+ */
+export const formatSection = (section: DocumentSection): string => {
+  switch (section.kind) {
+    case 'sheet':
+      return `sheet "${section.title}"`;
+    case 'heading':
+      return `section "${section.title}"`;
+    default:
+      return `${section.kind} ${section.number}${section.title ? ` ("${section.title}")` : ''}`;
+  }
+};
+
+/**
+ * Where a range of the text is located, for citations: the containers it spans and the innermost heading
+ * it starts in, e.g. `pages 3-4, section "Results"`. Undefined for documents without structure.
+ */
+export const describeLocation = (structure: DocumentStructure | undefined, start: number, end: number): string | undefined => {
+  if (!structure) return undefined;
+  const last = Math.max(start, end - 1);
+  const containers = structure.sections.filter(section => section.kind !== 'heading' && section.start <= last && section.end > start);
+  const heading = structure.sections
+    .filter(section => section.kind === 'heading' && section.start <= start && section.end > start)
+    .reduce<DocumentSection | undefined>((innermost, section) => !innermost || section.level! >= innermost.level! ? section : innermost, undefined);
+
+  const parts: string[] = [];
+  if (containers.length === 1 || (containers.length > 1 && containers[0].number === undefined)) {
+    parts.push(formatSection(containers[0]));
+  } else if (containers.length > 1) {
+    parts.push(`${containers[0].kind}s ${containers[0].number}-${containers[containers.length - 1].number}`);
+  }
+  if (heading) parts.push(formatSection(heading));
+  return parts.length > 0 ? parts.join(', ') : undefined;
+};
+
+/**
+ * Shape check of a structure sent by the client; the ranges must lie within the text
+ */
+export const isDocumentStructure = (value: unknown, textLength: number): value is DocumentStructure => {
+  const structure = value as DocumentStructure;
+  return typeof structure?.format === 'string' &&
+    Array.isArray(structure.sections) &&
+    structure.sections.every(section =>
+      (SECTION_KINDS as readonly string[]).includes(section?.kind) &&
+      Number.isInteger(section.start) && Number.isInteger(section.end) &&
+      section.start >= 0 && section.start <= section.end && section.end <= textLength &&
+      (section.title === undefined || typeof section.title === 'string'));
+};
@@ -0,0 +1,102 @@
+// executionBudget.ts - Per-turn execution limits derived from the classified complexity
+import { complexityBudgets, type ExecutionBudget } from '@/app/data/complexity_budgets';
+import { COMPLEXITY_LEVELS, type ComplexityLevel } from '@/app/data/complexity_guidelines';
+import type { PlanningResult } from '@/app/tools/planningTool';
+import type { ResearchToolResult } from '@/app/tools/researchTool';
+
+export type { ExecutionBudget };
+
+// Until the query is classified the most generous budget applies
+export const DEFAULT_EXECUTION_BUDGET: ExecutionBudget = complexityBudgets.CRITICAL_COMPLEXITY;
+
+// Prefix of the error reported for research queries that exceeded the budget
+export const BUDGET_SKIPPED_ERROR = 'Skipped: researcher query budget';
+
+export interface BudgetState {
+  complexity?: ComplexityLevel;
+  budget: ExecutionBudget;
+  researcherQueriesUsed: number;
+  stepsUsed: number; // Orchestrator steps of the turn so far, including those of earlier requests
+}
+
+export const isComplexityLevel = (value: unknown): value is ComplexityLevel =>
+  typeof value === 'string' && (COMPLEXITY_LEVELS as readonly string[]).includes(value);
+
+/**
+ * Switch to the budget of the classified complexity
+ */
+export const applyClassification = (state: BudgetState, complexity: ComplexityLevel): void => {
+  state.complexity = complexity;
+  state.budget = complexityBudgets[complexity];
+  console.log(`Execution budget for ${complexity}:`, state.budget);
+};
+
+// Complexity in a classify tool result ({ success, classification: { complexity } })
+const classifiedComplexity = (result: unknown): ComplexityLevel | undefined => {
+  const complexity = (result as { classification?: { complexity?: unknown } } | undefined)?.classification?.complexity;
+  return isComplexityLevel(complexity) ? complexity : undefined;
+};
+
+/**
+ * Rebuild the budget of a resumed turn from its earlier tool results and the number of steps they took
+ */
+export const createBudgetState = (toolResults: { toolName: string; result: unknown }[], stepsUsed = 0): BudgetState => {
+  const state: BudgetState = { budget: DEFAULT_EXECUTION_BUDGET, researcherQueriesUsed: 0, stepsUsed };
+  for (const { toolName, result } of toolResults) {
+    if (toolName === 'classify') {
+      const complexity = classifiedComplexity(result);
+      if (complexity) applyClassification(state, complexity);
+    } else if (toolName === 'research' && Array.isArray(result)) {
+      state.researcherQueriesUsed += (result as ResearchToolResult).filter(queryResult => !queryResult.error?.startsWith(BUDGET_SKIPPED_ERROR)).length;
+    } else if (toolName === 'deepResearch') {
+      const queriesUsed = (result as { queriesUsed?: unknown } | undefined)?.queriesUsed;
+      if (typeof queriesUsed === 'number') state.researcherQueriesUsed += queriesUsed;
+    } else if (toolName === 'planning') {
+      const plan = result as PlanningResult & { execution?: { error?: string } };
+      if (Array.isArray(plan.agents) && !plan.execution?.error) consumePlanBudget(state, plan);
+    } else if (toolName === 'council') {
+      // Follow-up plans the council ran after a rejection
+      const rounds = (result as { rounds?: { plan?: PlanningResult; execution?: { error?: string } }[] } | undefined)?.rounds ?? [];
+      for (const round of rounds) {
+        if (round.plan && round.execution && !round.execution.error) consumePlanBudget(state, round.plan);
+      }
+    }
+  }
+  return state;
+};
+
+const countResearchers = (plan: PlanningResult): number => plan.agents.filter(agent => agent.type === 'researcher').length;
+
+/**
+ * Check a plan against the budget; returns the reason it is rejected, or undefined if it fits
+ */
+export const checkPlanBudget = (state: BudgetState, plan: PlanningResult): string | undefined => {
+  const { maxAgents, maxResearcherQueries } = state.budget;
+  const level = state.complexity ?? 'unclassified';
+  if (plan.agents.length > maxAgents) {
+    return `The plan has ${plan.agents.length} agents, but the ${level} budget allows at most ${maxAgents}. Plan fewer agents.`;
+  }
+  const researchers = countResearchers(plan);
+  const remaining = maxResearcherQueries - state.researcherQueriesUsed;
+  if (researchers > remaining) {
+    return `The plan has ${researchers} researcher agents, but only ${remaining} of the ${level} budget's ${maxResearcherQueries} researcher queries are left. Plan fewer researchers.`;
+  }
+  return undefined;
+};
+
+/**
+ * Count the researcher queries of an executed plan against the budget
+ */
+export const consumePlanBudget = (state: BudgetState, plan: PlanningResult): void => {
+  state.researcherQueriesUsed += countResearchers(plan);
+};
+
+/**
+ * Split research queries into those the budget still allows and those that are skipped
+ */
+export const reserveResearchQueries = (state: BudgetState, queries: string[]): { allowed: string[]; skipped: string[] } => {
+  const remaining = Math.max(0, state.budget.maxResearcherQueries - state.researcherQueriesUsed);
+  const allowed = queries.slice(0, remaining);
+  state.researcherQueriesUsed += allowed.length;
+  return { allowed, skipped: queries.slice(remaining) };
+};
@@ -0,0 +1,197 @@
+// extractionJobs.ts - Background extraction of uploads: one job per file with progress, cancellation and a small worker pool
+import { randomUUID } from 'crypto';
+import { extractDocument, type ExtractionProgress } from './extractors';
+import { createDocument, deleteDocument } from './documentStore';
+import type { DetectedFormat } from './fileValidation';
+
+export type ExtractionJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type ExtractionJobProgress = ExtractionProgress | { stage: 'storing' }; // Storing = saving and indexing the document
+
+export interface ExtractionJob {
+  id: string;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  status: ExtractionJobStatus;
+  progress?: ExtractionJobProgress; // While running
+  documentId?: string; // The stored document, once completed
+  duplicate?: boolean; // The content was already stored under documentId
+  error?: string; // Why the job failed
+  createdAt: number; // timestamp
+  updatedAt: number; // timestamp
+}
+
+export interface NewExtractionJob {
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  buffer: Buffer;
+  detected: DetectedFormat;
+}
+
+type JobListener = (job: ExtractionJob) => void;
+
+interface JobEntry {
+  namespace: string;
+  job: ExtractionJob;
+  upload?: NewExtractionJob; // Dropped once the job has finished
+  controller: AbortController;
+  listeners: Set<JobListener>;
+}
+
+interface JobRegistry {
+  entries: Map<string, JobEntry>;
+  queue: string[]; // IDs of queued jobs, oldest first
+  running: number;
+}
+
+// Jobs extracted at the same time; OCR keeps a CPU core busy per job
+const MAX_CONCURRENT_JOBS = 2;
+// Finished jobs are kept this long so clients can read their result
+const FINISHED_JOB_RETENTION_MS = 60 * 60 * 1000;
+
+// Jobs live in the memory of the server process. The registry is kept on globalThis so that every route module
+// (which Next.js may bundle separately) sees the same jobs.
+const globalForJobs = globalThis as typeof globalThis & { extractionJobs?: JobRegistry };
+const registry: JobRegistry = globalForJobs.extractionJobs ??= { entries: new Map(), queue: [], running: 0 };
+
+export const isFinished = (job: ExtractionJob): boolean =>
+  job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+
+const updateJob = (entry: JobEntry, changes: Partial<ExtractionJob>): void => {
+  entry.job = { ...entry.job, ...changes, updatedAt: Date.now() };
+  for (const listener of entry.listeners) listener(entry.job);
+  if (isFinished(entry.job)) {
+    entry.upload = undefined;
+    entry.listeners.clear();
+  }
+};
+
+const pruneFinishedJobs = (): void => {
+  const cutoff = Date.now() - FINISHED_JOB_RETENTION_MS;
+  for (const [id, entry] of registry.entries) {
+    if (isFinished(entry.job) && entry.job.updatedAt < cutoff) registry.entries.delete(id);
+  }
+};
+
+const runJob = async (entry: JobEntry): Promise<void> => {
+  const { upload, controller, namespace } = entry;
+  if (!upload) return;
+  const { signal } = controller;
+  updateJob(entry, { status: 'running' });
+  try {
+    const content = await extractDocument(upload.buffer, upload.fileName, upload.detected, {
+      signal,
+      onProgress: progress => updateJob(entry, { progress }),
+    });
+    signal.throwIfAborted();
+    updateJob(entry, { progress: { stage: 'storing' } });
+    const { document, duplicate } = await createDocument(namespace, {
+      fileName: upload.fileName,
+      fileType: upload.fileType,
+      fileSize: upload.fileSize,
+      ...content,
+    });
+    // Cancelled while the document was being stored: remove it again (unless it was stored before)
+    if (signal.aborted) {
+      if (!duplicate) await deleteDocument(namespace, document.id);
+      return;
+    }
+    updateJob(entry, { status: 'completed', progress: undefined, documentId: document.id, duplicate });
+  } catch (error) {
+    if (signal.aborted) return; // Already marked as cancelled
+    console.error(`Error extracting ${upload.fileName}:`, error);
+    updateJob(entry, {
+      status: 'failed',
+      progress: undefined,
+      error: `Failed to extract text: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+};
+
+// Start queued jobs while there is a free slot
+const startQueuedJobs = (): void => {
+  while (registry.running < MAX_CONCURRENT_JOBS && registry.queue.length > 0) {
+    const entry = registry.entries.get(registry.queue.shift()!);
+    if (!entry || entry.job.status !== 'queued') continue;
+    registry.running++;
+    runJob(entry).finally(() => {
+      registry.running--;
+      startQueuedJobs();
+    });
+  }
+};
+
+const findEntry = (namespace: string, id: string): JobEntry | null => {
+  const entry = registry.entries.get(id);
+  return entry && entry.namespace === namespace ? entry : null;
+};
+
+/**
+ * Queue the extraction of an upload; the extracted document is stored in the namespace when the job completes
+ */
+export const submitExtractionJob = (namespace: string, upload: NewExtractionJob): ExtractionJob => {
+  pruneFinishedJobs();
+  const now = Date.now();
+  const entry: JobEntry = {
+    namespace,
+    job: {
+      id: randomUUID(),
+      fileName: upload.fileName,
+      fileType: upload.fileType,
+      fileSize: upload.fileSize,
+      status: 'queued',
+      createdAt: now,
+      updatedAt: now,
+    },
+    upload,
+    controller: new AbortController(),
+    listeners: new Set(),
+  };
+  registry.entries.set(entry.job.id, entry);
+  registry.queue.push(entry.job.id);
+  startQueuedJobs();
+  return entry.job;
+};
+
+/**
+ * Get a job of the namespace, or null if it does not exist (or has expired)
+ */
+export const getExtractionJob = (namespace: string, id: string): ExtractionJob | null =>
+  findEntry(namespace, id)?.job ?? null;
+
+/**
+ * List the jobs of a namespace, newest first
+ */
+export const listExtractionJobs = (namespace: string): ExtractionJob[] => {
+  pruneFinishedJobs();
+  return [...registry.entries.values()]
+    .filter(entry => entry.namespace === namespace)
+    .map(entry => entry.job)
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/**
+ * Cancel a queued or running job. Finished jobs are returned unchanged; null if the job does not exist.
+ */
+export const cancelExtractionJob = (namespace: string, id: string): ExtractionJob | null => {
+  const entry = findEntry(namespace, id);
+  if (!entry) return null;
+  if (!isFinished(entry.job)) {
+    entry.controller.abort();
+    registry.queue = registry.queue.filter(queuedId => queuedId !== id);
+    updateJob(entry, { status: 'cancelled', progress: undefined });
+  }
+  return entry.job;
+};
+
+/**
+ * Call the listener on every change of a job until it finishes. Returns a function that unsubscribes.
+ */
+export const subscribeToExtractionJob = (namespace: string, id: string, listener: JobListener): (() => void) => {
+  const entry = findEntry(namespace, id);
+  if (!entry || isFinished(entry.job)) return () => undefined;
+  entry.listeners.add(listener);
+  return () => { entry.listeners.delete(listener); };
+};
@@ -0,0 +1,644 @@
+// extractors.ts - Per-format text extraction that keeps the document structure (pages, slides, chapters, headings, tables)
+import path from 'path';
+import * as officeParser from 'officeparser';
+import JSZip from 'jszip';
+import yaml from 'js-yaml';
+import { createIsomorphicCanvasFactory, extractText as extractPdfPages, getDocumentProxy, renderPageAsImage } from 'unpdf';
+import { DOMParser } from '@xmldom/xmldom';
+import { parse as parseHtml, NodeType, type HTMLElement, type Node } from 'node-html-parser';
+import { gridToTable, parseSpreadsheet, tablesToText, type DocumentTable } from './spreadsheet';
+import type { ContainerKind, DocumentFormat, DocumentSection, DocumentStructure } from './documentStructure';
+import type { DetectedFormat } from './fileValidation';
+import { MAX_OCR_PAGES, needsOcr, preferOcrText, recognizeImages, type OcrPage } from './ocr';
+
+export interface ExtractedContent {
+  text: string;
+  structure: DocumentStructure;
+  tables?: DocumentTable[]; // Sheets of spreadsheets, and tables found in other documents (queryable by the data analysis tool)
+  ocrPages?: OcrPage[]; // Pages whose text was recognized by OCR, with Tesseract's confidence
+}
+
+// What a long extraction is busy with; OCR reports the pages done so far
+export type ExtractionProgress =
+  | { stage: 'extracting' }
+  | { stage: 'ocr'; completed: number; total: number };
+
+export interface ExtractionOptions {
+  signal?: AbortSignal; // Cancels the extraction between pages
+  onProgress?: (progress: ExtractionProgress) => void;
+}
+
+// --- Structure building ---
+
+/**
+ * Headings end where the next heading of the same or a higher level starts, or with the container they are in
+ */
+const finishSections = (sections: DocumentSection[], textLength: number): DocumentSection[] => {
+  const ordered = [...sections].sort((a, b) => a.start - b.start || Number(a.kind === 'heading') - Number(b.kind === 'heading'));
+  return ordered.map((section, i) => {
+    if (section.kind !== 'heading') return section;
+    const container = ordered.find(other => other.kind !== 'heading' && other.start <= section.start && other.end > section.start);
+    const next = ordered.slice(i + 1).find(other => other.kind === 'heading' && other.level! <= section.level!);
+    return { ...section, end: Math.min(next?.start ?? textLength, container?.end ?? textLength) };
+  });
+};
+
+interface DocumentBuilder {
+  paragraph: (text: string) => void;
+  heading: (title: string, level: number) => void;
+  table: (grid: unknown[][], caption?: string, text?: string) => void;
+  addTable: (table: DocumentTable, text: string) => void;
+  container: (kind: ContainerKind, label: { number?: number; title?: string }, fill: () => void) => void;
+  build: () => ExtractedContent;
+}
+
+const formatGrid = (name: string, grid: unknown[][]): string =>
+  [name, ...grid.map(row => row.map(value => value ?? '').join(' | '))].join('\n');
+
+/**
+ * Builds the document text from blocks separated by blank lines, recording where each container and heading starts
+ */
+const createBuilder = (format: DocumentFormat): DocumentBuilder => {
+  let text = '';
+  const sections: DocumentSection[] = [];
+  const tables: DocumentTable[] = [];
+  let opened: DocumentSection[] = []; // Containers that have no text yet
+
+  const append = (block: string): number => {
+    const trimmed = block.replace(/^\s*\n/, '').trimEnd();
+    if (trimmed.trim() === '') return -1;
+    if (text !== '') text += '\n\n';
+    const start = text.length;
+    text += trimmed;
+    for (const section of opened) section.start = start;
+    opened = [];
+    return start;
+  };
+
+  const builder: DocumentBuilder = {
+    paragraph: block => { append(block); },
+    heading: (title, level) => {
+      const start = append(title);
+      if (start >= 0) sections.push({ kind: 'heading', title: title.trim(), level, start, end: start });
+    },
+    table: (grid, caption, tableText) => {
+      const name = caption?.trim() || `Table ${tables.length + 1}`;
+      const table = gridToTable(name, grid);
+      if (table) builder.addTable(table, tableText ?? formatGrid(name, grid));
+      else if (tableText) append(tableText);
+    },
+    addTable: (table, tableText) => {
+      tables.push(table);
+      append(tableText);
+    },
+    container: (kind, label, fill) => {
+      const section: DocumentSection = { kind, ...label, start: -1, end: -1 };
+      opened.push(section);
+      fill();
+      opened = opened.filter(other => other !== section);
+      // Containers without text (blank pages, cover images) are left out
+      if (section.start === -1) return;
+      section.end = text.length;
+      sections.push(section);
+    },
+    build: () => ({
+      text,
+      structure: { format, sections: finishSections(sections, text.length) },
+      tables: tables.length > 0 ? tables : undefined,
+    }),
+  };
+  return builder;
+};
+
+/**
+ * Headings found line by line in text that is not rebuilt from blocks (source code, data files)
+ */
+const lineHeadings = (text: string, headingAt: (line: string) => { title: string; level: number } | null): DocumentSection[] => {
+  const sections: DocumentSection[] = [];
+  let offset = 0;
+  for (const line of text.split('\n')) {
+    const heading = headingAt(line);
+    if (heading) sections.push({ kind: 'heading', ...heading, start: offset, end: offset });
+    offset += line.length + 1;
+  }
+  return finishSections(sections, text.length);
+};
+
+// --- XML based formats (PPTX, EPUB) ---
+
+const parseXml = (xml: string): Document =>
+  new DOMParser({ errorHandler: { warning: () => undefined } }).parseFromString(xml, 'text/xml');
+
+const elements = (node: Document | Element, tagName: string): Element[] => Array.from(node.getElementsByTagName(tagName));
+const elementsByLocalName = (node: Document | Element, localName: string): Element[] => Array.from(node.getElementsByTagNameNS('*', localName));
+
+const readZipFile = async (zip: JSZip, filePath: string): Promise<string | null> =>
+  (await zip.file(filePath)?.async('string')) ?? null;
+
+// Relationship targets are relative to the directory of the part that references them
+const resolvePart = (fromPart: string, target: string): string =>
+  target.startsWith('/') ? target.slice(1) : path.posix.normalize(path.posix.join(path.posix.dirname(fromPart), target));
+
+const relsPath = (part: string): string => path.posix.join(path.posix.dirname(part), '_rels', `${path.posix.basename(part)}.rels`);
+
+/**
+ * Relationships of an OOXML part, as ID -> { type, target part }
+ */
+const readRelationships = async (zip: JSZip, part: string): Promise<Map<string, { type: string; target: string }>> => {
+  const xml = await readZipFile(zip, relsPath(part));
+  const relationships = new Map<string, { type: string; target: string }>();
+  if (!xml) return relationships;
+  for (const relationship of elementsByLocalName(parseXml(xml), 'Relationship')) {
+    relationships.set(relationship.getAttribute('Id') ?? '', {
+      type: relationship.getAttribute('Type') ?? '',
+      target: resolvePart(part, relationship.getAttribute('Target') ?? ''),
+    });
+  }
+  return relationships;
+};
+
+const drawingParagraphText = (paragraph: Element): string => elements(paragraph, 'a:t').map(run => run.textContent ?? '').join('');
+
+const isPlaceholder = (shape: Element, pattern: RegExp): boolean =>
+  elements(shape, 'p:ph').some(placeholder => pattern.test(placeholder.getAttribute('type') ?? 'body'));
+
+/**
+ * Slide by slide, in presentation order, with the slide title, tables and speaker notes
+ */
+const extractPptx = async (buffer: Buffer): Promise<ExtractedContent> => {
+  const zip = await JSZip.loadAsync(buffer);
+  const presentationPart = 'ppt/presentation.xml';
+  const presentation = await readZipFile(zip, presentationPart);
+  if (!presentation) throw new Error('Not a PowerPoint presentation (ppt/presentation.xml is missing)');
+
+  const relationships = await readRelationships(zip, presentationPart);
+  const slideParts = elements(parseXml(presentation), 'p:sldId')
+    .map(slideId => relationships.get(slideId.getAttribute('r:id') ?? '')?.target)
+    .filter((part): part is string => part !== undefined);
+
+  const slides = await Promise.all(slideParts.map(async part => {
+    const xml = await readZipFile(zip, part);
+    const notesPart = [...(await readRelationships(zip, part)).values()].find(({ type }) => type.endsWith('/notesSlide'))?.target;
+    const notesXml = notesPart ? await readZipFile(zip, notesPart) : null;
+    return { slide: xml ? parseXml(xml) : null, notes: notesXml ? parseXml(notesXml) : null };
+  }));
+
+  const builder = createBuilder('pptx');
+  slides.forEach(({ slide, notes }, i) => {
+    if (!slide) return;
+    const titleShape = elements(slide, 'p:sp').find(shape => isPlaceholder(shape, /^(title|ctrTitle)$/));
+    const title = titleShape ? elements(titleShape, 'a:p').map(drawingParagraphText).join(' ').trim() : '';
+
+    builder.container('slide', { number: i + 1, title: title || undefined }, () => {
+      const walk = (node: Element) => {
+        for (const child of Array.from(node.childNodes)) {
+          if (child.nodeType !== child.ELEMENT_NODE) continue;
+          const element = child as Element;
+          if (element.tagName === 'a:tbl') {
+            const grid = elements(element, 'a:tr').map(row =>
+              elements(row, 'a:tc').map(cell => elements(cell, 'a:p').map(drawingParagraphText).join(' ').trim()));
+            builder.table(grid, `Slide ${i + 1} table`);
+          } else if (element.tagName === 'a:p') {
+            builder.paragraph(drawingParagraphText(element));
+          } else {
+            walk(element);
+          }
+        }
+      };
+      const shapeTree = elements(slide, 'p:spTree')[0];
+      if (shapeTree) walk(shapeTree);
+
+      const notesText = notes
+        ? elements(notes, 'p:sp').filter(shape => isPlaceholder(shape, /^body$/))
+          .flatMap(shape => elements(shape, 'a:p').map(drawingParagraphText)).join(' ').trim()
+        : '';
+      if (notesText) builder.paragraph(`Notes: ${notesText}`);
+    });
+  });
+  return builder.build();
+};
+
+// --- HTML based formats (HTML, EPUB) ---
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'dd', 'div', 'dl', 'dt', 'figcaption', 'figure', 'footer', 'form',
+  'header', 'hr', 'li', 'main', 'ol', 'p', 'section', 'ul',
+]);
+// Scripts, styles, navigation menus and form controls are not content
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'svg', 'head', 'nav', 'iframe', 'object', 'button', 'select']);
+const HEADING_TAG_PATTERN = /^h([1-6])$/;
+
+// Collapse whitespace within lines; line breaks come from <br> only
+const collapseWhitespace = (text: string): string =>
+  text.replace(/[^\S\n]+/g, ' ').replace(/ ?\n ?/g, '\n').trim();
+
+const elementText = (element: HTMLElement): string => collapseWhitespace(element.text.replace(/\s+/g, ' '));
+
+const tagOf = (element: HTMLElement): string => (element.rawTagName ?? '').toLowerCase();
+
+/**
+ * Add the blocks of an HTML element to the builder: headings, paragraphs, list items, preformatted text and tables
+ */
+const addHtmlContent = (root: HTMLElement, builder: DocumentBuilder): void => {
+  let inline = '';
+  const flush = (prefix = '') => {
+    const paragraph = collapseWhitespace(inline);
+    if (paragraph) builder.paragraph(prefix + paragraph);
+    inline = '';
+  };
+
+  const walk = (node: Node) => {
+    for (const child of node.childNodes) {
+      if (child.nodeType === NodeType.TEXT_NODE) {
+        inline += child.text.replace(/\s+/g, ' ');
+        continue;
+      }
+      if (child.nodeType !== NodeType.ELEMENT_NODE) continue;
+      const element = child as HTMLElement;
+      const tag = tagOf(element);
+      const heading = HEADING_TAG_PATTERN.exec(tag);
+      if (SKIPPED_TAGS.has(tag)) {
+        continue;
+      } else if (heading) {
+        flush();
+        builder.heading(elementText(element), Number(heading[1]));
+      } else if (tag === 'table') {
+        flush();
+        const grid = element.querySelectorAll('tr').map(row =>
+          row.childNodes
+            .filter((cell): cell is HTMLElement => cell.nodeType === NodeType.ELEMENT_NODE && ['td', 'th'].includes(tagOf(cell as HTMLElement)))
+            .map(elementText));
+        builder.table(grid, element.querySelector('caption') ? elementText(element.querySelector('caption')!) : undefined);
+      } else if (tag === 'pre') {
+        flush();
+        builder.paragraph(element.text);
+      } else if (tag === 'br') {
+        inline += '\n';
+      } else if (BLOCK_TAGS.has(tag)) {
+        flush();
+        walk(element);
+        flush(tag === 'li' ? '- ' : '');
+      } else {
+        walk(element);
+      }
+    }
+  };
+  walk(root);
+  flush();
+};
+
+const htmlBody = (html: string): HTMLElement => {
+  const root = parseHtml(html, { comment: false });
+  return root.querySelector('body') ?? root;
+};
+
+const extractHtml = (html: string): ExtractedContent => {
+  const builder = createBuilder('html');
+  addHtmlContent(htmlBody(html), builder);
+  return builder.build();
+};
+
+/**
+ * Chapter by chapter, in reading (spine) order
+ */
+const extractEpub = async (buffer: Buffer): Promise<ExtractedContent> => {
+  const zip = await JSZip.loadAsync(buffer);
+  const container = await readZipFile(zip, 'META-INF/container.xml');
+  const packagePart = container ? elementsByLocalName(parseXml(container), 'rootfile')[0]?.getAttribute('full-path') : null;
+  const packageXml = packagePart ? await readZipFile(zip, packagePart) : null;
+  if (!packagePart || !packageXml) throw new Error('Not an EPUB book (the package document is missing)');
+
+  const opf = parseXml(packageXml);
+  const manifest = new Map(elementsByLocalName(opf, 'item').map(item => [item.getAttribute('id') ?? '', item]));
+  const chapterParts = elementsByLocalName(opf, 'itemref')
+    .map(itemref => manifest.get(itemref.getAttribute('idref') ?? ''))
+    .filter(item => item && /html/.test(item.getAttribute('media-type') ?? ''))
+    .map(item => resolvePart(packagePart, decodeURIComponent(item!.getAttribute('href') ?? '')));
+
+  const chapters = await Promise.all(chapterParts.map(part => readZipFile(zip, part)));
+
+  const builder = createBuilder('epub');
+  let chapterNumber = 0;
+  for (const xhtml of chapters) {
+    if (!xhtml) continue;
+    const root = parseHtml(xhtml, { comment: false });
+    const body = root.querySelector('body') ?? root;
+    if (elementText(body) === '') continue; // Cover images and blank pages
+    const titleElement = body.querySelector('h1') ?? body.querySelector('h2') ?? body.querySelector('h3') ?? root.querySelector('title');
+    chapterNumber++;
+    builder.container('chapter', { number: chapterNumber, title: titleElement ? elementText(titleElement) || undefined : undefined }, () =>
+      addHtmlContent(body, builder));
+  }
+  return builder.build();
+};
+
+// --- PDF and images ---
+
+// unpdf is typed against the `canvas` package; @napi-rs/canvas offers the same createCanvas without native build steps
+type CanvasLoader = NonNullable<Parameters<typeof createIsomorphicCanvasFactory>[0]>;
+const loadCanvas = (() => import('@napi-rs/canvas')) as unknown as CanvasLoader;
+
+// Pages are rendered at twice the PDF resolution (144 dpi) for OCR
+const OCR_RENDER_SCALE = 2;
+
+/**
+ * Page by page; pages without a usable text layer (scans) are rendered and run through OCR
+ */
+const extractPdf = async (buffer: Buffer, { signal, onProgress }: ExtractionOptions): Promise<ExtractedContent> => {
+  const pdf = await getDocumentProxy(new Uint8Array(buffer), { canvasFactory: await createIsomorphicCanvasFactory(loadCanvas) });
+  const { text: pages } = await extractPdfPages(pdf, { mergePages: false });
+
+  const ocrPages: OcrPage[] = [];
+  const scannedPages = pages.flatMap((page, i) => needsOcr(page) ? [i + 1] : []).slice(0, MAX_OCR_PAGES);
+  if (scannedPages.length > 0) {
+    try {
+      const images: Buffer[] = [];
+      for (const pageNumber of scannedPages) {
+        signal?.throwIfAborted();
+        images.push(Buffer.from(await renderPageAsImage(pdf, pageNumber, { canvas: loadCanvas, scale: OCR_RENDER_SCALE })));
+      }
+      const recognized = await recognizeImages(images, {
+        signal,
+        onProgress: (completed, total) => onProgress?.({ stage: 'ocr', completed, total }),
+      });
+      recognized.forEach(({ text, confidence }, i) => {
+        const pageNumber = scannedPages[i];
+        if (!preferOcrText(pages[pageNumber - 1], text)) return;
+        pages[pageNumber - 1] = text;
+        ocrPages.push({ page: pageNumber, confidence });
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      // The text layer is still returned when OCR is not available
+      console.error('Error running OCR on PDF pages:', error);
+    }
+  }
+
+  const builder = createBuilder('pdf');
+  pages.forEach((page, i) => builder.container('page', { number: i + 1 }, () => builder.paragraph(page.replace(/\n{3,}/g, '\n\n'))));
+  return { ...builder.build(), ocrPages: ocrPages.length > 0 ? ocrPages : undefined };
+};
+
+const extractImage = async (buffer: Buffer, { signal, onProgress }: ExtractionOptions): Promise<ExtractedContent> => {
+  if (MAX_OCR_PAGES === 0) return { text: '', structure: { format: 'image', sections: [] } };
+  const [{ text, confidence }] = await recognizeImages([buffer], {
+    signal,
+    onProgress: (completed, total) => onProgress?.({ stage: 'ocr', completed, total }),
+  });
+  const builder = createBuilder('image');
+  builder.container('page', { number: 1 }, () => builder.paragraph(text));
+  return { ...builder.build(), ocrPages: [{ page: 1, confidence }] };
+};
+
+// --- RTF ---
+
+// Destinations (groups) whose content is not document text
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'themedata', 'colorschememapping', 'latentstyles',
+  'datastore', 'xmlnstbl', 'listtable', 'listoverridetable', 'rsidtbl', 'generator', 'filetbl', 'revtbl', 'fldinst',
+  'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl', 'footerr', 'footerf', 'footnote', 'bkmkstart', 'bkmkend',
+]);
+
+const RTF_SPECIAL_CHARACTERS: Record<string, string> = {
+  par: '\n', line: '\n', sect: '\n\n', page: '\n\n', row: '\n', cell: ' | ', tab: '\t',
+  emdash: '—', endash: '–', bullet: '•', lquote: '‘', rquote: '’', ldblquote: '“', rdblquote: '”',
+};
+
+const RTF_TOKEN_PATTERN = /\\([a-z]{1,32})(-?\d{1,10})? ?|\\'([0-9a-f]{2})|\\([^a-z])|([{}])|[\r\n]+|([^\\{}\r\n])/gi;
+
+/**
+ * Plain text of an RTF document: control words are dropped, paragraph marks become line breaks,
+ * and \'hh and \uN escapes are decoded (\'hh as Windows-1252)
+ */
+export const rtfToText = (rtf: string): string => {
+  const windows1252 = new TextDecoder('windows-1252');
+  const stack: { ignorable: boolean; unicodeSkip: number }[] = [];
+  let ignorable = false;
+  let unicodeSkip = 1; // Fallback characters that follow a \uN escape
+  let skipping = 0;
+  let output = '';
+
+  for (const [, word, argument, hex, symbol, brace, character] of rtf.matchAll(RTF_TOKEN_PATTERN)) {
+    if (brace) {
+      skipping = 0;
+      if (brace === '{') {
+        stack.push({ ignorable, unicodeSkip });
+      } else {
+        ({ ignorable, unicodeSkip } = stack.pop() ?? { ignorable: false, unicodeSkip: 1 });
+      }
+    } else if (symbol) {
+      skipping = 0;
+      if (symbol === '*') ignorable = true;
+      else if (!ignorable && symbol === '~') output += ' ';
+      else if (!ignorable && '{}\\'.includes(symbol)) output += symbol;
+      else if (!ignorable && (symbol === '\n' || symbol === '\r')) output += '\n';
+    } else if (word) {
+      skipping = 0;
+      if (RTF_SKIPPED_DESTINATIONS.has(word)) {
+        ignorable = true;
+      } else if (ignorable) {
+        continue;
+      } else if (word in RTF_SPECIAL_CHARACTERS) {
+        output += RTF_SPECIAL_CHARACTERS[word];
+      } else if (word === 'uc') {
+        unicodeSkip = Number(argument ?? 1);
+      } else if (word === 'u') {
+        const code = Number(argument);
+        output += String.fromCharCode(code < 0 ? code + 0x10000 : code);
+        skipping = unicodeSkip;
+      }
+    } else if (hex) {
+      if (skipping > 0) skipping--;
+      else if (!ignorable) output += windows1252.decode(Uint8Array.of(parseInt(hex, 16)));
+    } else if (character) {
+      if (skipping > 0) skipping--;
+      else if (!ignorable) output += character;
+    }
+  }
+  return output;
+};
+
+const extractRtf = (buffer: Buffer): ExtractedContent => {
+  const builder = createBuilder('rtf');
+  // RTF is 7-bit; characters outside ASCII are escaped
+  rtfToText(buffer.toString('latin1')).split('\n').forEach(line => builder.paragraph(line));
+  return builder.build();
+};
+
+// --- Markdown and plain text ---
+
+const MARKDOWN_HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const MARKDOWN_TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+const markdownCells = (line: string): string[] => line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+
+const extractMarkdown = (markdown: string): ExtractedContent => {
+  const builder = createBuilder('markdown');
+  const lines = markdown.split(/\r?\n/);
+  let block: string[] = [];
+  const flush = () => {
+    builder.paragraph(block.join('\n'));
+    block = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const heading = MARKDOWN_HEADING_PATTERN.exec(line);
+    if (/^\s*(```|~~~)/.test(line)) {
+      // Fenced code stays one block, so '#' comments in it are not taken for headings
+      flush();
+      const fence = line.trim().slice(0, 3);
+      let end = i + 1;
+      while (end < lines.length && !lines[end].trim().startsWith(fence)) end++;
+      builder.paragraph(lines.slice(i, end + 1).join('\n'));
+      i = end;
+    } else if (heading) {
+      flush();
+      builder.heading(heading[2], heading[1].length);
+    } else if (line.includes('|') && MARKDOWN_TABLE_SEPARATOR_PATTERN.test(lines[i + 1] ?? '')) {
+      flush();
+      let end = i + 2;
+      while (end < lines.length && lines[end].includes('|') && lines[end].trim() !== '') end++;
+      const rows = [lines[i], ...lines.slice(i + 2, end)];
+      builder.table(rows.map(markdownCells), undefined, lines.slice(i, end).join('\n'));
+      i = end - 1;
+    } else if (line.trim() === '') {
+      flush();
+    } else {
+      block.push(line);
+    }
+  }
+  flush();
+  return builder.build();
+};
+
+// --- Data files (JSON, YAML) and source code: headings mark the top-level keys or declarations ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Lists of flat records become tables: one column per key, nested values as JSON
+ */
+const recordTables = (data: unknown): DocumentTable[] => {
+  const candidates: [string, unknown][] = Array.isArray(data) ? [['records', data]] : isRecord(data) ? Object.entries(data) : [];
+  return candidates.flatMap(([name, value]) => {
+    if (!Array.isArray(value) || value.length === 0 || !value.every(isRecord)) return [];
+    const keys = [...new Set(value.flatMap(record => Object.keys(record)))];
+    const grid = [keys, ...value.map(record => keys.map(key => {
+      const cell = record[key];
+      return typeof cell === 'object' && cell !== null ? JSON.stringify(cell) : cell;
+    }))];
+    const table = gridToTable(name, grid);
+    return table ? [table] : [];
+  });
+};
+
+// Data files that do not parse (JSONC with comments, trailing commas, templated YAML) are stored as plain text
+const plainTextFallback = (source: string, format: string, error: unknown): ExtractedContent => {
+  console.warn(`Extractors: ${format} did not parse, storing it as plain text:`, error instanceof Error ? error.message : error);
+  return { text: source, structure: { format: 'text', sections: [] } };
+};
+
+const extractJson = (source: string): ExtractedContent => {
+  let data: unknown;
+  try {
+    data = JSON.parse(source);
+  } catch (error) {
+    return plainTextFallback(source, 'JSON', error);
+  }
+  // Pretty-printed, so that top-level keys start a line
+  const text = JSON.stringify(data, null, 2);
+  const sections = isRecord(data) ? lineHeadings(text, line => {
+    const key = /^ {2}("(?:[^"\\]|\\.)*"):/.exec(line);
+    return key ? { title: JSON.parse(key[1]), level: 1 } : null;
+  }) : [];
+  const tables = recordTables(data);
+  return { text, structure: { format: 'json', sections }, tables: tables.length > 0 ? tables : undefined };
+};
+
+const extractYaml = (source: string): ExtractedContent => {
+  let documents: unknown[];
+  try {
+    documents = yaml.loadAll(source);
+  } catch (error) {
+    return plainTextFallback(source, 'YAML', error);
+  }
+  const tables = documents.flatMap(recordTables);
+  const sections = lineHeadings(source, line => {
+    const key = /^(?!\.\.\.)(['"]?)([^\s'":#-][^:#]*?)\1:(\s|$)/.exec(line);
+    return key ? { title: key[2].trim(), level: 1 } : null;
+  });
+  return { text: source, structure: { format: 'yaml', sections }, tables: tables.length > 0 ? tables : undefined };
+};
+
+// Unindented declarations of the common languages: functions, classes, types, and `const x = (...) =>` style functions
+const DECLARATION_PATTERN = new RegExp([
+  String.raw`^(?:export\s+(?:default\s+)?)?(?:pub(?:\([\w:]+\))?\s+)?(?:(?:public|private|protected|internal|static|abstract|final|async|unsafe)\s+)*`,
+  String.raw`(?:(function\*?|class|interface|type|enum|def|fn|func|struct|trait|impl|module|namespace|object)\s+([A-Za-z_$][\w$]*)`,
+  String.raw`|(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*(?::[^=]+)?=\s*(?:async\s*)?(?:function|\([^)]*\)\s*(?::[^=]+)?=>|[A-Za-z_$][\w$]*\s*=>))`,
+].join(''));
+
+const extractCode = (source: string, language?: string): ExtractedContent => ({
+  text: source,
+  structure: {
+    format: 'code',
+    language,
+    sections: lineHeadings(source, line => {
+      const declaration = DECLARATION_PATTERN.exec(line);
+      if (!declaration) return null;
+      return { title: declaration[1] ? `${declaration[1]} ${declaration[2]}` : declaration[3], level: 1 };
+    }),
+  },
+});
+
+// --- Spreadsheets and the formats read by officeparser ---
+
+const extractSpreadsheet = (buffer: Buffer, fileName: string, format: DocumentFormat): ExtractedContent => {
+  const builder = createBuilder(format);
+  for (const table of parseSpreadsheet(buffer, fileName)) {
+    builder.container('sheet', { title: table.name }, () => builder.addTable(table, tablesToText([table])));
+  }
+  return builder.build();
+};
+
+// DOCX and OpenDocument text/presentations: plain text without structure
+const extractOffice = async (buffer: Buffer, format: DocumentFormat): Promise<ExtractedContent> => ({
+  text: await officeParser.parseOfficeAsync(buffer),
+  structure: { format, sections: [] },
+});
+
+const decodeText = (buffer: Buffer): string => buffer.toString('utf8').replace(/^\uFEFF/, '');
+
+/**
+ * Extract the text, structure and tables of an upload whose format was checked by detectFormat
+ */
+export const extractDocument = async (
+  buffer: Buffer,
+  fileName: string,
+  { format, language }: DetectedFormat,
+  options: ExtractionOptions = {}
+): Promise<ExtractedContent> => {
+  options.onProgress?.({ stage: 'extracting' });
+  switch (format) {
+    case 'pdf': return extractPdf(buffer, options);
+    case 'image': return extractImage(buffer, options);
+    case 'pptx': return extractPptx(buffer);
+    case 'epub': return extractEpub(buffer);
+    case 'html': return extractHtml(decodeText(buffer));
+    case 'rtf': return extractRtf(buffer);
+    case 'markdown': return extractMarkdown(decodeText(buffer));
+    case 'json': return extractJson(decodeText(buffer));
+    case 'yaml': return extractYaml(decodeText(buffer));
+    case 'code': return extractCode(decodeText(buffer), language);
+    case 'text': return { text: decodeText(buffer), structure: { format, sections: [] } };
+    case 'csv':
+    case 'tsv':
+    case 'xlsx':
+    case 'xls':
+    case 'ods':
+      return extractSpreadsheet(buffer, fileName, format);
+    default:
+      return extractOffice(buffer, format);
+  }
+};
@@ -1,78 +1,169 @@
-// fileStorage.ts - Utility functions for handling file storage in localStorage
+// fileStorage.ts - Client helpers for the server-side document store (/api/documents) and extraction jobs (/api/extraction-jobs)
+import type { ExtractedFile, DocumentSummary } from './documentStore';
+import type { ExtractionJob } from './extractionJobs';
+import { getUserId } from './userId';
+import { USER_ID_HEADER } from './userNamespace';
 
-interface ExtractedFile {
-  fileName: string;
-  fileType: string;
-  fileSize: number;
-  text: string;
-  extractedAt: number; // timestamp
-}
+export type { ExtractedFile, DocumentSummary, ExtractionJob };
 
-const STORAGE_KEY = 'extractedTexts';
+const API_BASE = '/api/documents';
+const JOBS_API_BASE = '/api/extraction-jobs';
+// Polling interval when the progress stream is unavailable
+const JOB_POLL_INTERVAL_MS = 1000;
+
+const userHeaders = (): Record<string, string> => ({ [USER_ID_HEADER]: getUserId() });
 
 /**
- * Save extracted file text to localStorage
+ * Get metadata for all stored documents, keyed by document ID
  */
-export const saveExtractedText = (fileName: string, fileType: string, fileSize: number, text: string): void => {
+export const getExtractedTexts = async (): Promise<Record<string, DocumentSummary>> => {
   try {
-    // Get existing data
-    const existingData = getExtractedTexts();
-    
-    // Add or update file data
-    existingData[fileName] = {
-      fileName,
-      fileType,
-      fileSize,
-      text,
-      extractedAt: Date.now()
-    };
-    
-    // Save back to localStorage
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(existingData));
+    const response = await fetch(API_BASE, { headers: userHeaders() });
+    if (!response.ok) {
+      throw new Error(`Failed to list documents: ${response.statusText}`);
+    }
+    const { documents }: { documents: DocumentSummary[] } = await response.json();
+    return Object.fromEntries(documents.map(document => [document.id, document]));
   } catch (error) {
-    console.error('Error saving to localStorage:', error);
+    console.error('Error retrieving documents:', error);
+    return {};
   }
 };
 
 /**
- * Get all extracted texts from localStorage
+ * Get a stored document including its text
  */
-export const getExtractedTexts = (): Record<string, ExtractedFile> => {
+export const getExtractedText = async (id: string): Promise<ExtractedFile | null> => {
   try {
-    const data = localStorage.getItem(STORAGE_KEY);
-    return data ? JSON.parse(data) : {};
+    const response = await fetch(`${API_BASE}/${encodeURIComponent(id)}`, { headers: userHeaders() });
+    if (!response.ok) {
+      throw new Error(`Failed to read document: ${response.statusText}`);
+    }
+    const { document } = await response.json();
+    return document;
   } catch (error) {
-    console.error('Error retrieving from localStorage:', error);
-    return {};
+    console.error('Error retrieving document:', error);
+    return null;
   }
 };
 
 /**
- * Get extracted text for a specific file
+ * Get metadata for every version of a document, newest first
  */
-export const getExtractedText = (fileName: string): ExtractedFile | null => {
-  const texts = getExtractedTexts();
-  return texts[fileName] || null;
+export const getDocumentVersions = async (id: string): Promise<DocumentSummary[]> => {
+  try {
+    const response = await fetch(`${API_BASE}/${encodeURIComponent(id)}/versions`, { headers: userHeaders() });
+    if (!response.ok) {
+      throw new Error(`Failed to list document versions: ${response.statusText}`);
+    }
+    const { versions } = await response.json();
+    return versions;
+  } catch (error) {
+    console.error('Error retrieving document versions:', error);
+    return [];
+  }
 };
 
 /**
- * Remove an extracted text from storage
+ * Remove a document version from the store, or with `allVersions` the whole document
  */
-export const removeExtractedText = (fileName: string): void => {
+export const removeExtractedText = async (id: string, allVersions = false): Promise<void> => {
   try {
-    const existingData = getExtractedTexts();
-    if (existingData[fileName]) {
-      delete existingData[fileName];
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(existingData));
+    const response = await fetch(`${API_BASE}/${encodeURIComponent(id)}${allVersions ? '?versions=all' : ''}`, {
+      method: 'DELETE',
+      headers: userHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to delete document: ${response.statusText}`);
+    }
+  } catch (error) {
+    console.error('Error removing document:', error);
+  }
+};
+
+/**
+ * Upload a file for extraction in the background. Throws with the server's message if the upload is rejected.
+ */
+export const submitExtractionJob = async (file: File): Promise<ExtractionJob> => {
+  const formData = new FormData();
+  formData.append('file', file);
+  const response = await fetch(JOBS_API_BASE, { method: 'POST', headers: userHeaders(), body: formData });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(body.error || `Failed to upload ${file.name}: ${response.statusText}`);
+  }
+  return body.job;
+};
+
+const finished = (job: ExtractionJob): boolean =>
+  job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+
+const fetchJob = async (id: string): Promise<ExtractionJob> => {
+  const response = await fetch(`${JOBS_API_BASE}/${encodeURIComponent(id)}`, { headers: userHeaders() });
+  if (!response.ok) {
+    throw new Error(`Failed to read extraction job: ${response.statusText}`);
+  }
+  const { job } = await response.json();
+  return job;
+};
+
+// Read the job's server-sent events; returns the last job received (undefined if the stream could not be opened)
+const streamJob = async (id: string, onUpdate: (job: ExtractionJob) => void): Promise<ExtractionJob | undefined> => {
+  const response = await fetch(`${JOBS_API_BASE}/${encodeURIComponent(id)}`, {
+    headers: { ...userHeaders(), Accept: 'text/event-stream' },
+  });
+  if (!response.ok || !response.body) return undefined;
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  let latest: ExtractionJob | undefined;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return latest;
+    buffered += value;
+    const events = buffered.split('\n\n');
+    buffered = events.pop()!;
+    for (const event of events) {
+      const data = event.split('\n').find(line => line.startsWith('data: '));
+      if (!data) continue;
+      latest = JSON.parse(data.slice('data: '.length));
+      onUpdate(latest!);
     }
+  }
+};
+
+/**
+ * Follow an extraction job until it finishes, calling onUpdate on every change. Streams the progress and falls
+ * back to polling when the stream is unavailable or breaks off. Resolves with the finished job.
+ */
+export const watchExtractionJob = async (id: string, onUpdate: (job: ExtractionJob) => void): Promise<ExtractionJob> => {
+  try {
+    const job = await streamJob(id, onUpdate);
+    if (job && finished(job)) return job;
   } catch (error) {
-    console.error('Error removing from localStorage:', error);
+    console.error('Error streaming extraction job, polling instead:', error);
+  }
+  while (true) {
+    const job = await fetchJob(id);
+    onUpdate(job);
+    if (finished(job)) return job;
+    await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
   }
 };
 
 /**
- * Clear all extracted texts from storage
+ * Cancel a queued or running extraction job
  */
-export const clearExtractedTexts = (): void => {
-  localStorage.removeItem(STORAGE_KEY);
-}; 
\ No newline at end of file
+export const cancelExtractionJob = async (id: string): Promise<void> => {
+  try {
+    const response = await fetch(`${JOBS_API_BASE}/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+      headers: userHeaders(),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to cancel extraction job: ${response.statusText}`);
+    }
+  } catch (error) {
+    console.error('Error cancelling extraction job:', error);
+  }
+};
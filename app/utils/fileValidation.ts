@@ -0,0 +1,127 @@
+// fileValidation.ts - Upload checks: size limit, and the file type from the extension confirmed by the file's magic bytes
+import type { DocumentFormat } from './documentStructure';
+
+// Largest accepted upload; larger files are rejected with 413 before they are parsed
+export const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+export interface DetectedFormat {
+  format: DocumentFormat;
+  language?: string; // For source code files
+}
+
+const FORMATS_BY_EXTENSION: Record<string, DocumentFormat> = {
+  pdf: 'pdf', png: 'image', jpg: 'image', jpeg: 'image', webp: 'image', bmp: 'image', tif: 'image', tiff: 'image',
+  docx: 'docx', pptx: 'pptx', odt: 'odt', odp: 'odp', epub: 'epub', rtf: 'rtf',
+  html: 'html', htm: 'html', xhtml: 'html',
+  md: 'markdown', markdown: 'markdown', txt: 'text', log: 'text',
+  json: 'json', yaml: 'yaml', yml: 'yaml',
+  csv: 'csv', tsv: 'tsv', xlsx: 'xlsx', xls: 'xls', ods: 'ods',
+};
+
+const CODE_LANGUAGES: Record<string, string> = {
+  ts: 'typescript', tsx: 'typescript', js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript',
+  py: 'python', java: 'java', kt: 'kotlin', scala: 'scala', c: 'c', h: 'c', cpp: 'cpp', cc: 'cpp', hpp: 'cpp',
+  cs: 'csharp', go: 'go', rs: 'rust', rb: 'ruby', php: 'php', swift: 'swift', dart: 'dart', lua: 'lua', r: 'r',
+  sh: 'shell', bash: 'shell', sql: 'sql', css: 'css', scss: 'scss', xml: 'xml', vue: 'vue', svelte: 'svelte',
+};
+
+export const SUPPORTED_EXTENSIONS = [...Object.keys(FORMATS_BY_EXTENSION), ...Object.keys(CODE_LANGUAGES)];
+
+// ZIP containers whose first entry is an uncompressed `mimetype` file (OpenDocument, EPUB) name their type at byte 38
+const ZIP_MIMETYPES: Partial<Record<DocumentFormat, string>> = {
+  odt: 'application/vnd.oasis.opendocument.text',
+  odp: 'application/vnd.oasis.opendocument.presentation',
+  ods: 'application/vnd.oasis.opendocument.spreadsheet',
+  epub: 'application/epub+zip',
+};
+
+const ZIP_FORMATS: DocumentFormat[] = ['docx', 'pptx', 'xlsx', 'odt', 'odp', 'ods', 'epub'];
+
+const startsWith = (buffer: Buffer, bytes: number[]): boolean => bytes.every((byte, i) => buffer[i] === byte);
+
+const isZip = (buffer: Buffer): boolean => startsWith(buffer, [0x50, 0x4b, 0x03, 0x04]);
+const isOleCompoundFile = (buffer: Buffer): boolean => startsWith(buffer, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+// PDF allows up to 1 KB of junk before the header
+const isPdf = (buffer: Buffer): boolean => buffer.subarray(0, 1024).includes('%PDF-');
+const isRtf = (buffer: Buffer): boolean => buffer.subarray(0, 5).toString('latin1') === '{\\rtf';
+
+// Image types Tesseract can read: PNG, JPEG, WebP, BMP and TIFF (either byte order)
+const isImage = (buffer: Buffer): boolean =>
+  startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]) ||
+  startsWith(buffer, [0xff, 0xd8, 0xff]) ||
+  (buffer.subarray(0, 4).toString('latin1') === 'RIFF' && buffer.subarray(8, 12).toString('latin1') === 'WEBP') ||
+  startsWith(buffer, [0x42, 0x4d]) ||
+  startsWith(buffer, [0x49, 0x49, 0x2a, 0x00]) ||
+  startsWith(buffer, [0x4d, 0x4d, 0x00, 0x2a]);
+
+// Text formats have no signature: the file must decode as UTF-8 and contain no NUL bytes
+const isUtf8Text = (buffer: Buffer): boolean => {
+  if (buffer.includes(0)) return false;
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const matchesSignature = (buffer: Buffer, format: DocumentFormat): boolean => {
+  if (ZIP_FORMATS.includes(format)) {
+    if (!isZip(buffer)) return false;
+    const mimetype = ZIP_MIMETYPES[format];
+    return !mimetype || buffer.subarray(30, 38).toString('latin1') !== 'mimetype' ||
+      buffer.subarray(38, 38 + mimetype.length).toString('latin1') === mimetype;
+  }
+  switch (format) {
+    case 'pdf': return isPdf(buffer);
+    case 'image': return isImage(buffer);
+    case 'rtf': return isRtf(buffer);
+    case 'xls': return isOleCompoundFile(buffer);
+    default: return isUtf8Text(buffer);
+  }
+};
+
+/**
+ * Determine the format of an upload from its extension and check that the content matches it.
+ * Returns an error (answered with 415) for unknown extensions and for content of another type.
+ */
+export const detectFormat = (fileName: string, buffer: Buffer): DetectedFormat | { error: string } => {
+  const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+  const language = CODE_LANGUAGES[extension];
+  const format = language ? 'code' : FORMATS_BY_EXTENSION[extension];
+  if (!format) {
+    return { error: `Unsupported file type${extension ? ` '.${extension}'` : ''}. Supported: ${SUPPORTED_EXTENSIONS.map(e => `.${e}`).join(', ')}` };
+  }
+  if (!matchesSignature(buffer, format)) {
+    return { error: `The content of ${fileName} is not a valid .${extension} file.` };
+  }
+  return language ? { format, language } : { format };
+};
+
+// Room for the multipart boundaries and headers around the file
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+export interface Upload {
+  file: File;
+  buffer: Buffer;
+  detected: DetectedFormat;
+}
+
+/**
+ * Read the `file` field of a multipart upload and check its size (413) and type (415)
+ */
+export const readUpload = async (request: Request): Promise<Upload | { error: string; status: number }> => {
+  const tooLarge = { error: `File too large. The limit is ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB.`, status: 413 };
+  // Reject oversized uploads before the body is read
+  if (Number(request.headers.get('content-length')) > MAX_UPLOAD_BYTES + MULTIPART_OVERHEAD_BYTES) return tooLarge;
+
+  const file = (await request.formData()).get('file');
+  if (!(file instanceof File)) return { error: 'No file provided', status: 400 };
+  if (file.size > MAX_UPLOAD_BYTES) return tooLarge;
+
+  const buffer = Buffer.from(await file.arrayBuffer());
+  // The extension picks the extractor; the magic bytes must agree with it
+  const detected = detectFormat(file.name, buffer);
+  if ('error' in detected) return { error: detected.error, status: 415 };
+  return { file, buffer, detected };
+};
@@ -0,0 +1,215 @@
+// grounding.ts - Claim-level check of the final answer against the evidence gathered by the tools
+import { generateObject } from 'ai';
+import { z } from 'zod';
+import { getModel } from './modelRegistry';
+import { getDocument } from './documentStore';
+import type { ResearchToolResult } from '@/app/tools/researchTool';
+import type { DeepResearchResult } from '@/app/tools/deepResearchTool';
+import type { ContextualizerResult } from '@/app/tools/contextualizerTool';
+import type { QaResult } from '@/app/tools/qaTool';
+import type { DataAnalysisResult } from '@/app/tools/dataAnalysisTool';
+import type { PlanExecutionResult } from './planExecutor';
+import type { RemediatedCouncilResult } from './councilRemediation';
+
+export type EvidenceKind = 'web' | 'document' | 'quote' | 'data';
+
+export interface GroundingEvidence {
+  id: string; // "E1", "E2", ... as cited in the answer
+  kind: EvidenceKind;
+  title: string;
+  url?: string;
+  snippet: string;
+}
+
+export interface GroundedClaim {
+  claim: string;
+  sentence: string; // Sentence of the answer the claim was taken from
+  start: number; // Offset of `sentence` in the answer, -1 if the model did not copy it verbatim
+  evidenceIds: string[];
+  supported: boolean;
+}
+
+// Attached to the assistant message as a message annotation
+export interface GroundingAnnotation {
+  type: 'grounding';
+  text: string; // The answer text that was checked
+  claims: GroundedClaim[];
+  evidence: GroundingEvidence[];
+  error?: string;
+}
+
+// A tool result from the current request, as found in the streamText steps
+export interface ToolResultLike {
+  toolName: string;
+  result: unknown;
+}
+
+// Limits that keep the grounding prompt and the annotation small
+const MAX_EVIDENCE = 40;
+const PROMPT_SNIPPET_LENGTH = 1500;
+const ANNOTATION_SNIPPET_LENGTH = 300;
+
+const truncate = (text: string, length: number): string => text.length > length ? `${text.slice(0, length)}…` : text;
+
+// Evidence without ids yet; `key` deduplicates the same source returned by several tools
+type EvidenceCandidate = Omit<GroundingEvidence, 'id'> & { key: string };
+
+// Web results are checked against their verbatim quotes where there are any, otherwise the summary or page text
+const researchEvidence = (result: ResearchToolResult): EvidenceCandidate[] =>
+  result.flatMap(queryResult => queryResult.results
+    .map(item => ({ item, snippet: item.quotes?.map(quote => `"${quote.text}"`).join(' … ') || item.summary || item.text }))
+    .filter(({ snippet }) => snippet)
+    .map(({ item, snippet }) => ({ key: item.url, kind: 'web' as const, title: item.title || item.url, url: item.url, snippet: snippet! })));
+
+const qaEvidence = (result: QaResult): EvidenceCandidate[] =>
+  result.quotes.map(quote => ({ key: `quote:${quote.quote}`, kind: 'quote' as const, title: quote.source, snippet: quote.quote }));
+
+// Computed result tables of the data analysis tool
+const dataEvidence = (result: DataAnalysisResult): EvidenceCandidate[] => {
+  if (!result.columns || !result.rows) return [];
+  const table = [result.columns.map(column => column.name), ...result.rows.map(row => row.map(value => value ?? ''))]
+    .map(row => row.join(' | '))
+    .join('\n');
+  return [{ key: `data:${result.file}:${result.sheet}:${table}`, kind: 'data', title: `${result.file} / ${result.sheet}`, snippet: table }];
+};
+
+// Contextualizer results only reference chunks, so the chunk text is read back from the document store.
+// IDs are content hashes, so the cited version is found even after the file was uploaded again.
+const contextualizerEvidence = async (namespace: string, result: ContextualizerResult): Promise<EvidenceCandidate[]> => {
+  const candidates = await Promise.all(result.sources.map(async (source): Promise<EvidenceCandidate | null> => {
+    const document = await getDocument(namespace, source.documentId);
+    if (!document) return null;
+    return {
+      key: `${source.documentId}:${source.start}`,
+      kind: 'document',
+      title: `${source.fileName} v${document.version} (${source.location ? `${source.location}, ` : ''}chars ${source.start}-${source.end})`,
+      snippet: document.text.slice(source.start, source.end),
+    };
+  }));
+  return candidates.filter((candidate): candidate is EvidenceCandidate => candidate !== null);
+};
+
+/**
+ * Collect the evidence (web results, document chunks, verified quotes and computed tables) returned by the tools of a request,
+ * including the agents run by the plan executor, the rounds of deep research and the council's follow-up rounds
+ */
+export const collectEvidence = async (namespace: string, toolResults: ToolResultLike[]): Promise<GroundingEvidence[]> => {
+  const candidates: EvidenceCandidate[] = [];
+
+  const addResult = async (type: string, result: unknown) => {
+    if (!result) return;
+    switch (type) {
+      case 'research':
+      case 'researcher':
+        if (Array.isArray(result)) candidates.push(...researchEvidence(result as ResearchToolResult));
+        break;
+      case 'deepResearch':
+        for (const round of (result as Partial<DeepResearchResult>).rounds ?? []) await addResult('research', round.results);
+        break;
+      case 'contextualizer':
+        if (Array.isArray((result as ContextualizerResult).sources)) {
+          candidates.push(...await contextualizerEvidence(namespace, result as ContextualizerResult));
+        }
+        break;
+      case 'qa':
+        if (Array.isArray((result as QaResult).quotes)) candidates.push(...qaEvidence(result as QaResult));
+        break;
+      case 'dataAnalysis':
+      case 'dataAnalyst':
+        candidates.push(...dataEvidence(result as DataAnalysisResult));
+        break;
+      case 'planning': {
+        const execution = (result as { execution?: PlanExecutionResult }).execution;
+        for (const agent of execution?.agents ?? []) {
+          if (agent.status === 'completed') await addResult(agent.type, agent.output);
+        }
+        break;
+      }
+      case 'council': {
+        // Follow-up agents run by the council's revise-and-retry loop
+        for (const round of (result as Partial<RemediatedCouncilResult>).rounds ?? []) {
+          if (round.execution) await addResult('planning', { execution: round.execution });
+        }
+        break;
+      }
+    }
+  };
+
+  for (const { toolName, result } of toolResults) {
+    await addResult(toolName, result);
+  }
+
+  const seen = new Set<string>();
+  return candidates
+    .filter(candidate => candidate.snippet.trim() !== '' && !seen.has(candidate.key) && seen.add(candidate.key))
+    .slice(0, MAX_EVIDENCE)
+    .map((candidate, index) => ({
+      id: `E${index + 1}`,
+      kind: candidate.kind,
+      title: candidate.title,
+      url: candidate.url,
+      snippet: candidate.snippet,
+    }));
+};
+
+// Schema the LLM fills in; sentences are located in the answer and evidence ids are checked afterwards
+const groundingGenerationSchema = z.object({
+  claims: z.array(z.object({
+    sentence: z.string().describe('The sentence of the answer that contains the claim, copied exactly as written.'),
+    claim: z.string().describe('One atomic factual claim made in that sentence.'),
+    evidenceIds: z.array(z.string()).describe('Ids of the evidence items (e.g. "E3") that support the claim. Empty if none does.'),
+    supported: z.boolean().describe('True only if the listed evidence explicitly supports the claim.'),
+  })),
+});
+
+/**
+ * Split an answer into atomic claims and map each one to the evidence that supports it
+ */
+export const checkGrounding = async (answer: string, evidence: GroundingEvidence[]): Promise<GroundingAnnotation> => {
+  const annotation: GroundingAnnotation = {
+    type: 'grounding',
+    text: answer,
+    claims: [],
+    evidence: evidence.map(item => ({ ...item, snippet: truncate(item.snippet, ANNOTATION_SNIPPET_LENGTH) })),
+  };
+
+  const evidenceText = evidence.length > 0
+    ? evidence.map(item => `--- [${item.id}] ${item.title}${item.url ? ` <${item.url}>` : ''} ---\n${truncate(item.snippet, PROMPT_SNIPPET_LENGTH)}`).join('\n\n')
+    : '(no evidence was gathered)';
+
+  try {
+    const { object } = await generateObject({
+      model: getModel('grounding'),
+      schema: groundingGenerationSchema,
+      prompt: `You verify that an AI answer is grounded in the evidence its tools gathered.
+
+Split the answer into atomic factual claims. Skip greetings, opinions, questions, instructions and statements about the answer itself.
+For every claim, copy the sentence it comes from exactly as written in the answer, and list the ids of the evidence items that explicitly support it.
+A claim is supported only if an evidence item states it; do not use your own knowledge.
+
+EVIDENCE:
+${evidenceText}
+
+ANSWER:
+${answer}`,
+    });
+
+    const evidenceIds = new Set(evidence.map(item => item.id));
+    annotation.claims = object.claims.map(claim => {
+      const supportingIds = claim.evidenceIds.filter(id => evidenceIds.has(id));
+      return {
+        claim: claim.claim,
+        sentence: claim.sentence,
+        start: claim.sentence.trim() === '' ? -1 : answer.indexOf(claim.sentence),
+        evidenceIds: supportingIds,
+        supported: claim.supported && supportingIds.length > 0,
+      };
+    });
+    console.log(`Grounding check: ${annotation.claims.filter(claim => claim.supported).length}/${annotation.claims.length} claims supported.`);
+  } catch (error) {
+    console.error('Error during grounding check:', error);
+    annotation.error = `Grounding check failed: ${error instanceof Error ? error.message : String(error)}`;
+  }
+
+  return annotation;
+};
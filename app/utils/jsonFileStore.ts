@@ -0,0 +1,70 @@
+// jsonFileStore.ts - File-backed JSON persistence shared by the server-side stores
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Root directory for all persisted server data (documents, conversations, caches)
+export const DATA_DIR = process.env.JUDGE_DATA_DIR || path.join(process.cwd(), '.data');
+
+/**
+ * Build a path inside DATA_DIR
+ */
+export const dataPath = (...segments: string[]): string => path.join(DATA_DIR, ...segments);
+
+const isMissingFileError = (error: unknown): boolean =>
+  typeof error === 'object' && error !== null && (error as NodeJS.ErrnoException).code === 'ENOENT';
+
+/**
+ * Read and parse a JSON file, or return null if it does not exist
+ */
+export const readJson = async <T>(filePath: string): Promise<T | null> => {
+  try {
+    const data = await fs.readFile(filePath, 'utf8');
+    return JSON.parse(data) as T;
+  } catch (error) {
+    if (isMissingFileError(error)) return null;
+    throw error;
+  }
+};
+
+/**
+ * Write a JSON file atomically (write to a temp file, then rename)
+ */
+export const writeJson = async (filePath: string, value: unknown): Promise<void> => {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(value), 'utf8');
+  await fs.rename(tempPath, filePath);
+};
+
+/**
+ * Delete a file. Returns false if it did not exist.
+ */
+export const removeFile = async (filePath: string): Promise<boolean> => {
+  try {
+    await fs.unlink(filePath);
+    return true;
+  } catch (error) {
+    if (isMissingFileError(error)) return false;
+    throw error;
+  }
+};
+
+/**
+ * List the names (without extension) of the JSON files in a directory
+ */
+export const listJsonFiles = async (dirPath: string): Promise<string[]> => {
+  try {
+    const entries = await fs.readdir(dirPath);
+    return entries.filter(entry => entry.endsWith('.json')).map(entry => entry.slice(0, -'.json'.length));
+  } catch (error) {
+    if (isMissingFileError(error)) return [];
+    throw error;
+  }
+};
+
+/**
+ * Delete a directory and everything in it
+ */
+export const removeDir = async (dirPath: string): Promise<void> => {
+  await fs.rm(dirPath, { recursive: true, force: true });
+};
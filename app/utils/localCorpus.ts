@@ -0,0 +1,288 @@
+// localCorpus.ts - Offline search corpus (e.g. a Wikipedia dump) with a BM25 index on disk, for the `local` search provider
+import { promises as fs, createReadStream } from 'fs';
+import path from 'path';
+import { dataPath, readJson, writeJson, removeDir } from './jsonFileStore';
+import { tokenize, chunkText } from './documentIndex';
+import type { SearchProvider, SearchResult } from './searchProviders';
+
+/*
+ * Corpus layout (LOCAL_CORPUS_PATH, default JUDGE_DATA_DIR/corpus, searched recursively):
+ *   *.jsonl / *.ndjson  one article per line: { "title", "text", "url"?, "publishedDate"? } - the format of
+ *                       wikiextractor's --json output, so extracted Wikipedia dumps can be used as they are
+ *   *.md / *.txt        one article per file, titled by its first "# " heading or its file name
+ * The index lives in JUDGE_DATA_DIR/corpus-index and is rebuilt when a corpus file is added, removed or changed.
+ * Article text is not copied into the index; it is read back from the corpus files by byte offset.
+ */
+
+interface CorpusFile {
+  path: string; // Relative to the corpus directory
+  size: number;
+  mtimeMs: number;
+}
+
+interface CorpusArticle {
+  file: number; // Index into the manifest's files
+  offset: number; // Byte range of the article (its line, or the whole file)
+  length: number;
+  terms: number; // Number of terms, for BM25 length normalization
+  title: string;
+  url: string;
+  publishedDate?: string;
+}
+
+interface CorpusManifest {
+  files: CorpusFile[];
+  articleCount: number;
+  averageLength: number;
+}
+
+// Postings of the terms that hash to a shard: term -> [article, term frequency, article, term frequency, ...]
+type PostingShard = Record<string, number[]>;
+
+interface LoadedCorpus {
+  manifest: CorpusManifest;
+  articles: CorpusArticle[];
+  shards: Map<number, PostingShard>; // Loaded on demand
+}
+
+const CORPUS_DIR = process.env.LOCAL_CORPUS_PATH || dataPath('corpus');
+const INDEX_DIR = dataPath('corpus-index');
+
+const LINE_FORMATS = ['.jsonl', '.ndjson'];
+const FILE_FORMATS = ['.md', '.markdown', '.txt'];
+
+// Postings are split over this many files so that a query only reads the shards of its terms
+const SHARD_COUNT = 64;
+
+// Same BM25 parameters as the document index
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Length of the passage returned as a result's snippet
+const SNIPPET_SIZE = 400;
+
+const shardOf = (term: string): number => {
+  let hash = 0;
+  for (let i = 0; i < term.length; i++) hash = (hash * 31 + term.charCodeAt(i)) >>> 0;
+  return hash % SHARD_COUNT;
+};
+
+const shardPath = (shard: number): string => path.join(INDEX_DIR, 'postings', `${shard}.json`);
+
+const listCorpusFiles = async (dir = CORPUS_DIR): Promise<CorpusFile[]> => {
+  const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+  const files: CorpusFile[] = [];
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listCorpusFiles(fullPath));
+    } else if ([...LINE_FORMATS, ...FILE_FORMATS].includes(path.extname(entry.name).toLowerCase())) {
+      const { size, mtimeMs } = await fs.stat(fullPath);
+      files.push({ path: path.relative(CORPUS_DIR, fullPath), size, mtimeMs });
+    }
+  }
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+};
+
+const sameFiles = (a: CorpusFile[], b: CorpusFile[]): boolean =>
+  a.length === b.length && a.every((file, i) => file.path === b[i].path && file.size === b[i].size && file.mtimeMs === b[i].mtimeMs);
+
+// Lines of a file with their byte offsets; the file is streamed, so dumps need not fit into memory
+async function* readLines(filePath: string): AsyncGenerator<{ offset: number; length: number; line: string }> {
+  let offset = 0;
+  let pending: Buffer[] = [];
+  for await (const chunk of createReadStream(filePath) as AsyncIterable<Buffer>) {
+    let start = 0;
+    let newline: number;
+    while ((newline = chunk.indexOf(10, start)) !== -1) {
+      const line = Buffer.concat([...pending, chunk.subarray(start, newline)]);
+      yield { offset, length: line.length, line: line.toString('utf8') };
+      offset += line.length + 1;
+      pending = [];
+      start = newline + 1;
+    }
+    if (start < chunk.length) pending.push(chunk.subarray(start));
+  }
+  const rest = Buffer.concat(pending);
+  if (rest.length > 0) yield { offset, length: rest.length, line: rest.toString('utf8') };
+}
+
+interface LineArticle {
+  title?: string;
+  text?: string;
+  url?: string;
+  publishedDate?: string;
+  date?: string;
+}
+
+const parseLine = (line: string): LineArticle | null => {
+  try {
+    const article = JSON.parse(line);
+    return typeof article?.text === 'string' ? article : null;
+  } catch {
+    return null;
+  }
+};
+
+const fileTitle = (text: string, filePath: string): string =>
+  text.match(/^#\s+(.+)$/m)?.[1].trim() ?? path.basename(filePath, path.extname(filePath));
+
+const corpusUrl = (filePath: string, line?: number): string =>
+  `local-corpus:${filePath.split(path.sep).join('/')}${line !== undefined ? `#L${line}` : ''}`;
+
+/**
+ * Index every article of the corpus and write the index files
+ */
+const buildIndex = async (files: CorpusFile[]): Promise<LoadedCorpus> => {
+  console.log(`Indexing local corpus ${CORPUS_DIR} (${files.length} files)...`);
+  const articles: CorpusArticle[] = [];
+  const postings = new Map<string, number[]>();
+  let totalTerms = 0;
+
+  const addArticle = (article: Omit<CorpusArticle, 'terms'>, text: string) => {
+    const counts = new Map<string, number>();
+    const terms = tokenize(`${article.title}\n${text}`);
+    for (const term of terms) counts.set(term, (counts.get(term) ?? 0) + 1);
+    for (const [term, count] of counts) {
+      const list = postings.get(term);
+      if (list) list.push(articles.length, count);
+      else postings.set(term, [articles.length, count]);
+    }
+    articles.push({ ...article, terms: terms.length });
+    totalTerms += terms.length;
+  };
+
+  for (const [fileIndex, file] of files.entries()) {
+    const fullPath = path.join(CORPUS_DIR, file.path);
+    if (LINE_FORMATS.includes(path.extname(file.path).toLowerCase())) {
+      let lineNumber = 0;
+      for await (const { offset, length, line } of readLines(fullPath)) {
+        lineNumber++;
+        const article = parseLine(line);
+        if (!article?.text?.trim()) continue;
+        addArticle({
+          file: fileIndex,
+          offset,
+          length,
+          title: article.title || article.text.trim().split('\n')[0].slice(0, 100),
+          url: article.url || corpusUrl(file.path, lineNumber),
+          publishedDate: article.publishedDate ?? article.date,
+        }, article.text);
+      }
+    } else {
+      const text = await fs.readFile(fullPath, 'utf8');
+      if (!text.trim()) continue;
+      addArticle({ file: fileIndex, offset: 0, length: file.size, title: fileTitle(text, file.path), url: corpusUrl(file.path) }, text);
+    }
+  }
+
+  const shards: PostingShard[] = Array.from({ length: SHARD_COUNT }, () => ({}));
+  for (const [term, list] of postings) shards[shardOf(term)][term] = list;
+
+  const manifest: CorpusManifest = { files, articleCount: articles.length, averageLength: totalTerms / (articles.length || 1) };
+  await removeDir(INDEX_DIR);
+  await Promise.all(shards.map((shard, i) => writeJson(shardPath(i), shard)));
+  await writeJson(path.join(INDEX_DIR, 'articles.json'), articles);
+  // Written last: an index without a manifest is incomplete and gets rebuilt
+  await writeJson(path.join(INDEX_DIR, 'manifest.json'), manifest);
+  console.log(`Indexed ${articles.length} articles of the local corpus.`);
+
+  return { manifest, articles, shards: new Map(shards.map((shard, i) => [i, shard])) };
+};
+
+let loaded: LoadedCorpus | undefined;
+let loading: Promise<LoadedCorpus> | undefined;
+
+// The index for the current corpus files: kept in memory, read from disk, or (re)built
+const loadCorpus = async (): Promise<LoadedCorpus> => {
+  const files = await listCorpusFiles();
+  if (loaded && sameFiles(loaded.manifest.files, files)) return loaded;
+  loading ??= (async () => {
+    const manifest = await readJson<CorpusManifest>(path.join(INDEX_DIR, 'manifest.json'));
+    if (manifest && sameFiles(manifest.files, files)) {
+      const articles = await readJson<CorpusArticle[]>(path.join(INDEX_DIR, 'articles.json'));
+      if (articles) return { manifest, articles, shards: new Map() };
+    }
+    return buildIndex(files);
+  })().finally(() => { loading = undefined; });
+  loaded = await loading;
+  return loaded;
+};
+
+const loadShard = async (corpus: LoadedCorpus, shard: number): Promise<PostingShard> => {
+  let postings = corpus.shards.get(shard);
+  if (!postings) {
+    postings = await readJson<PostingShard>(shardPath(shard)) ?? {};
+    corpus.shards.set(shard, postings);
+  }
+  return postings;
+};
+
+const readArticleText = async ({ manifest }: LoadedCorpus, article: CorpusArticle): Promise<string> => {
+  const file = manifest.files[article.file];
+  const handle = await fs.open(path.join(CORPUS_DIR, file.path), 'r');
+  try {
+    const buffer = Buffer.alloc(article.length);
+    await handle.read(buffer, 0, article.length, article.offset);
+    const content = buffer.toString('utf8');
+    return LINE_FORMATS.includes(path.extname(file.path).toLowerCase()) ? parseLine(content)?.text ?? '' : content;
+  } finally {
+    await handle.close();
+  }
+};
+
+// The passage of the text with the most query term occurrences
+const bestPassage = (text: string, queryTerms: Set<string>): string => {
+  const passages = chunkText(text, SNIPPET_SIZE, 0);
+  const hits = (passage: string) => tokenize(passage).filter(term => queryTerms.has(term)).length;
+  const best = passages.reduce<{ text: string; hits: number } | null>((top, passage) => {
+    const count = hits(passage.text);
+    return !top || count > top.hits ? { text: passage.text, hits: count } : top;
+  }, null);
+  return best?.text.replace(/\s+/g, ' ').trim() ?? '';
+};
+
+/**
+ * Rank the corpus articles for a query with BM25 and return the top results with their full text
+ */
+export const searchLocalCorpus = async (query: string, numResults: number): Promise<SearchResult[]> => {
+  const corpus = await loadCorpus();
+  const { articleCount, averageLength } = corpus.manifest;
+  if (articleCount === 0) {
+    throw new Error(`The local search corpus (${CORPUS_DIR}) has no articles. Add .jsonl, .md or .txt files to it.`);
+  }
+
+  const queryTerms = new Set(tokenize(query));
+  const scores = new Map<number, number>();
+  for (const term of queryTerms) {
+    const postings = (await loadShard(corpus, shardOf(term)))[term];
+    if (!postings) continue;
+    const documentFrequency = postings.length / 2;
+    const idf = Math.log(1 + (articleCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+    for (let i = 0; i < postings.length; i += 2) {
+      const frequency = postings[i + 1];
+      const length = corpus.articles[postings[i]].terms;
+      const score = idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * length / averageLength));
+      scores.set(postings[i], (scores.get(postings[i]) ?? 0) + score);
+    }
+  }
+
+  const top = [...scores.entries()].sort((a, b) => b[1] - a[1]).slice(0, numResults);
+  return Promise.all(top.map(async ([index]) => {
+    const article = corpus.articles[index];
+    const text = await readArticleText(corpus, article);
+    return {
+      title: article.title,
+      url: article.url,
+      publishedDate: article.publishedDate,
+      snippet: bestPassage(text, queryTerms),
+      text,
+    };
+  }));
+};
+
+export const createLocalCorpusProvider = (): SearchProvider => ({
+  name: 'local',
+  summarizes: false,
+  search: (query, { numResults }) => searchLocalCorpus(query, numResults),
+});
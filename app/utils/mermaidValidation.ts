@@ -0,0 +1,46 @@
+// mermaidValidation.ts - Headless syntax check of generated Mermaid code with Mermaid's own parser
+import DOMPurify from 'dompurify';
+import type { Mermaid } from 'mermaid';
+
+export type MermaidParseResult =
+  | { valid: true; diagramType: string }
+  | { valid: false; error: string };
+
+let mermaidPromise: Promise<Mermaid> | undefined;
+
+/**
+ * Load Mermaid once for parsing on the server.
+ * Some diagram parsers sanitize labels with DOMPurify, which needs a DOM; without one it exposes no methods.
+ * Parsing only checks the syntax and nothing is rendered, so labels pass through unchanged.
+ */
+const loadMermaid = (): Promise<Mermaid> => {
+  if (!mermaidPromise) {
+    if (!DOMPurify.isSupported) {
+      Object.assign(DOMPurify, {
+        sanitize: (text: string) => text,
+        addHook: () => undefined,
+        removeHook: () => undefined,
+        removeHooks: () => undefined,
+        removeAllHooks: () => undefined,
+      });
+    }
+    mermaidPromise = import('mermaid').then(({ default: mermaid }) => {
+      mermaid.initialize({ startOnLoad: false, securityLevel: 'strict', logLevel: 'fatal' });
+      return mermaid;
+    });
+  }
+  return mermaidPromise;
+};
+
+/**
+ * Parse Mermaid code the way mermaid.run does in the browser; returns the exact parse error if it fails
+ */
+export const parseMermaid = async (code: string): Promise<MermaidParseResult> => {
+  const mermaid = await loadMermaid();
+  try {
+    const { diagramType } = await mermaid.parse(code);
+    return { valid: true, diagramType };
+  } catch (error) {
+    return { valid: false, error: error instanceof Error ? error.message : String(error) };
+  }
+};
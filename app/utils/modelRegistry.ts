@@ -0,0 +1,223 @@
+// modelRegistry.ts - Central mapping of pipeline roles to model providers and IDs
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import type { LanguageModel, EmbeddingModel } from 'ai';
+import { anthropic } from '@ai-sdk/anthropic';
+import { openai, createOpenAI } from '@ai-sdk/openai';
+import { google } from '@ai-sdk/google';
+
+/*
+ * Resolution order (later wins):
+ *   1. DEFAULT_MODEL_SPECS below
+ *   2. The JSON config file (MODEL_CONFIG_PATH, default ./models.config.json), see models.config.example.json
+ *   3. Environment variables: MODEL_DEFAULT, then MODEL_<ROLE> (e.g. MODEL_DIAGRAM_GENERATOR=local:qwen2.5-coder)
+ * In the file and in the environment, "default" applies to every role before the role-specific entries.
+ * Model specs are written as "provider:modelId"; the model ID may itself contain colons (e.g. "local:llama3.1:8b").
+ *
+ * Council judges are configured separately (file "councilJudges" or MODEL_COUNCIL_JUDGES, comma-separated,
+ * with an optional "@weight" suffix, e.g. "openai:gpt-4o-mini@2,local:llama3.1:8b"). Without that setting the
+ * council uses the council, evaluator and orchestrator role models, i.e. one judge per provider by default.
+ */
+
+export const MODEL_ROLES = [
+  'orchestrator',
+  'classifier',
+  'possibility',
+  'council',
+  'diagramGenerator',
+  'evaluator',
+  'contextSearch',
+  'qa',
+  'grounding',
+  'remediationPlanner',
+  'dataExtractor',
+  'researchPlanner',
+] as const;
+
+export type ModelRole = typeof MODEL_ROLES[number];
+
+// 'local' is any OpenAI-compatible endpoint (Ollama, llama.cpp server, vLLM, ...)
+export const MODEL_PROVIDERS = ['anthropic', 'openai', 'google', 'local'] as const;
+
+export type ModelProvider = typeof MODEL_PROVIDERS[number];
+
+export interface ModelSpec {
+  provider: ModelProvider;
+  modelId: string;
+}
+
+export interface CouncilJudgeSpec extends ModelSpec {
+  weight: number; // Voting weight of the judge
+}
+
+interface ModelConfigFile {
+  default?: string;
+  models?: Partial<Record<ModelRole, string>>;
+  councilJudges?: Array<string | { model: string; weight?: number }>;
+  embedding?: string;
+  local?: { baseURL?: string; apiKey?: string };
+}
+
+const DEFAULT_MODEL_SPECS: Record<ModelRole, string> = {
+  orchestrator: 'anthropic:claude-3-7-sonnet-20250219',
+  classifier: 'openai:gpt-4o',
+  possibility: 'openai:gpt-4o',
+  council: 'openai:gpt-4o-mini',
+  diagramGenerator: 'google:gemini-2.5-pro-preview-03-25',
+  evaluator: 'google:gemini-2.5-pro-preview-03-25',
+  contextSearch: 'google:gemini-2.5-pro-preview-03-25',
+  qa: 'google:gemini-2.5-pro-preview-03-25',
+  grounding: 'google:gemini-2.5-pro-preview-03-25',
+  remediationPlanner: 'anthropic:claude-3-7-sonnet-20250219',
+  dataExtractor: 'openai:gpt-4o',
+  researchPlanner: 'anthropic:claude-3-7-sonnet-20250219',
+};
+
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1'; // Ollama's OpenAI-compatible API
+
+/**
+ * Parse a "provider:modelId" string
+ */
+export const parseModelSpec = (value: string): ModelSpec => {
+  const separator = value.indexOf(':');
+  const provider = value.slice(0, separator).trim();
+  const modelId = value.slice(separator + 1).trim();
+  if (separator === -1 || modelId === '' || !(MODEL_PROVIDERS as readonly string[]).includes(provider)) {
+    throw new Error(`Invalid model spec "${value}". Expected "<${MODEL_PROVIDERS.join('|')}>:<modelId>".`);
+  }
+  return { provider: provider as ModelProvider, modelId };
+};
+
+// Parse a council judge entry, "provider:modelId" with an optional "@weight" suffix
+const parseCouncilJudge = (value: string | { model: string; weight?: number }): CouncilJudgeSpec => {
+  let spec = typeof value === 'string' ? value : value.model;
+  let weight = typeof value === 'string' ? 1 : value.weight ?? 1;
+  const weightMatch = spec.match(/^(.*)@(\d+(?:\.\d+)?)$/);
+  if (weightMatch) {
+    spec = weightMatch[1];
+    weight = Number(weightMatch[2]);
+  }
+  if (!(weight > 0)) {
+    throw new Error(`Invalid council judge weight in "${typeof value === 'string' ? value : value.model}". Weights must be positive.`);
+  }
+  return { ...parseModelSpec(spec), weight };
+};
+
+// MODEL_<ROLE> environment variable name, e.g. diagramGenerator -> MODEL_DIAGRAM_GENERATOR
+const roleEnvName = (role: ModelRole): string => `MODEL_${role.replace(/([A-Z])/g, '_$1').toUpperCase()}`;
+
+const readConfigFile = (): ModelConfigFile => {
+  const configPath = process.env.MODEL_CONFIG_PATH || path.join(process.cwd(), 'models.config.json');
+  if (!existsSync(configPath)) return {};
+  try {
+    return JSON.parse(readFileSync(configPath, 'utf8')) as ModelConfigFile;
+  } catch (error) {
+    throw new Error(`Failed to read model config ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+interface ResolvedModelConfig {
+  models: Record<ModelRole, ModelSpec>;
+  councilJudges: CouncilJudgeSpec[];
+  embedding?: ModelSpec;
+  local: { baseURL: string; apiKey: string };
+}
+
+let resolvedConfig: ResolvedModelConfig | undefined;
+
+/**
+ * Resolve the model configuration once per process
+ */
+export const getModelConfig = (): ResolvedModelConfig => {
+  if (resolvedConfig) return resolvedConfig;
+
+  const file = readConfigFile();
+  const specs: Record<ModelRole, string> = { ...DEFAULT_MODEL_SPECS };
+
+  for (const role of MODEL_ROLES) {
+    specs[role] = file.models?.[role] ?? file.default ?? specs[role];
+  }
+  for (const role of MODEL_ROLES) {
+    specs[role] = process.env[roleEnvName(role)] || process.env.MODEL_DEFAULT || specs[role];
+  }
+
+  const embedding = process.env.MODEL_EMBEDDING || file.embedding;
+  const models = Object.fromEntries(MODEL_ROLES.map(role => [role, parseModelSpec(specs[role])])) as Record<ModelRole, ModelSpec>;
+
+  const judgeEntries = process.env.MODEL_COUNCIL_JUDGES
+    ? process.env.MODEL_COUNCIL_JUDGES.split(',').map(entry => entry.trim()).filter(entry => entry !== '')
+    : file.councilJudges;
+  const councilJudges = judgeEntries && judgeEntries.length > 0
+    ? judgeEntries.map(parseCouncilJudge)
+    : (['council', 'evaluator', 'orchestrator'] as const).map(role => ({ ...models[role], weight: 1 }));
+
+  resolvedConfig = {
+    models,
+    councilJudges,
+    embedding: embedding ? parseModelSpec(embedding) : undefined,
+    local: {
+      baseURL: process.env.LOCAL_LLM_BASE_URL || file.local?.baseURL || DEFAULT_LOCAL_BASE_URL,
+      // Local servers usually ignore the key, but the OpenAI client requires one
+      apiKey: process.env.LOCAL_LLM_API_KEY || file.local?.apiKey || 'local',
+    },
+  };
+  console.log('Model registry resolved:', Object.entries(resolvedConfig.models).map(([role, spec]) => `${role}=${spec.provider}:${spec.modelId}`).join(', '));
+  console.log('Council judges:', councilJudges.map(judge => `${judge.provider}:${judge.modelId} (weight ${judge.weight})`).join(', '));
+  return resolvedConfig;
+};
+
+const createLocalProvider = () => {
+  const { local } = getModelConfig();
+  return createOpenAI({ baseURL: local.baseURL, apiKey: local.apiKey, compatibility: 'compatible', name: 'local' });
+};
+
+/**
+ * Create a language model instance for a spec
+ */
+export const createLanguageModel = ({ provider, modelId }: ModelSpec): LanguageModel => {
+  switch (provider) {
+    case 'anthropic':
+      return anthropic(modelId);
+    case 'openai':
+      return openai(modelId);
+    case 'google':
+      return google(modelId);
+    case 'local':
+      return createLocalProvider()(modelId);
+  }
+};
+
+/**
+ * Get the language model configured for a pipeline role
+ */
+export const getModel = (role: ModelRole): LanguageModel => createLanguageModel(getModelConfig().models[role]);
+
+/**
+ * Get the language models of the council judges with their voting weights
+ */
+export const getCouncilJudges = (): { id: string; model: LanguageModel; weight: number }[] =>
+  getModelConfig().councilJudges.map(judge => ({
+    id: `${judge.provider}:${judge.modelId}`,
+    model: createLanguageModel(judge),
+    weight: judge.weight,
+  }));
+
+/**
+ * Get the embedding model for the retrieval index, or null if none is configured (BM25 only)
+ */
+export const getEmbeddingModel = (): { model: EmbeddingModel<string>; id: string } | null => {
+  const spec = getModelConfig().embedding;
+  if (!spec) return null;
+
+  const id = `${spec.provider}:${spec.modelId}`;
+  switch (spec.provider) {
+    case 'openai':
+      return { model: openai.textEmbeddingModel(spec.modelId), id };
+    case 'google':
+      return { model: google.textEmbeddingModel(spec.modelId), id };
+    case 'local':
+      return { model: createLocalProvider().textEmbeddingModel(spec.modelId), id };
+    case 'anthropic':
+      throw new Error('Anthropic does not provide embedding models; configure another provider for MODEL_EMBEDDING.');
+  }
+};
@@ -0,0 +1,72 @@
+// ocr.ts - Local OCR (tesseract.js) for image uploads and PDF pages without a usable text layer
+import { promises as fs } from 'fs';
+import { createWorker, type WorkerOptions } from 'tesseract.js';
+import { dataPath } from './jsonFileStore';
+
+export interface OcrPage {
+  page: number; // 1-based page number (1 for images)
+  confidence: number; // Mean word confidence reported by Tesseract, 0-100
+}
+
+export interface OcrResult {
+  text: string;
+  confidence: number;
+}
+
+export interface OcrOptions {
+  signal?: AbortSignal; // Checked before each image
+  onProgress?: (completed: number, total: number) => void;
+}
+
+const readLimit = (value: string | undefined, fallback: number): number => {
+  const limit = Number(value);
+  return value !== undefined && Number.isInteger(limit) && limit >= 0 ? limit : fallback;
+};
+
+// Tesseract language codes, e.g. "eng+deu"
+const OCR_LANGUAGES = process.env.OCR_LANGUAGES || 'eng';
+// Pages recognized per upload; OCR takes seconds per page, so long scans are cut off (0 disables OCR)
+export const MAX_OCR_PAGES = readLimit(process.env.OCR_MAX_PAGES, 30);
+
+// A page needs OCR when it has (almost) no text layer, or when its text is mostly not letters or digits (broken font encodings)
+const MIN_TEXT_LAYER_CHARACTERS = 20;
+const MIN_WORD_CHARACTER_RATIO = 0.5;
+
+const wordCharacterCount = (text: string): number => text.match(/[\p{L}\p{N}]/gu)?.length ?? 0;
+
+export const needsOcr = (text: string): boolean => {
+  const characters = text.replace(/\s/g, '');
+  return characters.length < MIN_TEXT_LAYER_CHARACTERS || wordCharacterCount(characters) / characters.length < MIN_WORD_CHARACTER_RATIO;
+};
+
+/**
+ * OCR text replaces a page's text layer only if it recognized more letters and digits than the layer has
+ */
+export const preferOcrText = (textLayer: string, ocrText: string): boolean => wordCharacterCount(ocrText) > wordCharacterCount(textLayer);
+
+/**
+ * Recognize the text of images (PNG, JPEG, WebP, BMP, TIFF) one after another with a single worker.
+ * The language data is downloaded once (from OCR_LANG_PATH, or the tesseract.js CDN) and cached in the data directory.
+ */
+export const recognizeImages = async (images: Buffer[], { signal, onProgress }: OcrOptions = {}): Promise<OcrResult[]> => {
+  if (images.length === 0) return [];
+  const cachePath = dataPath('ocr');
+  await fs.mkdir(cachePath, { recursive: true });
+  const options: Partial<WorkerOptions> = { cachePath };
+  if (process.env.OCR_LANG_PATH) options.langPath = process.env.OCR_LANG_PATH;
+
+  const worker = await createWorker(OCR_LANGUAGES, undefined, options);
+  try {
+    const results: OcrResult[] = [];
+    for (const image of images) {
+      signal?.throwIfAborted();
+      onProgress?.(results.length, images.length);
+      const { data } = await worker.recognize(image);
+      results.push({ text: data.text.trim(), confidence: Math.round(data.confidence) });
+    }
+    onProgress?.(results.length, images.length);
+    return results;
+  } finally {
+    await worker.terminate();
+  }
+};
@@ -0,0 +1,84 @@
+// pageText.ts - Source text of research results: page fetching for search backends that return only snippets, and verbatim quotes
+import { extractDocument } from './extractors';
+import { tokenize } from './documentIndex';
+
+export interface TextQuote {
+  text: string; // Verbatim passage of the page text
+  start: number; // Character offset in the page text (inclusive)
+  end: number; // Character offset (exclusive)
+}
+
+const PAGE_FETCH_TIMEOUT_MS = 10_000;
+// Larger pages are not read
+const MAX_PAGE_BYTES = 2 * 1024 * 1024;
+
+// Sentences shorter than this rarely make a useful quote; longer ones are cut at a word boundary
+const MIN_QUOTE_LENGTH = 30;
+const MAX_QUOTE_LENGTH = 500;
+
+/**
+ * Download a web page and extract its text (HTML and plain text pages). Returns undefined for other content
+ * types and non-HTTP URLs; throws when the page cannot be loaded.
+ */
+export const fetchPageText = async (url: string): Promise<string | undefined> => {
+  if (!/^https?:\/\//.test(url)) return undefined;
+  const response = await fetch(url, {
+    headers: { Accept: 'text/html,application/xhtml+xml,text/plain;q=0.9' },
+    signal: AbortSignal.timeout(PAGE_FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to load ${url}: ${response.status} ${response.statusText}`);
+  }
+  if (Number(response.headers.get('content-length')) > MAX_PAGE_BYTES) return undefined;
+
+  const contentType = response.headers.get('content-type') ?? '';
+  const isHtml = /html/.test(contentType);
+  if (!isHtml && !contentType.startsWith('text/plain')) return undefined;
+  const buffer = Buffer.from(await response.arrayBuffer()).subarray(0, MAX_PAGE_BYTES);
+  const { text } = await extractDocument(buffer, url, { format: isHtml ? 'html' : 'text' });
+  return text;
+};
+
+// Sentences (or lines without sentence punctuation) with their offsets, surrounding whitespace excluded
+const splitSentences = (text: string): TextQuote[] =>
+  [...text.matchAll(/[^.!?\n]+(?:[.!?]+["')\]]*)?/g)]
+    .map(match => {
+      const leading = match[0].length - match[0].trimStart().length;
+      const sentence = match[0].trim();
+      const start = match.index! + leading;
+      return { text: sentence, start, end: start + sentence.length };
+    })
+    .filter(sentence => sentence.text.length >= MIN_QUOTE_LENGTH);
+
+const limitLength = (quote: TextQuote): TextQuote => {
+  if (quote.text.length <= MAX_QUOTE_LENGTH) return quote;
+  const cut = quote.text.lastIndexOf(' ', MAX_QUOTE_LENGTH);
+  const text = quote.text.slice(0, cut > MIN_QUOTE_LENGTH ? cut : MAX_QUOTE_LENGTH);
+  return { text, start: quote.start, end: quote.start + text.length };
+};
+
+/**
+ * Pick the sentences of a text that best match a query, verbatim and with their offsets, most relevant first.
+ * Sentences are scored by the query terms they contain, rare terms (within the text) counting more.
+ */
+export const extractQuotes = (text: string, query: string, maxQuotes = 3): TextQuote[] => {
+  const queryTerms = new Set(tokenize(query));
+  if (queryTerms.size === 0) return [];
+  const sentences = splitSentences(text).map(sentence => ({ sentence, terms: new Set(tokenize(sentence.text)) }));
+
+  const documentFrequency = new Map<string, number>();
+  for (const term of queryTerms) {
+    documentFrequency.set(term, sentences.filter(({ terms }) => terms.has(term)).length);
+  }
+  const idf = (term: string) => Math.log(1 + sentences.length / (documentFrequency.get(term)! || 1));
+
+  return sentences
+    .map(({ sentence, terms }) => ({
+      sentence,
+      score: [...queryTerms].filter(term => terms.has(term)).reduce((sum, term) => sum + idf(term), 0),
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.sentence.start - b.sentence.start)
+    .slice(0, maxQuotes)
+    .map(({ sentence }) => limitLength(sentence));
+};
@@ -0,0 +1,233 @@
+// phaseMachine.ts - Server-enforced phases of the orchestrator (classify → assess → plan → execute → council → synthesis)
+import type { ToolSet, ToolExecutionOptions } from 'ai';
+import { TASK_TYPES, type TaskType } from '@/app/data/task_types';
+import type { ComplexityLevel } from '@/app/data/complexity_guidelines';
+import { isComplexityLevel } from './executionBudget';
+
+export const PHASES = ['classification', 'feasibility', 'preparation', 'execution', 'synthesis', 'done'] as const;
+
+export type Phase = typeof PHASES[number];
+
+// Tools the orchestrator may call in each phase. Preparation and execution add the tools of the task route.
+export const PHASE_TOOLS: Record<Phase, readonly string[]> = {
+  classification: ['classify'],
+  feasibility: ['askPossibility'],
+  preparation: ['askAdditionalInfo'],
+  execution: [],
+  synthesis: [],
+  done: [],
+};
+
+export const TASK_ROUTES = ['planned', 'documents', 'visualization', 'direct_lookup', 'deep_research'] as const;
+
+export type TaskRoute = typeof TASK_ROUTES[number];
+
+// Per route: the tools that start the execution phase, and the tools of the execution phase. 'council' ends it.
+export const ROUTE_TOOLS: Record<TaskRoute, { entry: readonly string[]; execution: readonly string[] }> = {
+  planned: { entry: ['planning'], execution: ['planning', 'research', 'analyst', 'contextualizer', 'dataAnalysis', 'qa', 'council'] },
+  documents: { entry: ['contextualizer', 'dataAnalysis'], execution: ['contextualizer', 'dataAnalysis', 'qa', 'analyst', 'council'] },
+  visualization: { entry: ['analyst'], execution: ['analyst', 'council'] },
+  direct_lookup: { entry: ['research'], execution: ['research', 'qa', 'council'] },
+  deep_research: { entry: ['deepResearch'], execution: ['deepResearch', 'research', 'contextualizer', 'qa', 'council'] },
+};
+
+// Factual lookups this simple skip planning
+const DIRECT_LOOKUP_COMPLEXITIES: readonly ComplexityLevel[] = ['MINIMAL_COMPLEXITY', 'TRIVIAL'];
+
+// Task types researched by the deep-research tool instead of a plan when the user enabled deep research
+const DEEP_RESEARCH_TYPES: readonly TaskType[] = ['RESEARCH', 'COMPARISON', 'FACTUAL_LOOKUP'];
+
+export interface PhaseTransition {
+  from: Phase;
+  to: Phase;
+  tool?: string; // Tool call that caused the transition; absent for the final answer
+  step: number;
+}
+
+export interface RejectedToolCall {
+  tool: string;
+  phase: Phase;
+  step: number;
+  error: string;
+}
+
+// Attached to the assistant message as a message annotation
+export interface PhaseAnnotation {
+  type: 'phases';
+  phase: Phase;
+  route: TaskRoute;
+  transitions: PhaseTransition[];
+  rejected: RejectedToolCall[];
+}
+
+// Phase state of one turn; the functions below update it in place
+export interface PhaseState {
+  phase: Phase;
+  route: TaskRoute; // Chosen from the classification; 'planned' until then
+  deepResearch: boolean; // The user enabled deep research for this request
+  step: number; // Current orchestrator step, for the transition log
+  transitions: PhaseTransition[];
+  rejected: RejectedToolCall[];
+}
+
+// Steps kept in reserve so a long execution phase still reaches the council and the final answer
+const EVALUATION_RESERVE_STEPS = 2;
+
+export const createPhaseState = (deepResearch = false): PhaseState =>
+  ({ phase: 'classification', route: 'planned', deepResearch, step: 0, transitions: [], rejected: [] });
+
+/**
+ * Route of a classified query: document questions go straight to the contextualizer, pure visualizations
+ * to the analyst and simple factual lookups to a single search. With deep research enabled, other research
+ * tasks go to the deep-research tool. Everything else is planned.
+ */
+export const selectRoute = (type: TaskType, complexity: ComplexityLevel, deepResearch = false): TaskRoute => {
+  const isDirectLookup = type === 'FACTUAL_LOOKUP' && DIRECT_LOOKUP_COMPLEXITIES.includes(complexity);
+  if (deepResearch && DEEP_RESEARCH_TYPES.includes(type) && !isDirectLookup) return 'deep_research';
+  switch (type) {
+    case 'DOCUMENT_QA':
+      return 'documents';
+    case 'DATA_VISUALIZATION':
+      return 'visualization';
+    case 'FACTUAL_LOOKUP':
+      return isDirectLookup ? 'direct_lookup' : 'planned';
+    default:
+      return 'planned';
+  }
+};
+
+// Route of a classify tool result ({ success, classification: { type, complexity } })
+const classifiedRoute = (result: unknown, deepResearch: boolean): TaskRoute => {
+  const classification = (result as { classification?: { type?: unknown; complexity?: unknown } } | undefined)?.classification;
+  const type = classification?.type;
+  const isTaskType = typeof type === 'string' && (TASK_TYPES as readonly string[]).includes(type);
+  return isTaskType && isComplexityLevel(classification?.complexity) ? selectRoute(type as TaskType, classification.complexity, deepResearch) : 'planned';
+};
+
+const transition = (state: PhaseState, to: Phase, tool?: string): void => {
+  if (to === state.phase) return;
+  state.transitions.push({ from: state.phase, to, tool, step: state.step });
+  console.log(`Phase machine: ${state.phase} -> ${to}${tool ? ` (${tool})` : ''}`);
+  state.phase = to;
+};
+
+/**
+ * Tools allowed in the current phase on the current route
+ */
+export const getPhaseTools = (state: PhaseState): readonly string[] => {
+  switch (state.phase) {
+    case 'preparation':
+      return [...PHASE_TOOLS.preparation, ...ROUTE_TOOLS[state.route].entry];
+    case 'execution':
+      return ROUTE_TOOLS[state.route].execution;
+    default:
+      return PHASE_TOOLS[state.phase];
+  }
+};
+
+export const isToolAllowed = (state: PhaseState, toolName: string): boolean => getPhaseTools(state).includes(toolName);
+
+/**
+ * Advance the phase after a tool returned. Transitions are driven by tool results only.
+ */
+export const recordToolResult = (state: PhaseState, toolName: string, result: unknown): void => {
+  // The entry tool of the route (e.g. 'planning') starts the execution phase
+  if (state.phase === 'preparation' && ROUTE_TOOLS[state.route].entry.includes(toolName)) {
+    transition(state, 'execution', toolName);
+    return;
+  }
+  switch (toolName) {
+    case 'classify':
+      state.route = classifiedRoute(result, state.deepResearch);
+      console.log(`Phase machine: task route '${state.route}'`);
+      transition(state, 'feasibility', toolName);
+      break;
+    case 'askPossibility': {
+      // An infeasible task goes straight to the final answer ({ success, result: { isPossible, justification } }).
+      // A failed evaluation (success: false) counts as feasible, so the task is not refused for an evaluator error.
+      const isPossible = (result as { result?: { isPossible?: string } } | undefined)?.result?.isPossible;
+      transition(state, isPossible === 'NO' ? 'synthesis' : 'preparation', toolName);
+      break;
+    }
+    case 'council':
+      transition(state, 'synthesis', toolName);
+      break;
+    // askAdditionalInfo and the other execution tools keep the current phase
+  }
+};
+
+/**
+ * Rebuild the phase of a resumed turn (e.g. after the user answered 'askAdditionalInfo') from its earlier tool results
+ */
+export const resumePhaseState = (toolResults: { toolName: string; result: unknown }[], deepResearch = false): PhaseState => {
+  const state = createPhaseState(deepResearch);
+  for (const { toolName, result } of toolResults) {
+    if (isToolAllowed(state, toolName)) recordToolResult(state, toolName, result);
+  }
+  return state;
+};
+
+/**
+ * A text answer in the synthesis phase completes the turn
+ */
+export const recordAnswer = (state: PhaseState): void => {
+  if (state.phase === 'synthesis') transition(state, 'done');
+};
+
+/**
+ * Tools exposed to the model for the next step.
+ * Returns undefined once no tool is allowed: the definitions stay declared because providers such as Anthropic
+ * reject a history with tool calls when no tools are declared, and getToolChoice forbids calling them instead.
+ */
+export const getActiveTools = (state: PhaseState, stepsLeft: number): string[] | undefined => {
+  if (state.phase === 'execution' && stepsLeft <= EVALUATION_RESERVE_STEPS) {
+    return ['council'];
+  }
+  const tools = getPhaseTools(state);
+  return tools.length > 0 ? [...tools] : undefined;
+};
+
+/**
+ * Until the final answer every step must be a tool call; phases without tools must answer in text
+ */
+export const getToolChoice = (state: PhaseState): 'required' | 'none' =>
+  getPhaseTools(state).length > 0 ? 'required' : 'none';
+
+/**
+ * Wrap the server-side tools so calls outside their phase return an error instead of running,
+ * and results advance the phase
+ */
+export const withPhaseGuards = <TOOLS extends ToolSet>(tools: TOOLS, state: PhaseState): TOOLS =>
+  Object.fromEntries(Object.entries(tools).map(([toolName, definition]) => {
+    const execute = definition.execute;
+    if (!execute) return [toolName, definition]; // Client-side tools are gated by the active tools alone
+    return [toolName, {
+      ...definition,
+      execute: async (args: unknown, options: ToolExecutionOptions) => {
+        if (!isToolAllowed(state, toolName)) return rejectToolCall(state, toolName);
+        const result = await execute(args, options);
+        recordToolResult(state, toolName, result);
+        return result;
+      },
+    }];
+  })) as TOOLS;
+
+/**
+ * Record an out-of-order tool call and build the error returned to the model instead of running the tool
+ */
+export const rejectToolCall = (state: PhaseState, toolName: string): { error: string } => {
+  const allowed = getPhaseTools(state);
+  const error = `Tool '${toolName}' cannot be called in the '${state.phase}' phase. ` +
+    (allowed.length > 0 ? `Allowed now: ${allowed.map(tool => `'${tool}'`).join(', ')}.` : 'Write the final answer now without calling tools.');
+  state.rejected.push({ tool: toolName, phase: state.phase, step: state.step, error });
+  console.warn(`Phase machine: rejected ${toolName} in phase ${state.phase}`);
+  return { error };
+};
+
+export const toPhaseAnnotation = (state: PhaseState): PhaseAnnotation => ({
+  type: 'phases',
+  phase: state.phase,
+  route: state.route,
+  transitions: state.transitions,
+  rejected: state.rejected,
+});
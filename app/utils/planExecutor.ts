@@ -0,0 +1,254 @@
+// planExecutor.ts - Deterministic server-side execution of a `planning` tool result
+import type { AgentPlan, PlanningResult } from '@/app/tools/planningTool';
+import { executeResearch } from '@/app/tools/researchTool';
+import { normalizeUrl, type ResearchRun } from './researchCache';
+import { executeAnalyst } from '@/app/tools/analystTool';
+import { executeContextualizer } from '@/app/tools/contextualizerTool';
+import { executeQa } from '@/app/tools/qaTool';
+import { executeDataAnalysisRequest, type DataAnalysisResult } from '@/app/tools/dataAnalysisTool';
+import { extractDataset, type DatasetExtraction } from './datasetCharts';
+import type { DocumentSource } from './documentStore';
+import type { ResearchToolResult } from '@/app/tools/researchTool';
+
+// Rate limit from the planning guidelines: at most 2 researchers may run at the same time
+export const MAX_PARALLEL_RESEARCHERS = 2;
+
+export type AgentStatus = 'completed' | 'failed' | 'skipped';
+
+export interface AgentExecutionResult {
+  index: number; // Position of the agent in plan.agents
+  type: AgentPlan['type'];
+  order: number;
+  purpose: string;
+  query?: string;
+  status: AgentStatus;
+  output?: unknown; // Raw tool result (ResearchToolResult, AnalystToolResult, ...)
+  summary?: string; // Text form of the output that is fed to downstream agents
+  error?: string;
+}
+
+export interface PlanStage {
+  order: number;
+  batches: number[][]; // Agent indexes; batches run one after another, agents inside a batch in parallel
+}
+
+export interface PlanExecutionResult {
+  stages: PlanStage[];
+  agents: AgentExecutionResult[];
+  warnings: string[];
+  error?: string;
+}
+
+export interface AgentRunContext {
+  task: string;
+  upstream: AgentExecutionResult[]; // Completed agents from the orders listed in `dependencies`
+}
+
+export interface AgentRunOutput {
+  output: unknown;
+  summary: string;
+  error?: string;
+}
+
+export type AgentRunner = (agent: AgentPlan, context: AgentRunContext) => Promise<AgentRunOutput>;
+
+// One runner per agent type, so tests and callers can swap in mocked tools
+export type AgentRunners = Record<AgentPlan['type'], AgentRunner>;
+
+/**
+ * Validate the dependency graph of a plan.
+ * Dependencies must point at existing, strictly lower order numbers, which keeps the graph acyclic.
+ */
+export function validatePlan(plan: PlanningResult): string[] {
+  const errors: string[] = [];
+  const orders = new Set(plan.agents.map(agent => agent.order));
+
+  plan.agents.forEach((agent, index) => {
+    for (const dependency of agent.dependencies) {
+      if (!orders.has(dependency)) {
+        errors.push(`Agent #${index} (${agent.type}, order ${agent.order}) depends on order ${dependency}, which has no agents.`);
+      } else if (dependency >= agent.order) {
+        errors.push(`Agent #${index} (${agent.type}, order ${agent.order}) depends on order ${dependency}; dependencies must have a lower order number.`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Group agents into stages by order number. Researchers in a stage are split into
+ * batches of MAX_PARALLEL_RESEARCHERS; every other agent joins the first batch.
+ */
+export function buildStages(plan: PlanningResult): { stages: PlanStage[]; warnings: string[] } {
+  const warnings: string[] = [];
+  const orders = Array.from(new Set(plan.agents.map(agent => agent.order))).sort((a, b) => a - b);
+
+  const stages = orders.map(order => {
+    const indexes = plan.agents
+      .map((agent, index) => ({ agent, index }))
+      .filter(({ agent }) => agent.order === order);
+    const researchers = indexes.filter(({ agent }) => agent.type === 'researcher').map(({ index }) => index);
+    const others = indexes.filter(({ agent }) => agent.type !== 'researcher').map(({ index }) => index);
+
+    if (researchers.length > MAX_PARALLEL_RESEARCHERS) {
+      warnings.push(`Order ${order} has ${researchers.length} researchers; running them in batches of ${MAX_PARALLEL_RESEARCHERS}.`);
+    }
+
+    const batches: number[][] = [];
+    for (let i = 0; i < researchers.length; i += MAX_PARALLEL_RESEARCHERS) {
+      batches.push(researchers.slice(i, i + MAX_PARALLEL_RESEARCHERS));
+    }
+    if (batches.length === 0) {
+      batches.push([]);
+    }
+    batches[0] = [...batches[0], ...others];
+
+    return { order, batches };
+  });
+
+  return { stages, warnings };
+}
+
+async function runAgent(
+  plan: PlanningResult,
+  index: number,
+  results: AgentExecutionResult[],
+  runners: AgentRunners
+): Promise<AgentExecutionResult> {
+  const agent = plan.agents[index];
+  const base = { index, type: agent.type, order: agent.order, purpose: agent.purpose, query: agent.query };
+
+  const dependencyResults = results.filter(result => agent.dependencies.includes(result.order));
+  const unmet = dependencyResults.filter(result => result.status !== 'completed');
+  if (unmet.length > 0) {
+    return {
+      ...base,
+      status: 'skipped',
+      error: `Skipped because upstream agent(s) ${unmet.map(result => `#${result.index}`).join(', ')} did not complete.`,
+    };
+  }
+
+  try {
+    const { output, summary, error } = await runners[agent.type](agent, { task: plan.task, upstream: dependencyResults });
+    return { ...base, status: error ? 'failed' : 'completed', output, summary, error };
+  } catch (error: unknown) {
+    let errorMessage = 'An unknown error occurred while running the agent.';
+    if (error instanceof Error) { errorMessage = error.message; }
+    console.error(`Plan executor: agent #${index} (${agent.type}) failed:`, error);
+    return { ...base, status: 'failed', error: errorMessage };
+  }
+}
+
+/**
+ * Execute a plan stage by stage. Stages run in ascending order, agents with the same
+ * order run in parallel, and each agent receives the outputs of the orders it depends on.
+ */
+export async function executePlan(plan: PlanningResult, runners: AgentRunners): Promise<PlanExecutionResult> {
+  const validationErrors = validatePlan(plan);
+  if (validationErrors.length > 0) {
+    console.warn('Plan executor: invalid plan:', validationErrors);
+    return { stages: [], agents: [], warnings: [], error: `Invalid plan: ${validationErrors.join(' ')}` };
+  }
+
+  const { stages, warnings } = buildStages(plan);
+  const results: AgentExecutionResult[] = [];
+
+  for (const stage of stages) {
+    for (const batch of stage.batches) {
+      console.log(`Plan executor: running order ${stage.order}, agents ${batch.join(', ')}`);
+      // Agents only see results from earlier stages, so a batch never depends on its siblings
+      const completedBefore = [...results];
+      const batchResults = await Promise.all(batch.map(index => runAgent(plan, index, completedBefore, runners)));
+      results.push(...batchResults);
+    }
+  }
+
+  results.sort((a, b) => a.index - b.index);
+  return { stages, agents: results, warnings };
+}
+
+// --- Default runners backed by the real tools ---
+
+// A research result with its credibility and the verbatim quotes (with their offsets in the page text),
+// so later agents and the council can cite exact passages
+function formatResearchResult(res: ResearchToolResult[number]['results'][number]): string {
+  return [
+    `${res.credibility ? `[${res.credibility.level} credibility ${res.credibility.score.toFixed(2)}] ` : ''}${res.title} (${res.url}): ${res.summary ?? res.text?.slice(0, 500) ?? ''}`,
+    ...(res.quotes ?? []).map(quote => `  "${quote.text}" (chars ${quote.start}-${quote.end})`),
+  ].join('\n');
+}
+
+function formatUpstream(upstream: AgentExecutionResult[]): string {
+  return upstream
+    .map(result => `--- ${result.type} (order ${result.order}): ${result.purpose} ---\n${result.summary ?? ''}`)
+    .join('\n\n');
+}
+
+// Limits applied to the default runners (from the execution budget of the classified complexity)
+export interface AgentRunnerOptions {
+  analystAttempts?: number;
+  researchRun?: ResearchRun; // URLs found so far in the turn, so researchers only report new pages (in plan order)
+}
+
+export function createAgentRunners(documentSource: DocumentSource, options: AgentRunnerOptions = {}): AgentRunners {
+  return {
+    researcher: async (agent, { task }) => {
+      const [result] = await executeResearch({ queries: [agent.query ?? agent.purpose], users_message_prompt: task }, options.researchRun);
+      // Pages another agent reported first keep their content here, so agents depending only on this one still get it
+      const alsoFound = (result.duplicateUrls ?? []).map(url => options.researchRun?.sources.get(normalizeUrl(url)) ?? { url, title: url });
+      const summary = result.results
+        .map(formatResearchResult)
+        .concat(alsoFound.length > 0 ? ['Also found (already reported earlier in this turn):', ...alsoFound.map(formatResearchResult)] : [])
+        .concat(result.droppedUrls ? [`Dropped as low-trust by the research policy: ${result.droppedUrls.join(', ')}`] : [])
+        .join('\n');
+      return { output: [result], summary, error: result.error };
+    },
+
+    analyst: async (agent, { upstream }) => {
+      const query = agent.query ?? agent.purpose;
+      if (upstream.length === 0) {
+        const result = await executeAnalyst({ query }, options.analystAttempts);
+        return { output: result, summary: result.mermaidCode ?? '', error: result.error };
+      }
+
+      // Chart data is extracted from the upstream outputs as a dataset, so the diagram cannot invent numbers.
+      // Results of data analysis agents already are datasets.
+      const upstreamText = formatUpstream(upstream);
+      const computed = upstream.map(result => (result.output as DataAnalysisResult | undefined)?.dataset).find(dataset => dataset !== undefined);
+      let extraction: DatasetExtraction = { dataset: computed, droppedRows: 0 };
+      if (!computed) {
+        try {
+          extraction = await extractDataset(query, upstreamText);
+        } catch (error) {
+          console.warn('Plan executor: dataset extraction failed, passing the upstream text to the analyst:', error);
+        }
+      }
+      const result = extraction.dataset
+        ? await executeAnalyst({ query, dataset: extraction.dataset, chartType: extraction.chartType }, options.analystAttempts)
+        : await executeAnalyst({ query: `${query}\n\nUse ONLY the following data gathered by earlier agents:\n${upstreamText}` }, options.analystAttempts);
+      return { output: result, summary: result.mermaidCode ?? '', error: result.error };
+    },
+
+    contextualizer: async (agent) => {
+      const result = await executeContextualizer({ query: agent.query ?? agent.purpose }, documentSource);
+      return { output: result, summary: result.foundContext, error: result.error };
+    },
+
+    dataAnalyst: async (agent) => {
+      const result = await executeDataAnalysisRequest(agent.query ?? agent.purpose, documentSource);
+      const summary = result.error ? '' : [
+        `${result.file} / ${result.sheet} (${result.matchedRows} matching rows)`,
+        result.columns?.map(column => column.name).join(' | ') ?? '',
+        ...(result.rows ?? []).map(row => row.map(value => value ?? '').join(' | ')),
+      ].join('\n');
+      return { output: result, summary, error: result.error };
+    },
+
+    qa: async (agent, { upstream }) => {
+      const result = await executeQa({ question: agent.query ?? agent.purpose, context: formatUpstream(upstream) }, documentSource);
+      const quotes = result.quotes.map(({ quote, source }) => `"${quote}" (${source})`).join('\n');
+      return { output: result, summary: quotes ? `${result.answer}\n${quotes}` : result.answer, error: result.error };
+    },
+  };
+}
@@ -0,0 +1,172 @@
+// researchCache.ts - Persistent cache of research results and URL de-duplication across the queries of a turn
+import { createHash } from 'crypto';
+import { dataPath, readJson, writeJson, removeFile } from './jsonFileStore';
+import { getCredibilityPolicy, type CredibilityPolicy } from './sourceCredibility';
+import type { ResearchToolResult } from '@/app/tools/researchTool';
+
+type ResearchResultItem = ResearchToolResult[number]['results'][number];
+
+// What identifies a search: the backend, its options and the normalized query
+export interface ResearchCacheKey {
+  provider: string;
+  numResults: number;
+  query: string;
+  summaryPrompt?: string; // The user's message the summaries focus on, for backends that summarize (Exa)
+}
+
+interface ResearchCacheEntry {
+  key: ResearchCacheKey;
+  createdAt: number; // timestamp
+  results: ResearchResultItem[];
+}
+
+// Hours a search result stays valid (RESEARCH_CACHE_TTL_HOURS, 0 disables the cache)
+const readTtlHours = (value: string | undefined): number => {
+  const hours = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(hours) && hours >= 0 ? hours : 24;
+};
+const CACHE_TTL_MS = readTtlHours(process.env.RESEARCH_CACHE_TTL_HOURS) * 60 * 60 * 1000;
+
+/**
+ * Normalize a query so that queries differing only in case, punctuation or spacing share a cache entry
+ * ("Rust vs. Python?" = "rust vs python"). Word order and every word are kept, since they change what is
+ * searched; '+' and '#' are kept for names like C++ and C#.
+ */
+export const normalizeQuery = (query: string): string => {
+  const normalized = query.normalize('NFKC').toLowerCase().replace(/[^\p{L}\p{N}+#]+/gu, ' ').trim();
+  return normalized !== '' ? normalized : query.trim().toLowerCase();
+};
+
+const cachePath = (key: ResearchCacheKey): string =>
+  dataPath('research-cache', `${createHash('sha256').update(JSON.stringify(key)).digest('hex')}.json`);
+
+/**
+ * Cached results of a search, or null if there are none or they have expired
+ */
+const getCachedResearch = async (key: ResearchCacheKey): Promise<ResearchResultItem[] | null> => {
+  if (CACHE_TTL_MS === 0) return null;
+  const entry = await readJson<ResearchCacheEntry>(cachePath(key));
+  if (!entry) return null;
+  if (Date.now() - entry.createdAt > CACHE_TTL_MS) {
+    await removeFile(cachePath(key));
+    return null;
+  }
+  return entry.results;
+};
+
+const cacheResearch = async (key: ResearchCacheKey, results: ResearchResultItem[]): Promise<void> => {
+  if (CACHE_TTL_MS === 0) return;
+  const entry: ResearchCacheEntry = { key, createdAt: Date.now(), results };
+  await writeJson(cachePath(key), entry);
+};
+
+interface CachedSearch {
+  results: ResearchResultItem[];
+  cached: boolean; // Whether the results came from the cache (or from an identical search that was already running)
+}
+
+// Searches running right now, so that identical queries of parallel agents wait for the same search
+const inFlight = new Map<string, Promise<CachedSearch>>();
+
+/**
+ * Run a search through the cache: results come from the cache, from an identical search that is already
+ * running, or from `search` (and are then cached unless empty). Failed searches are not cached.
+ */
+export const searchWithCache = async (key: ResearchCacheKey, search: () => Promise<ResearchResultItem[]>): Promise<CachedSearch> => {
+  const id = JSON.stringify(key);
+  const running = inFlight.get(id);
+  if (running) return { results: (await running).results, cached: true };
+
+  const lookup = (async (): Promise<CachedSearch> => {
+    try {
+      const cached = await getCachedResearch(key);
+      if (cached) return { results: cached, cached: true };
+    } catch (error) {
+      console.error('Error reading the research cache:', error);
+    }
+    const results = await search();
+    if (results.length > 0) {
+      await cacheResearch(key, results).catch(error => console.error('Error writing the research cache:', error));
+    }
+    return { results, cached: false };
+  })();
+  inFlight.set(id, lookup);
+  try {
+    return await lookup;
+  } finally {
+    inFlight.delete(id);
+  }
+};
+
+// Research state of a turn, shared by the research tool, the researcher agents of its plans and the council
+export interface ResearchRun {
+  sources: Map<string, ResearchResultItem>; // Results returned so far with their credibility, by normalized URL
+  policy: CredibilityPolicy; // Research policy of the user's team
+  claims: Promise<void>; // Settles once the last research started in the run has claimed its URLs
+}
+
+// Tracking parameters and fragments do not make a different page
+const TRACKING_PARAMETER = /^(utm_\w+|fbclid|gclid|ref)$/i;
+
+/**
+ * Normalize a URL for de-duplication: lowercase host, no fragment, tracking parameters or trailing slash
+ */
+export const normalizeUrl = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    for (const name of [...parsed.searchParams.keys()]) {
+      if (TRACKING_PARAMETER.test(name)) parsed.searchParams.delete(name);
+    }
+    return parsed.toString().replace(/\/$/, '');
+  } catch {
+    return url;
+  }
+};
+
+/**
+ * Start the research run of a turn; a resumed turn continues with the results of its earlier research
+ */
+export const createResearchRun = (
+  toolResults: { toolName: string; result: unknown }[] = [],
+  policy: CredibilityPolicy = getCredibilityPolicy()
+): ResearchRun => {
+  const run: ResearchRun = { sources: new Map(), policy, claims: Promise.resolve() };
+  for (const { toolName, result } of toolResults) {
+    if (toolName !== 'research' || !Array.isArray(result)) continue;
+    for (const queryResult of result as ResearchToolResult) {
+      for (const item of queryResult.results) run.sources.set(normalizeUrl(item.url), item);
+    }
+  }
+  return run;
+};
+
+/**
+ * Reserve the next turn to claim URLs in the run. Research that runs in parallel (e.g. the researchers of a plan
+ * batch) claims in the order it was started, not in the order it finishes, so the same plan always reports a URL
+ * under the same agent. Call it before the first await; the returned `release` must be called once claimed.
+ */
+export const reserveClaim = (run: ResearchRun): { ready: Promise<void>; release: () => void } => {
+  const ready = run.claims;
+  let release = () => {};
+  run.claims = new Promise(resolve => { release = resolve; });
+  return { ready, release };
+};
+
+/**
+ * Split results into those with URLs new to the run (which are marked as seen) and the URLs already returned before
+ */
+export const claimNewResults = (run: ResearchRun, results: ResearchResultItem[]): { fresh: ResearchResultItem[]; duplicateUrls: string[] } => {
+  const fresh: ResearchResultItem[] = [];
+  const duplicateUrls: string[] = [];
+  for (const item of results) {
+    const url = normalizeUrl(item.url);
+    if (run.sources.has(url)) {
+      duplicateUrls.push(item.url);
+    } else {
+      run.sources.set(url, item);
+      fresh.push(item);
+    }
+  }
+  return { fresh, duplicateUrls };
+};
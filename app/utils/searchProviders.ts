@@ -0,0 +1,143 @@
+// searchProviders.ts - Search backends for the research tool (Exa, SearXNG, Brave, local corpus), selected per deployment
+import Exa from 'exa-js';
+import { createLocalCorpusProvider } from './localCorpus';
+
+export interface SearchResult {
+  title: string;
+  url: string;
+  publishedDate?: string; // As reported by the backend, usually ISO 8601
+  snippet?: string; // Short excerpt of the page
+  summary?: string; // Query-focused summary written by the backend (Exa)
+  text?: string; // Full text of the page, when the backend returns it
+}
+
+export interface SearchOptions {
+  numResults: number;
+  summaryQuery?: string; // What a summary of each result should focus on, for backends that summarize (Exa)
+}
+
+export interface SearchProvider {
+  name: SearchProviderName;
+  summarizes: boolean; // Whether results carry a summary written for `summaryQuery`
+  search: (query: string, options: SearchOptions) => Promise<SearchResult[]>;
+}
+
+export const SEARCH_PROVIDER_NAMES = ['exa', 'searxng', 'brave', 'local'] as const;
+
+export type SearchProviderName = typeof SEARCH_PROVIDER_NAMES[number];
+
+// Web backends that do not answer within this time fail the query
+const SEARCH_TIMEOUT_MS = 15_000;
+
+const fetchJson = async <T>(url: string, headers: Record<string, string> = {}): Promise<T> => {
+  const response = await fetch(url, { headers: { Accept: 'application/json', ...headers }, signal: AbortSignal.timeout(SEARCH_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`Search request failed: ${response.status} ${response.statusText}`);
+  }
+  return response.json() as Promise<T>;
+};
+
+const createExaProvider = (apiKey: string): SearchProvider => {
+  const exa = new Exa(apiKey);
+  return {
+    name: 'exa',
+    summarizes: true,
+    search: async (query, { numResults, summaryQuery }) => {
+      const response = await exa.searchAndContents(query, {
+        numResults,
+        type: 'keyword',
+        text: true,
+        summary: { query: summaryQuery ?? query },
+      });
+      return response.results.map(result => ({
+        title: result.title || 'No title available',
+        url: result.url,
+        publishedDate: result.publishedDate,
+        summary: result.summary,
+        text: result.text,
+      }));
+    },
+  };
+};
+
+interface SearxngResponse {
+  results: { title?: string; url: string; content?: string; publishedDate?: string | null }[];
+}
+
+// SearXNG instance with the JSON output format enabled (search.formats in settings.yml)
+const createSearxngProvider = (baseUrl: string): SearchProvider => ({
+  name: 'searxng',
+  summarizes: false,
+  search: async (query, { numResults }) => {
+    const url = new URL('search', baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`);
+    url.searchParams.set('q', query);
+    url.searchParams.set('format', 'json');
+    const { results } = await fetchJson<SearxngResponse>(url.toString());
+    return results.slice(0, numResults).map(result => ({
+      title: result.title || 'No title available',
+      url: result.url,
+      publishedDate: result.publishedDate ?? undefined,
+      snippet: result.content,
+    }));
+  },
+});
+
+interface BraveResponse {
+  web?: { results: { title?: string; url: string; description?: string; page_age?: string; extra_snippets?: string[] }[] };
+}
+
+const BRAVE_SEARCH_URL = 'https://api.search.brave.com/res/v1/web/search';
+
+const createBraveProvider = (apiKey: string): SearchProvider => ({
+  name: 'brave',
+  summarizes: false,
+  search: async (query, { numResults }) => {
+    const url = new URL(BRAVE_SEARCH_URL);
+    url.searchParams.set('q', query);
+    url.searchParams.set('count', String(numResults));
+    const { web } = await fetchJson<BraveResponse>(url.toString(), { 'X-Subscription-Token': apiKey });
+    return (web?.results ?? []).slice(0, numResults).map(result => ({
+      title: result.title || 'No title available',
+      url: result.url,
+      publishedDate: result.page_age,
+      // Brave descriptions contain <strong> highlighting
+      snippet: [result.description, ...result.extra_snippets ?? []]
+        .filter((part): part is string => !!part)
+        .map(part => part.replace(/<\/?strong>/g, ''))
+        .join(' … ') || undefined,
+    }));
+  },
+});
+
+const isSearchProviderName = (value: string): value is SearchProviderName =>
+  (SEARCH_PROVIDER_NAMES as readonly string[]).includes(value);
+
+let cachedProvider: SearchProvider | { error: string } | undefined;
+
+/**
+ * The search backend of this deployment: SEARCH_PROVIDER (exa, searxng, brave or local; default exa) with the
+ * settings it needs (EXA_API_KEY, SEARXNG_URL, BRAVE_API_KEY, LOCAL_CORPUS_PATH). Returns an error if it is not configured.
+ */
+export const getSearchProvider = (): SearchProvider | { error: string } => {
+  if (cachedProvider) return cachedProvider;
+
+  const name = (process.env.SEARCH_PROVIDER || 'exa').toLowerCase();
+  if (!isSearchProviderName(name)) {
+    cachedProvider = { error: `Unknown SEARCH_PROVIDER "${name}". Use one of: ${SEARCH_PROVIDER_NAMES.join(', ')}.` };
+  } else if (name === 'exa') {
+    cachedProvider = process.env.EXA_API_KEY ? createExaProvider(process.env.EXA_API_KEY) : { error: 'EXA_API_KEY is not configured.' };
+  } else if (name === 'searxng') {
+    cachedProvider = process.env.SEARXNG_URL ? createSearxngProvider(process.env.SEARXNG_URL) : { error: 'SEARXNG_URL is not configured.' };
+  } else if (name === 'brave') {
+    cachedProvider = process.env.BRAVE_API_KEY ? createBraveProvider(process.env.BRAVE_API_KEY) : { error: 'BRAVE_API_KEY is not configured.' };
+  } else {
+    cachedProvider = createLocalCorpusProvider();
+  }
+
+  if ('error' in cachedProvider) {
+    console.warn(`Search provider unavailable: ${cachedProvider.error} The research tool will not function.`);
+  } else {
+    console.log(`Search provider: ${cachedProvider.name}`);
+  }
+  return cachedProvider;
+};
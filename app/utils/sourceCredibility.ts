@@ -0,0 +1,268 @@
+// sourceCredibility.ts - Credibility scores of research results and the per-team domain policy that drops or down-ranks low-trust sources
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { tokenize } from './documentIndex';
+import type { ResearchToolResult } from '@/app/tools/researchTool';
+
+type ResearchResultItem = ResearchToolResult[number]['results'][number];
+
+/*
+ * Policy file (RESEARCH_POLICY_PATH, default ./research-policy.json), see research-policy.example.json:
+ *   allow / deny   domains (subdomains included) that are always trusted / never trusted
+ *   lowTrust       what happens to results scoring below minScore: "keep", "downrank" (listed last) or "drop"
+ *   minScore       score below which a result is low-trust (0-1)
+ *   teams          per-team policies: "members" lists the user ids of the team (the x-user-id header); the team's
+ *                  allow/deny lists extend the ones above, its lowTrust and minScore replace them
+ * Allow-listed domains are never dropped or down-ranked; deny-listed ones always score 0.
+ */
+
+export const SOURCE_CONTENT_TYPES = ['official', 'academic', 'documentation', 'reference', 'news', 'forum', 'social', 'unknown'] as const;
+export type SourceContentType = typeof SOURCE_CONTENT_TYPES[number];
+
+export const LOW_TRUST_ACTIONS = ['keep', 'downrank', 'drop'] as const;
+export type LowTrustAction = typeof LOW_TRUST_ACTIONS[number];
+
+export type CredibilityLevel = 'high' | 'medium' | 'low';
+
+// Credibility of one research result; each signal is between 0 and 1
+export interface SourceCredibility {
+  score: number;
+  level: CredibilityLevel;
+  domain: string;
+  contentType: SourceContentType;
+  listed?: 'allow' | 'deny'; // On the allow or deny list of the policy
+  agreeingSources: number; // Other domains whose results of this turn say the same
+  signals: {
+    domain: number;
+    contentType: number;
+    recency: number; // 0.5 when the published date is unknown
+    agreement: number; // 0.5 when there is nothing to compare with
+  };
+}
+
+export interface CredibilityPolicy {
+  team?: string;
+  allow: string[];
+  deny: string[];
+  lowTrust: LowTrustAction;
+  minScore: number;
+}
+
+const policySettingsSchema = z.object({
+  allow: z.array(z.string()).optional(),
+  deny: z.array(z.string()).optional(),
+  lowTrust: z.enum(LOW_TRUST_ACTIONS).optional(),
+  minScore: z.number().min(0).max(1).optional(),
+});
+
+const policyFileSchema = policySettingsSchema.extend({
+  teams: z.record(policySettingsSchema.extend({ members: z.array(z.string()).optional() })).optional(),
+});
+
+type PolicyFile = z.infer<typeof policyFileSchema>;
+
+const DEFAULT_LOW_TRUST: LowTrustAction = 'downrank';
+const DEFAULT_MIN_SCORE = 0.45;
+const HIGH_TRUST_SCORE = 0.7;
+
+// How much each signal counts towards the score
+const SIGNAL_WEIGHTS = { domain: 0.25, contentType: 0.3, recency: 0.15, agreement: 0.3 };
+
+const CONTENT_TYPE_SCORES: Record<SourceContentType, number> = {
+  official: 0.9,
+  academic: 0.9,
+  documentation: 0.8,
+  reference: 0.75,
+  news: 0.7,
+  forum: 0.4,
+  social: 0.3,
+  unknown: 0.5,
+};
+
+// Well-known domains by content type; subdomains match too
+const KNOWN_DOMAINS: [SourceContentType, string[]][] = [
+  ['official', ['europa.eu', 'who.int', 'un.org', 'oecd.org', 'worldbank.org', 'imf.org']],
+  ['academic', ['arxiv.org', 'doi.org', 'nature.com', 'science.org', 'sciencedirect.com', 'springer.com', 'wiley.com', 'jstor.org', 'ncbi.nlm.nih.gov', 'pubmed.ncbi.nlm.nih.gov', 'plos.org', 'acm.org', 'ieee.org', 'semanticscholar.org']],
+  ['documentation', ['developer.mozilla.org', 'readthedocs.io', 'learn.microsoft.com', 'docs.python.org', 'docs.github.com']],
+  ['reference', ['wikipedia.org', 'britannica.com', 'local-corpus']],
+  ['news', ['reuters.com', 'apnews.com', 'bbc.co.uk', 'bbc.com', 'nytimes.com', 'theguardian.com', 'washingtonpost.com', 'ft.com', 'economist.com', 'bloomberg.com', 'npr.org']],
+  ['forum', ['reddit.com', 'quora.com', 'stackoverflow.com', 'stackexchange.com', 'news.ycombinator.com', 'medium.com', 'substack.com', 'blogspot.com', 'wordpress.com']],
+  ['social', ['x.com', 'twitter.com', 'facebook.com', 'instagram.com', 'tiktok.com', 'youtube.com', 'linkedin.com', 'pinterest.com']],
+];
+
+// Results published within this many days count as fully recent; older ones lose RECENCY_DECAY_PER_YEAR per year
+const RECENT_DAYS = 365;
+const RECENCY_DECAY_PER_YEAR = 0.2;
+const MIN_RECENCY = 0.2;
+
+// Two results agree when this share of the smaller one's terms also occur in the other
+const AGREEMENT_OVERLAP = 0.3;
+const MIN_AGREEMENT_TERMS = 5;
+
+const readPolicyFile = (): PolicyFile => {
+  const policyPath = process.env.RESEARCH_POLICY_PATH || path.join(process.cwd(), 'research-policy.json');
+  if (!existsSync(policyPath)) return {};
+  try {
+    const parsed = policyFileSchema.safeParse(JSON.parse(readFileSync(policyPath, 'utf8')));
+    if (!parsed.success) {
+      throw new Error(parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; '));
+    }
+    return parsed.data;
+  } catch (error) {
+    throw new Error(`Failed to read research policy ${policyPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const normalizeDomains = (domains: string[] | undefined): string[] =>
+  (domains ?? []).map(domain => domain.trim().toLowerCase().replace(/^www\./, '')).filter(domain => domain !== '');
+
+let policyFile: PolicyFile | undefined;
+
+/**
+ * The credibility policy of a user: the team policy they are a member of, on top of the file's defaults
+ */
+export const getCredibilityPolicy = (namespace?: string): CredibilityPolicy => {
+  if (!policyFile) {
+    try {
+      policyFile = readPolicyFile();
+    } catch (error) {
+      // A broken policy file must not fail every chat request; the defaults apply until the server restarts with a fixed file
+      console.error('Research policy ignored, using the default policy:', error);
+      policyFile = {};
+    }
+  }
+  const base: CredibilityPolicy = {
+    allow: normalizeDomains(policyFile.allow),
+    deny: normalizeDomains(policyFile.deny),
+    lowTrust: policyFile.lowTrust ?? DEFAULT_LOW_TRUST,
+    minScore: policyFile.minScore ?? DEFAULT_MIN_SCORE,
+  };
+  const [team, settings] = Object.entries(policyFile.teams ?? {}).find(([, entry]) => namespace && entry.members?.includes(namespace)) ?? [];
+  if (!team || !settings) return base;
+  return {
+    team,
+    allow: [...base.allow, ...normalizeDomains(settings.allow)],
+    deny: [...base.deny, ...normalizeDomains(settings.deny)],
+    lowTrust: settings.lowTrust ?? base.lowTrust,
+    minScore: settings.minScore ?? base.minScore,
+  };
+};
+
+// Host without "www.", or the scheme for URLs without a host (local corpus articles)
+const sourceDomain = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    return parsed.hostname ? parsed.hostname.toLowerCase().replace(/^www\./, '') : parsed.protocol.replace(/:$/, '');
+  } catch {
+    return url.toLowerCase();
+  }
+};
+
+const matchesDomain = (domain: string, entry: string): boolean => domain === entry || domain.endsWith(`.${entry}`);
+
+const contentTypeOf = (domain: string): SourceContentType => {
+  for (const [type, domains] of KNOWN_DOMAINS) {
+    if (domains.some(entry => matchesDomain(domain, entry))) return type;
+  }
+  if (/\.(gov|mil|int)$|\.gov\.[a-z]{2}$|\.gouv\.[a-z]{2}$/.test(domain)) return 'official';
+  if (/\.edu$|\.edu\.[a-z]{2}$|\.ac\.[a-z]{2}$/.test(domain)) return 'academic';
+  if (/^(docs|developer|developers)\./.test(domain)) return 'documentation';
+  return 'unknown';
+};
+
+const recencyOf = (publishedDate: string | undefined, now: number): number => {
+  const published = publishedDate ? Date.parse(publishedDate) : NaN;
+  if (Number.isNaN(published)) return 0.5;
+  const ageDays = (now - published) / (24 * 60 * 60 * 1000);
+  if (ageDays <= RECENT_DAYS) return 1;
+  return Math.max(MIN_RECENCY, 1 - ((ageDays - RECENT_DAYS) / 365) * RECENCY_DECAY_PER_YEAR);
+};
+
+// Terms of what a result states (its quotes and summary, or the start of its text) beyond the terms searched for
+const statementTerms = (item: ResearchResultItem, queryTerms: Set<string>): Set<string> => {
+  const statement = [...(item.quotes ?? []).map(quote => quote.text), item.summary ?? ''].join(' ').trim() || item.text?.slice(0, 1000) || '';
+  return new Set(tokenize(statement).filter(term => !queryTerms.has(term)));
+};
+
+const agrees = (a: Set<string>, b: Set<string>): boolean => {
+  if (a.size < MIN_AGREEMENT_TERMS || b.size < MIN_AGREEMENT_TERMS) return false;
+  let shared = 0;
+  for (const term of a) if (b.has(term)) shared++;
+  return shared / Math.min(a.size, b.size) >= AGREEMENT_OVERLAP;
+};
+
+const levelOf = (score: number, policy: CredibilityPolicy): CredibilityLevel =>
+  score >= HIGH_TRUST_SCORE ? 'high' : score >= policy.minScore ? 'medium' : 'low';
+
+/**
+ * Score research results. Agreement is counted against the other results and the sources found earlier in the turn,
+ * on other domains only (a site does not confirm itself). The terms of the queries do not count towards agreement,
+ * since every result contains them.
+ */
+export const rateSources = (
+  items: ResearchResultItem[],
+  knownSources: ResearchResultItem[],
+  policy: CredibilityPolicy,
+  queries: string[] = [],
+  now = Date.now()
+): ResearchResultItem[] => {
+  const queryTerms = new Set(queries.flatMap(query => tokenize(query)));
+  const candidates = [...items, ...knownSources].map(item => ({ domain: sourceDomain(item.url), terms: statementTerms(item, queryTerms) }));
+
+  return items.map((item, index) => {
+    const { domain, terms } = candidates[index];
+    const listed = policy.deny.some(entry => matchesDomain(domain, entry)) ? 'deny'
+      : policy.allow.some(entry => matchesDomain(domain, entry)) ? 'allow'
+      : undefined;
+    const contentType = contentTypeOf(domain);
+
+    const others = candidates.filter(other => other.domain !== domain);
+    const agreeingSources = new Set(others.filter(other => agrees(terms, other.terms)).map(other => other.domain)).size;
+    const signals = {
+      domain: listed === 'allow' ? 1 : listed === 'deny' ? 0 : 0.5,
+      contentType: CONTENT_TYPE_SCORES[contentType],
+      recency: recencyOf(item.publishedDate, now),
+      agreement: others.length === 0 ? 0.5 : agreeingSources === 0 ? 0.3 : agreeingSources === 1 ? 0.7 : 1,
+    };
+    const weighted = (Object.keys(SIGNAL_WEIGHTS) as (keyof typeof SIGNAL_WEIGHTS)[])
+      .reduce((sum, signal) => sum + SIGNAL_WEIGHTS[signal] * signals[signal], 0);
+    const score = Math.round((listed === 'deny' ? 0 : weighted) * 100) / 100;
+
+    const credibility: SourceCredibility = { score, level: levelOf(score, policy), domain, contentType, listed, agreeingSources, signals };
+    return { ...item, credibility };
+  });
+};
+
+/**
+ * Apply the policy's low-trust action to rated results: drop them, list them last, or keep them as they are
+ */
+export const applyCredibilityPolicy = (
+  items: ResearchResultItem[],
+  policy: CredibilityPolicy
+): { results: ResearchResultItem[]; droppedUrls: string[] } => {
+  const isLowTrust = (item: ResearchResultItem) =>
+    item.credibility !== undefined && item.credibility.listed !== 'allow' && item.credibility.score < policy.minScore;
+  switch (policy.lowTrust) {
+    case 'drop':
+      return { results: items.filter(item => !isLowTrust(item)), droppedUrls: items.filter(isLowTrust).map(item => item.url) };
+    case 'downrank':
+      return { results: [...items.filter(item => !isLowTrust(item)), ...items.filter(isLowTrust)], droppedUrls: [] };
+    case 'keep':
+      return { results: items, droppedUrls: [] };
+  }
+};
+
+/**
+ * One line per rated source, for prompts: "[medium 0.62] Title (url): news, published 2024-03-01, agrees with 1 other domain"
+ */
+export const describeSourceCredibility = (item: ResearchResultItem): string => {
+  const credibility = item.credibility!;
+  const details = [
+    credibility.contentType === 'unknown' ? 'unknown site type' : credibility.contentType,
+    credibility.listed === 'allow' ? 'allow-listed domain' : credibility.listed === 'deny' ? 'deny-listed domain' : undefined,
+    item.publishedDate ? `published ${item.publishedDate.slice(0, 10)}` : 'no published date',
+    `agrees with ${credibility.agreeingSources} other domain${credibility.agreeingSources === 1 ? '' : 's'}`,
+  ].filter(Boolean);
+  return `[${credibility.level} ${credibility.score.toFixed(2)}] ${item.title || item.url} (${item.url}): ${details.join(', ')}`;
+};
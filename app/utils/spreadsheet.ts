@@ -0,0 +1,129 @@
+// spreadsheet.ts - Structured extraction of CSV/XLSX/ODS files: one typed table per sheet
+import * as XLSX from 'xlsx';
+
+export type ColumnType = 'number' | 'date' | 'boolean' | 'string';
+
+export type CellValue = string | number | boolean | null;
+
+export interface TableColumn {
+  name: string;
+  type: ColumnType;
+}
+
+export interface DocumentTable {
+  name: string; // Sheet name ("Sheet1", or the file name for CSV), or the caption of a table found in another document
+  columns: TableColumn[];
+  rows: CellValue[][]; // Dates as YYYY-MM-DD (or ISO date-time) strings
+  truncated?: boolean; // More than MAX_TABLE_ROWS rows; the rest was dropped
+}
+
+// Rows kept per sheet; the tables are stored as JSON next to the document text
+export const MAX_TABLE_ROWS = 50000;
+
+const fileExtension = (fileName: string): string => fileName.split('.').pop()?.toLowerCase() ?? '';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+const NUMBER_PATTERN = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/;
+
+// Dates without a time of day are written as YYYY-MM-DD
+const formatDate = (date: Date): string => {
+  const iso = date.toISOString();
+  return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+};
+
+// Placeholders for missing values, treated like empty cells so they do not turn numeric columns into text
+const MISSING_VALUES = new Set(['', 'n/a', 'na', '-', '--', 'null', 'none', 'nan']);
+
+const isEmpty = (value: unknown): boolean =>
+  value === null || value === undefined || (typeof value === 'string' && MISSING_VALUES.has(value.trim().toLowerCase()));
+
+const filledCells = (row: unknown[]): number => row.filter(value => !isEmpty(value)).length;
+
+const valueType = (value: unknown): ColumnType => {
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  if (value instanceof Date) return 'date';
+  const text = String(value).trim();
+  if (NUMBER_PATTERN.test(text.replace(/,(?=\d{3}\b)/g, ''))) return 'number';
+  if (/^(true|false)$/i.test(text)) return 'boolean';
+  if (ISO_DATE_PATTERN.test(text)) return 'date';
+  return 'string';
+};
+
+// A column has a type only if all of its non-empty cells agree; mixed columns stay text
+const inferColumnType = (values: unknown[]): ColumnType => {
+  const types = new Set(values.filter(value => !isEmpty(value)).map(valueType));
+  return types.size === 1 ? [...types][0] : 'string';
+};
+
+const toCell = (value: unknown, type: ColumnType): CellValue => {
+  if (isEmpty(value)) return null;
+  switch (type) {
+    case 'number':
+      return typeof value === 'number' ? value : Number(String(value).trim().replace(/,(?=\d{3}\b)/g, ''));
+    case 'boolean':
+      return typeof value === 'boolean' ? value : String(value).trim().toLowerCase() === 'true';
+    case 'date':
+      return value instanceof Date ? formatDate(value) : String(value).trim();
+    default:
+      return value instanceof Date ? formatDate(value) : String(value);
+  }
+};
+
+/**
+ * Turn a grid of cells (a sheet, or a table found in another document) into a table: the column names are in the
+ * first row that fills at least half of the widest row (which skips title rows above the header), and the columns
+ * get a type from their cells
+ */
+export const gridToTable = (name: string, cells: unknown[][]): DocumentTable | null => {
+  const grid = cells.filter(row => filledCells(row) > 0);
+  const widest = grid.reduce((max, row) => Math.max(max, filledCells(row)), 0);
+  if (widest === 0) return null;
+  const headerIndex = grid.findIndex(row => filledCells(row) >= widest / 2);
+
+  const header = grid[headerIndex];
+  const body = grid.slice(headerIndex + 1, headerIndex + 1 + MAX_TABLE_ROWS);
+  const width = body.reduce((max, row) => Math.max(max, row.length), header.length);
+  const names = Array.from({ length: width }, (_, i) => isEmpty(header[i]) ? `Column ${i + 1}` : String(header[i]).trim());
+  const columns = names.map((columnName, i) => ({ name: columnName, type: inferColumnType(body.map(row => row[i])) }));
+
+  return {
+    name,
+    columns,
+    rows: body.map(row => columns.map((column, i) => toCell(row[i], column.type))),
+    truncated: grid.length - headerIndex - 1 > MAX_TABLE_ROWS ? true : undefined,
+  };
+};
+
+const toTable = (name: string, sheet: XLSX.WorkSheet): DocumentTable | null =>
+  gridToTable(name, XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: null, blankrows: false }));
+
+/**
+ * Read every sheet of a CSV/TSV, XLSX, XLS or ODS file
+ */
+export const parseSpreadsheet = (buffer: Buffer, fileName: string): DocumentTable[] => {
+  const extension = fileExtension(fileName);
+  const isDelimitedText = extension === 'csv' || extension === 'tsv';
+  // Delimited text keeps its cells as written; the column types are inferred in toTable
+  const workbook = isDelimitedText
+    ? XLSX.read(buffer.toString('utf8').replace(/^\uFEFF/, ''), { type: 'string', raw: true, FS: extension === 'tsv' ? '\t' : undefined })
+    : XLSX.read(buffer, { type: 'buffer', cellDates: true });
+
+  return workbook.SheetNames
+    .map(sheetName => toTable(isDelimitedText ? fileName : sheetName, workbook.Sheets[sheetName]))
+    .filter((table): table is DocumentTable => table !== null);
+};
+
+const formatCell = (value: CellValue): string => value === null ? '' : String(value);
+
+/**
+ * Text form of the tables, stored as the document text for retrieval and the viewer
+ */
+export const tablesToText = (tables: DocumentTable[]): string =>
+  tables.map(table => [
+    `Sheet: ${table.name}`,
+    `Columns: ${table.columns.map(column => `${column.name} (${column.type})`).join(', ')}`,
+    table.columns.map(column => column.name).join(' | '),
+    ...table.rows.map(row => row.map(formatCell).join(' | ')),
+    ...(table.truncated ? [`(truncated after ${MAX_TABLE_ROWS} rows)`] : []),
+  ].join('\n')).join('\n\n');
@@ -0,0 +1,178 @@
+// tableQuery.ts - Declarative filters, group-bys and aggregations over stored tables (no code is evaluated)
+import { z } from 'zod';
+import type { CellValue, DocumentTable, TableColumn } from './spreadsheet';
+
+const filterSchema = z.object({
+  column: z.string().describe('Column name, as listed in the table schema.'),
+  operator: z.enum(['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains', 'in'])
+    .describe("Comparison. 'contains' matches text case-insensitively; 'in' expects a list of values."),
+  value: z.union([z.string(), z.number(), z.boolean(), z.array(z.union([z.string(), z.number()]))])
+    .describe('Value to compare with. Dates as YYYY-MM-DD.'),
+});
+
+const aggregationSchema = z.object({
+  function: z.enum(['count', 'sum', 'avg', 'min', 'max', 'count_distinct']),
+  column: z.string().optional().describe("Column to aggregate. Not needed for 'count'."),
+  as: z.string().optional().describe('Name of the result column.'),
+});
+
+export const tableQuerySchema = z.object({
+  filters: z.array(filterSchema).optional().describe('Row filters, all of which must match.'),
+  groupBy: z.array(z.string()).optional().describe('Columns to group by. Requires aggregations.'),
+  aggregations: z.array(aggregationSchema).optional().describe('Aggregations per group, or over all rows without groupBy.'),
+  select: z.array(z.string()).optional().describe('Columns to return when there are no aggregations (default all).'),
+  sort: z.array(z.object({
+    column: z.string().describe('A column of the result.'),
+    direction: z.enum(['asc', 'desc']).optional(),
+  })).optional(),
+  limit: z.number().int().positive().optional().describe('Maximum number of result rows.'),
+});
+
+export type TableQuery = z.infer<typeof tableQuerySchema>;
+
+type Filter = z.infer<typeof filterSchema>;
+type Aggregation = z.infer<typeof aggregationSchema>;
+
+export interface TableQueryResult {
+  columns: TableColumn[];
+  rows: CellValue[][];
+  matchedRows: number; // Rows of the source table that passed the filters
+  totalRows: number; // Result rows before the limit
+}
+
+// Result rows returned when the query sets no limit, so tool results stay small
+export const DEFAULT_RESULT_LIMIT = 200;
+
+const columnIndex = (columns: TableColumn[], name: string): number => {
+  const index = columns.findIndex(column => column.name === name);
+  if (index >= 0) return index;
+  // Fall back to a case-insensitive match, models often change the case of column names
+  const caseInsensitive = columns.findIndex(column => column.name.toLowerCase() === name.toLowerCase());
+  if (caseInsensitive >= 0) return caseInsensitive;
+  throw new Error(`Unknown column '${name}'. Columns: ${columns.map(column => column.name).join(', ')}.`);
+};
+
+const compareValues = (a: CellValue, b: CellValue): number => {
+  if (a === null || b === null) return a === b ? 0 : a === null ? 1 : -1; // Empty cells sort last
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b), undefined, { numeric: true });
+};
+
+// Filter values arrive as strings or numbers; compare them in the type of the column
+const coerce = (value: string | number | boolean, type: TableColumn['type']): CellValue => {
+  if (type === 'number' && typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+  if (type === 'boolean' && typeof value === 'string') return value.toLowerCase() === 'true';
+  return value;
+};
+
+const matchesFilter = (cell: CellValue, filter: Filter, type: TableColumn['type']): boolean => {
+  if (filter.operator === 'in') {
+    const values = Array.isArray(filter.value) ? filter.value : [filter.value];
+    return values.some(value => compareValues(cell, coerce(value, type)) === 0);
+  }
+  if (Array.isArray(filter.value)) throw new Error(`Operator '${filter.operator}' expects a single value.`);
+  const value = coerce(filter.value, type);
+  switch (filter.operator) {
+    case 'eq': return compareValues(cell, value) === 0;
+    case 'neq': return compareValues(cell, value) !== 0;
+    case 'gt': return cell !== null && compareValues(cell, value) > 0;
+    case 'gte': return cell !== null && compareValues(cell, value) >= 0;
+    case 'lt': return cell !== null && compareValues(cell, value) < 0;
+    case 'lte': return cell !== null && compareValues(cell, value) <= 0;
+    case 'contains': return cell !== null && String(cell).toLowerCase().includes(String(value).toLowerCase());
+  }
+};
+
+const aggregate = (aggregation: Aggregation, values: CellValue[], rowCount: number): CellValue => {
+  const present = values.filter((value): value is Exclude<CellValue, null> => value !== null);
+  const numbers = present.filter((value): value is number => typeof value === 'number');
+  switch (aggregation.function) {
+    case 'count':
+      return aggregation.column ? present.length : rowCount;
+    case 'count_distinct':
+      return new Set(present.map(String)).size;
+    case 'sum':
+      return numbers.reduce((sum, value) => sum + value, 0);
+    case 'avg':
+      return numbers.length > 0 ? numbers.reduce((sum, value) => sum + value, 0) / numbers.length : null;
+    case 'min':
+      return present.length > 0 ? present.reduce((min, value) => compareValues(value, min) < 0 ? value : min) : null;
+    case 'max':
+      return present.length > 0 ? present.reduce((max, value) => compareValues(value, max) > 0 ? value : max) : null;
+  }
+};
+
+const aggregationName = (aggregation: Aggregation): string =>
+  aggregation.as ?? (aggregation.column ? `${aggregation.function}(${aggregation.column})` : aggregation.function);
+
+const aggregationType = (aggregation: Aggregation, columns: TableColumn[], columnAt?: number): TableColumn['type'] =>
+  (aggregation.function === 'min' || aggregation.function === 'max') && columnAt !== undefined ? columns[columnAt].type : 'number';
+
+/**
+ * Run a query over a table; returns an error for unknown columns or invalid combinations
+ */
+export function runTableQuery(table: DocumentTable, query: TableQuery): TableQueryResult | { error: string } {
+  try {
+    return evaluateQuery(table, query);
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+function evaluateQuery(table: DocumentTable, query: TableQuery): TableQueryResult {
+  const filters = (query.filters ?? []).map(filter => ({ filter, index: columnIndex(table.columns, filter.column) }));
+  const matched = table.rows.filter(row => filters.every(({ filter, index }) => matchesFilter(row[index], filter, table.columns[index].type)));
+
+  let columns: TableColumn[];
+  let rows: CellValue[][];
+  if (query.aggregations && query.aggregations.length > 0) {
+    const groupIndexes = (query.groupBy ?? []).map(name => columnIndex(table.columns, name));
+    const aggregations = query.aggregations.map(aggregation => {
+      if (!aggregation.column && aggregation.function !== 'count') {
+        throw new Error(`Aggregation '${aggregation.function}' needs a column.`);
+      }
+      return { aggregation, index: aggregation.column ? columnIndex(table.columns, aggregation.column) : undefined };
+    });
+
+    // Groups keep the order in which their first row appears
+    const groups = new Map<string, CellValue[][]>();
+    for (const row of matched) {
+      const key = JSON.stringify(groupIndexes.map(index => row[index]));
+      const group = groups.get(key);
+      if (group) group.push(row);
+      else groups.set(key, [row]);
+    }
+    if (groupIndexes.length === 0 && groups.size === 0) groups.set('[]', []);
+
+    columns = [
+      ...groupIndexes.map(index => table.columns[index]),
+      ...aggregations.map(({ aggregation, index }) => ({ name: aggregationName(aggregation), type: aggregationType(aggregation, table.columns, index) })),
+    ];
+    rows = [...groups.values()].map(groupRows => [
+      ...groupIndexes.map(index => groupRows[0][index]),
+      ...aggregations.map(({ aggregation, index }) =>
+        aggregate(aggregation, index === undefined ? [] : groupRows.map(row => row[index]), groupRows.length)),
+    ]);
+  } else {
+    if (query.groupBy && query.groupBy.length > 0) throw new Error('groupBy requires at least one aggregation.');
+    const selected = (query.select ?? table.columns.map(column => column.name)).map(name => columnIndex(table.columns, name));
+    columns = selected.map(index => table.columns[index]);
+    rows = matched.map(row => selected.map(index => row[index]));
+  }
+
+  for (const { column, direction } of [...(query.sort ?? [])].reverse()) {
+    const index = columnIndex(columns, column);
+    const sign = direction === 'desc' ? -1 : 1;
+    // Stable, so earlier sort keys win; empty cells stay last in both directions
+    rows = [...rows].sort((a, b) => a[index] === null || b[index] === null
+      ? compareValues(a[index], b[index])
+      : sign * compareValues(a[index], b[index]));
+  }
+
+  return {
+    columns,
+    rows: rows.slice(0, query.limit ?? DEFAULT_RESULT_LIMIT),
+    matchedRows: matched.length,
+    totalRows: rows.length,
+  };
+}
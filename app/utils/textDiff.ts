@@ -0,0 +1,62 @@
+// textDiff.ts - Line diff between two document versions, for the version view of the text viewer
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Above this many line pairs (after trimming the common start and end) the LCS table gets too large;
+// the changed region is then shown as removed and re-added as a whole
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Diff two texts line by line (longest common subsequence), in the order of the new text
+ */
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix && suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) suffix++;
+
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+  const same = (lines: string[]): DiffLine[] => lines.map(text => ({ type: 'same', text }));
+
+  let middle: DiffLine[];
+  if (oldMiddle.length * newMiddle.length > MAX_LCS_CELLS) {
+    middle = [
+      ...oldMiddle.map(text => ({ type: 'removed' as const, text })),
+      ...newMiddle.map(text => ({ type: 'added' as const, text })),
+    ];
+  } else {
+    // lengths[i][j] = LCS length of oldMiddle[i..] and newMiddle[j..]
+    const rows = oldMiddle.length;
+    const columns = newMiddle.length;
+    const lengths = Array.from({ length: rows + 1 }, () => new Uint32Array(columns + 1));
+    for (let i = rows - 1; i >= 0; i--) {
+      for (let j = columns - 1; j >= 0; j--) {
+        lengths[i][j] = oldMiddle[i] === newMiddle[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+    middle = [];
+    let i = 0;
+    let j = 0;
+    while (i < rows || j < columns) {
+      if (i < rows && j < columns && oldMiddle[i] === newMiddle[j]) {
+        middle.push({ type: 'same', text: oldMiddle[i++] });
+        j++;
+      } else if (i < rows && (j === columns || lengths[i + 1][j] >= lengths[i][j + 1])) {
+        middle.push({ type: 'removed', text: oldMiddle[i++] });
+      } else {
+        middle.push({ type: 'added', text: newMiddle[j++] });
+      }
+    }
+  }
+
+  return [...same(newLines.slice(0, prefix)), ...middle, ...same(newLines.slice(newLines.length - suffix))];
+};
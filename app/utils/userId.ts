@@ -0,0 +1,15 @@
+// userId.ts - Anonymous per-browser user id used to namespace server-side data
+
+const STORAGE_KEY = 'judgeUserId';
+
+/**
+ * Get the user id from localStorage, creating one on first use
+ */
+export const getUserId = (): string => {
+  let userId = localStorage.getItem(STORAGE_KEY);
+  if (!userId) {
+    userId = crypto.randomUUID();
+    localStorage.setItem(STORAGE_KEY, userId);
+  }
+  return userId;
+};
@@ -0,0 +1,17 @@
+// userNamespace.ts - Resolve the per-user storage namespace of an API request
+
+// Header the client sends with its anonymous user id (see app/utils/userId.ts)
+export const USER_ID_HEADER = 'x-user-id';
+
+// Namespaces become directory names, so only allow a safe character set
+const NAMESPACE_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export const isValidNamespace = (namespace: string): boolean => NAMESPACE_PATTERN.test(namespace);
+
+/**
+ * Get the namespace for a request, or null if the user id header is missing or invalid
+ */
+export const resolveNamespace = (request: Request): string | null => {
+  const userId = request.headers.get(USER_ID_HEADER);
+  return userId && isValidNamespace(userId) ? userId : null;
+};
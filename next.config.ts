@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Loaded from node_modules at runtime: tesseract.js starts worker scripts by path, @napi-rs/canvas is a native addon
+  serverExternalPackages: ['tesseract.js', '@napi-rs/canvas'],
 };
 
 export default nextConfig;